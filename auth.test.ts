@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'bun:test';
+import { GarminAuth, oauth1Header, percentEncode, type GarminTokens, type TokenStore } from './auth';
+import { GarminAuthError } from './request';
+
+describe('percentEncode', () => {
+  it('should encode reserved characters the RFC 3986 way', () => {
+    expect(percentEncode("Ladies + Gentlemen!*'()")).toBe('Ladies%20%2B%20Gentlemen%21%2A%27%28%29');
+  });
+});
+
+describe('oauth1Header', () => {
+  it('should sign the request with HMAC-SHA1', () => {
+    // Example request from Twitter's "Creating a signature" guide
+    const header = oauth1Header(
+      {
+        method: 'POST',
+        url: 'https://api.twitter.com/1.1/statuses/update.json?include_entities=true',
+        form: { status: 'Hello Ladies + Gentlemen, a signed OAuth request!' },
+      },
+      { key: 'xvz1evFS4wEEPTGEFPHBog', secret: 'kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw' },
+      { token: '370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb', secret: 'LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE' },
+      'kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg',
+      1318622958
+    );
+    expect(header).toStartWith('OAuth oauth_consumer_key="xvz1evFS4wEEPTGEFPHBog"');
+    expect(header).toContain('oauth_token="370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb"');
+    expect(header).toContain(`oauth_signature="${percentEncode('hCtSmYh+iHYCEqBWrE7C7hYmtUk=')}"`);
+  });
+});
+
+function memoryStore(initial: GarminTokens | null = null): TokenStore & { tokens: GarminTokens | null } {
+  return {
+    tokens: initial,
+    load() { return this.tokens; },
+    save(tokens) { this.tokens = tokens; },
+  };
+}
+
+const mfaPage = (csrf: string) =>
+  new Response(`<title>Enter MFA code for login</title><input type="hidden" name="_csrf" value="${csrf}" />`);
+
+type Call = { url: string; method: string; headers: Record<string, string>; body: string };
+
+/** Fake Garmin SSO + OAuth + API. `apiStatus` decides each API response from the bearer token. */
+function fakeGarmin(apiStatus: (token: string) => number = () => 200) {
+  const calls: Call[] = [];
+  let issued = 0;
+  const fetchImpl = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    calls.push({ url, method: init.method ?? 'GET', headers, body: String(init.body ?? '') });
+    const { pathname } = new URL(url);
+    if (pathname === '/sso/embed') {
+      return new Response('ok', { headers: { 'set-cookie': 'GARMIN-SSO=1; Path=/' } });
+    }
+    if (pathname === '/sso/signin' && init.method !== 'POST') {
+      return new Response('<input type="hidden" name="_csrf" value="csrf-1" />');
+    }
+    if (pathname === '/sso/signin') {
+      const form = new URLSearchParams(String(init.body));
+      if (form.get('password') === 'mfa-secret') return mfaPage('csrf-mfa-1');
+      return form.get('password') === 'secret'
+        ? new Response('<title>Success</title><a href="https://sso.garmin.com/sso/embed?ticket=ST-42-abc">')
+        : new Response('<title>GARMIN Authentication Application</title>');
+    }
+    if (pathname === '/sso/verifyMFA/loginEnterMfaCode') {
+      const form = new URLSearchParams(String(init.body));
+      return form.get('mfa-verification-code') === '123456'
+        ? new Response('<title>Success</title><a href="https://sso.garmin.com/sso/embed?ticket=ST-43-mfa">')
+        : mfaPage('csrf-mfa-2');
+    }
+    if (pathname === '/oauth-service/oauth/preauthorized') {
+      return new Response('oauth_token=o1&oauth_token_secret=s1');
+    }
+    if (pathname === '/oauth-service/oauth/exchange/user/2.0') {
+      if (headers.authorization?.includes('oauth_token="revoked"')) return new Response('', { status: 401 });
+      issued++;
+      return Response.json({ access_token: `access-${issued}`, refresh_token: `refresh-${issued}`, expires_in: 3600, refresh_token_expires_in: 7200 });
+    }
+    const token = headers.authorization?.replace('Bearer ', '') ?? '';
+    return new Response('{}', { status: apiStatus(token) });
+  };
+  return { calls, fetchImpl };
+}
+
+const consumer = async () => ({ key: 'ck', secret: 'cs' });
+const NOW = Date.parse('2026-10-19T08:00:00Z');
+
+describe('GarminAuth', () => {
+  it('should log in through SSO, OAuth1 and OAuth2 and persist the tokens', async () => {
+    const { calls, fetchImpl } = fakeGarmin();
+    const store = memoryStore();
+    const auth = new GarminAuth({ store, consumer, fetch: fetchImpl, now: () => NOW });
+
+    await auth.login('me@example.com', 'secret');
+
+    expect(calls.map(c => `${c.method} ${new URL(c.url).pathname}`)).toEqual([
+      'GET /sso/embed',
+      'GET /sso/signin',
+      'POST /sso/signin',
+      'GET /oauth-service/oauth/preauthorized',
+      'POST /oauth-service/oauth/exchange/user/2.0',
+    ]);
+    expect(calls[2]!.headers.cookie).toBe('GARMIN-SSO=1');
+    expect(new URL(calls[3]!.url).searchParams.get('ticket')).toBe('ST-42-abc');
+    expect(store.tokens).toEqual({
+      oauth1: { token: 'o1', secret: 's1', mfaToken: null },
+      oauth2: { accessToken: 'access-1', refreshToken: 'refresh-1', expiresAt: NOW + 3600000, refreshTokenExpiresAt: NOW + 7200000 },
+    });
+    expect(auth.status()).toEqual({
+      authenticated: true,
+      accessTokenExpiresAt: '2026-10-19T09:00:00.000Z',
+      refreshTokenExpiresAt: '2026-10-19T10:00:00.000Z',
+      accessTokenExpired: false,
+    });
+  });
+
+  it('should reject a wrong password', async () => {
+    const { fetchImpl } = fakeGarmin();
+    const auth = new GarminAuth({ store: memoryStore(), consumer, fetch: fetchImpl });
+    await expect(auth.login('me@example.com', 'wrong')).rejects.toBeInstanceOf(GarminAuthError);
+    expect(auth.status().authenticated).toBe(false);
+  });
+
+  const stored: GarminTokens = {
+    oauth1: { token: 'o1', secret: 's1' },
+    oauth2: { accessToken: 'old', refreshToken: 'r', expiresAt: NOW + 3600000, refreshTokenExpiresAt: null },
+  };
+
+  it('should refresh an expired access token before the request', async () => {
+    const { calls, fetchImpl } = fakeGarmin();
+    const store = memoryStore({ ...stored, oauth2: { ...stored.oauth2, expiresAt: NOW - 1000 } });
+    const auth = new GarminAuth({ store, consumer, fetch: fetchImpl, now: () => NOW });
+
+    const res = await auth.fetch('https://connectapi.garmin.com/x');
+
+    expect(res.status).toBe(200);
+    expect(calls.map(c => new URL(c.url).pathname)).toEqual(['/oauth-service/oauth/exchange/user/2.0', '/x']);
+    expect(calls[1]!.headers.authorization).toBe('Bearer access-1');
+    expect(store.tokens?.oauth2.accessToken).toBe('access-1');
+  });
+
+  it('should refresh on a 401 and retry the request once', async () => {
+    const { calls, fetchImpl } = fakeGarmin(token => (token === 'old' ? 401 : 200));
+    const auth = new GarminAuth({ store: memoryStore(stored), consumer, fetch: fetchImpl, now: () => NOW });
+
+    const res = await auth.fetch('https://connectapi.garmin.com/x');
+
+    expect(res.status).toBe(200);
+    expect(calls.map(c => c.headers.authorization?.slice(0, 13))).toEqual(['Bearer old', 'OAuth oauth_c', 'Bearer access']);
+  });
+
+  it('should give up after one retry', async () => {
+    const { calls, fetchImpl } = fakeGarmin(() => 401);
+    const auth = new GarminAuth({ store: memoryStore(stored), consumer, fetch: fetchImpl, now: () => NOW });
+    expect((await auth.fetch('https://connectapi.garmin.com/x')).status).toBe(401);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should share one refresh between concurrent requests', async () => {
+    const { calls, fetchImpl } = fakeGarmin();
+    const store = memoryStore({ ...stored, oauth2: { ...stored.oauth2, expiresAt: NOW - 1000 } });
+    const auth = new GarminAuth({ store, consumer, fetch: fetchImpl, now: () => NOW });
+    await Promise.all([auth.fetch('https://connectapi.garmin.com/a'), auth.fetch('https://connectapi.garmin.com/b')]);
+    expect(calls.filter(c => c.url.includes('exchange'))).toHaveLength(1);
+  });
+
+  it('should drop the tokens when Garmin rejects the OAuth1 token', async () => {
+    const { fetchImpl } = fakeGarmin();
+    const store = memoryStore({ oauth1: { token: 'revoked', secret: 's' }, oauth2: { ...stored.oauth2, expiresAt: NOW - 1000 } });
+    const auth = new GarminAuth({ store, consumer, fetch: fetchImpl, now: () => NOW });
+    await expect(auth.fetch('https://connectapi.garmin.com/x')).rejects.toBeInstanceOf(GarminAuthError);
+    expect(store.tokens).toBeNull();
+    expect(auth.status().authenticated).toBe(false);
+  });
+});
+
+describe('GarminAuth MFA', () => {
+  it('should pause the login with a challenge and finish it with the code', async () => {
+    const { calls, fetchImpl } = fakeGarmin();
+    const store = memoryStore();
+    const auth = new GarminAuth({ store, consumer, fetch: fetchImpl, now: () => NOW });
+
+    const result = await auth.login('me@example.com', 'mfa-secret');
+    expect(result.mfaRequired).toBe(true);
+    expect(store.tokens).toBeNull();
+    const challengeId = result.mfaRequired ? result.challengeId : '';
+    expect(auth.hasChallenge(challengeId)).toBe(true);
+
+    await auth.completeMfa(challengeId, '123456');
+
+    const verify = calls.find(c => c.url.includes('/verifyMFA/'))!;
+    expect(verify.headers.cookie).toBe('GARMIN-SSO=1');
+    expect(new URLSearchParams(verify.body).get('_csrf')).toBe('csrf-mfa-1');
+    expect(new URL(calls.find(c => c.url.includes('preauthorized'))!.url).searchParams.get('ticket')).toBe('ST-43-mfa');
+    expect(store.tokens?.oauth2.accessToken).toBe('access-1');
+    expect(auth.hasChallenge(challengeId)).toBe(false);
+  });
+
+  it('should keep the challenge after a wrong code', async () => {
+    const { calls, fetchImpl } = fakeGarmin();
+    const auth = new GarminAuth({ store: memoryStore(), consumer, fetch: fetchImpl, now: () => NOW });
+    const result = await auth.login('me@example.com', 'mfa-secret');
+    const challengeId = result.mfaRequired ? result.challengeId : '';
+
+    await expect(auth.completeMfa(challengeId, '000000')).rejects.toBeInstanceOf(GarminAuthError);
+    expect(auth.hasChallenge(challengeId)).toBe(true);
+
+    await auth.completeMfa(challengeId, '123456');
+    expect(new URLSearchParams(calls[calls.length - 3]!.body).get('_csrf')).toBe('csrf-mfa-2');
+    expect(auth.status().authenticated).toBe(true);
+  });
+
+  it('should reject unknown and expired challenges', async () => {
+    const { fetchImpl } = fakeGarmin();
+    let now = NOW;
+    const auth = new GarminAuth({ store: memoryStore(), consumer, fetch: fetchImpl, now: () => now });
+    await expect(auth.completeMfa('nope', '123456')).rejects.toBeInstanceOf(GarminAuthError);
+
+    const result = await auth.login('me@example.com', 'mfa-secret');
+    const challengeId = result.mfaRequired ? result.challengeId : '';
+    now += 11 * 60 * 1000;
+    expect(auth.hasChallenge(challengeId)).toBe(false);
+    await expect(auth.completeMfa(challengeId, '123456')).rejects.toBeInstanceOf(GarminAuthError);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Garmin Connect authentication
+ * SSO login (plus MFA code if asked) → OAuth1 ticket exchange → OAuth2 bearer tokens, refreshed on expiry or 401
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { GarminAuthError, GarminServerError } from './request.js';
+
+export const SSO_URL = 'https://sso.garmin.com/sso';
+export const API_URL = 'https://connectapi.garmin.com';
+export const OAUTH_CONSUMER_URL = 'https://thegarth.s3.amazonaws.com/oauth_consumer.json';
+
+const SSO_EMBED_URL = `${SSO_URL}/embed`;
+const SSO_USER_AGENT = 'GCM-iOS-5.7.2.1';
+const OAUTH_USER_AGENT = 'com.garmin.android.apps.connectmobile';
+// Refresh a little before the access token runs out so in-flight requests don't hit the edge
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// How long a paused MFA login waits for its verification code
+const MFA_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+const SIGNIN_PARAMS = new URLSearchParams({
+  id: 'gauth-widget',
+  embedWidget: 'true',
+  gauthHost: SSO_EMBED_URL,
+  service: SSO_EMBED_URL,
+  source: SSO_EMBED_URL,
+  redirectAfterAccountLoginUrl: SSO_EMBED_URL,
+  redirectAfterAccountCreationUrl: SSO_EMBED_URL,
+});
+
+export interface OAuthConsumer {
+  key: string;
+  secret: string;
+}
+
+/** Long-lived token from the ticket exchange; used to mint new OAuth2 tokens. */
+export interface OAuth1Token {
+  token: string;
+  secret: string;
+  mfaToken?: string | null;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  refreshToken: string;
+  /** Unix ms */
+  expiresAt: number;
+  /** Unix ms; null when Garmin did not say. */
+  refreshTokenExpiresAt: number | null;
+}
+
+export interface GarminTokens {
+  oauth1: OAuth1Token;
+  oauth2: OAuth2Token;
+}
+
+export interface TokenStore {
+  load(): GarminTokens | null;
+  save(tokens: GarminTokens | null): void;
+}
+
+export interface AuthStatus {
+  authenticated: boolean;
+  accessTokenExpiresAt: string | null;
+  refreshTokenExpiresAt: string | null;
+  accessTokenExpired: boolean;
+}
+
+/** A login either finishes, or pauses until the verification code for `challengeId` is supplied. */
+export type LoginResult = { mfaRequired: false } | { mfaRequired: true; challengeId: string };
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface GarminAuthOptions {
+  store: TokenStore;
+  consumer: () => Promise<OAuthConsumer>;
+  fetch?: FetchLike;
+  now?: () => number;
+}
+
+/** RFC 3986 percent-encoding as OAuth1 requires. */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Authorization header for an HMAC-SHA1 signed OAuth1 request. Query string
+ * and form body parameters are part of the signature.
+ */
+export function oauth1Header(
+  request: { method: string; url: string; form?: Record<string, string> },
+  consumer: OAuthConsumer,
+  token: Pick<OAuth1Token, 'token' | 'secret'> | null,
+  nonce = randomBytes(16).toString('hex'),
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  const url = new URL(request.url);
+  const oauth: Record<string, string> = {
+    oauth_consumer_key: consumer.key,
+    oauth_nonce: nonce,
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: String(timestamp),
+    oauth_version: '1.0',
+  };
+  if (token) oauth.oauth_token = token.token;
+
+  const params = [...url.searchParams.entries(), ...Object.entries(request.form ?? {}), ...Object.entries(oauth)]
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)] as const)
+    .sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : 1) : ak < bk ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const baseUrl = `${url.protocol}//${url.host}${url.pathname}`;
+  const base = [request.method.toUpperCase(), percentEncode(baseUrl), percentEncode(params)].join('&');
+  const signingKey = `${percentEncode(consumer.secret)}&${percentEncode(token?.secret ?? '')}`;
+  oauth.oauth_signature = createHmac('sha1', signingKey).update(base).digest('base64');
+
+  return 'OAuth ' + Object.entries(oauth).map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`).join(', ');
+}
+
+/** The OAuth consumer Garmin's mobile app uses, as published for API clients. */
+export async function fetchOAuthConsumer(fetchImpl: FetchLike = fetch, url = OAUTH_CONSUMER_URL): Promise<OAuthConsumer> {
+  const res = await fetchImpl(url);
+  if (!res.ok) throw new Error(`Could not load the Garmin OAuth consumer from ${url} (${res.status})`);
+  const body = await res.json() as { consumer_key: string; consumer_secret: string };
+  return { key: body.consumer_key, secret: body.consumer_secret };
+}
+
+/** Minimal cookie jar for the SSO pages, which rely on session cookies between steps. */
+class CookieJar {
+  private cookies = new Map<string, string>();
+
+  store(res: Response): void {
+    for (const header of res.headers.getSetCookie()) {
+      const [pair] = header.split(';');
+      const index = pair!.indexOf('=');
+      if (index > 0) this.cookies.set(pair!.slice(0, index).trim(), pair!.slice(index + 1).trim());
+    }
+  }
+
+  header(): string {
+    return [...this.cookies.entries()].map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
+
+/** What an SSO page told us: its title, and the ticket or CSRF token it carried. */
+function parseSsoPage(html: string): { title: string; ticket: string | null; csrf: string | null } {
+  return {
+    title: html.match(/<title>(.+?)<\/title>/)?.[1] ?? '',
+    ticket: html.match(/embed\?ticket=([^"]+)"/)?.[1] ?? null,
+    csrf: html.match(/name="_csrf"\s+value="(.+?)"/)?.[1] ?? null,
+  };
+}
+
+/** SSO state kept between the password step and the verification code step. */
+interface MfaChallenge {
+  jar: CookieJar;
+  csrf: string;
+  expiresAt: number;
+}
+
+export class GarminAuth {
+  private store: TokenStore;
+  private consumer: () => Promise<OAuthConsumer>;
+  private fetchImpl: FetchLike;
+  private now: () => number;
+  private tokens: GarminTokens | null;
+  private refreshing: Promise<void> | null = null;
+  private challenges = new Map<string, MfaChallenge>();
+
+  constructor(options: GarminAuthOptions) {
+    this.store = options.store;
+    this.consumer = options.consumer;
+    this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+    this.now = options.now ?? Date.now;
+    this.tokens = options.store.load();
+  }
+
+  status(): AuthStatus {
+    const oauth2 = this.tokens?.oauth2;
+    return {
+      authenticated: this.tokens !== null,
+      accessTokenExpiresAt: oauth2 ? new Date(oauth2.expiresAt).toISOString() : null,
+      refreshTokenExpiresAt: oauth2?.refreshTokenExpiresAt ? new Date(oauth2.refreshTokenExpiresAt).toISOString() : null,
+      accessTokenExpired: oauth2 ? oauth2.expiresAt <= this.now() : false,
+    };
+  }
+
+  /**
+   * Full login with username and password; throws GarminAuthError when Garmin
+   * rejects it. Accounts with MFA pause after the password: the result carries
+   * a challenge to pass to `completeMfa` with the code Garmin sent.
+   */
+  async login(username: string, password: string): Promise<LoginResult> {
+    const result = await this.signIn(username, password);
+    if ('ticket' in result) {
+      await this.authorize(result.ticket);
+      return { mfaRequired: false };
+    }
+    const now = this.now();
+    for (const [id, challenge] of this.challenges) {
+      if (challenge.expiresAt <= now) this.challenges.delete(id);
+    }
+    const challengeId = randomBytes(16).toString('hex');
+    this.challenges.set(challengeId, { ...result, expiresAt: now + MFA_CHALLENGE_TTL_MS });
+    return { mfaRequired: true, challengeId };
+  }
+
+  hasChallenge(challengeId: string): boolean {
+    const challenge = this.challenges.get(challengeId);
+    return challenge !== undefined && challenge.expiresAt > this.now();
+  }
+
+  /**
+   * Submits the verification code for a paused login. A wrong code keeps the
+   * challenge so the user can try again; any other failure ends it.
+   */
+  async completeMfa(challengeId: string, code: string): Promise<void> {
+    const challenge = this.challenges.get(challengeId);
+    if (!challenge || challenge.expiresAt <= this.now()) {
+      this.challenges.delete(challengeId);
+      throw new GarminAuthError(401, 'sso/verifyMFA', 'MFA challenge not found or expired; log in again');
+    }
+    const url = `${SSO_URL}/verifyMFA/loginEnterMfaCode?${SIGNIN_PARAMS}`;
+    const page = parseSsoPage(await this.ssoPost(url, challenge.jar, {
+      'mfa-verification-code': code,
+      embed: 'true',
+      _csrf: challenge.csrf,
+      fromPage: 'setupEnterMfaCode',
+    }));
+    if (page.title === 'Success' && page.ticket) {
+      this.challenges.delete(challengeId);
+      await this.authorize(page.ticket);
+      return;
+    }
+    if (page.title.includes('MFA') && page.csrf) {
+      challenge.csrf = page.csrf;
+      throw new GarminAuthError(401, 'sso/verifyMFA', 'Garmin rejected the verification code');
+    }
+    this.challenges.delete(challengeId);
+    throw new GarminAuthError(401, 'sso/verifyMFA', `Garmin MFA verification failed${page.title ? ` (${page.title})` : ''}`);
+  }
+
+  logout(): void {
+    this.tokens = null;
+    this.store.save(null);
+  }
+
+  /**
+   * Mints a new OAuth2 token from the stored OAuth1 token. Concurrent callers
+   * share one exchange. If Garmin rejects the OAuth1 token the stored tokens are
+   * dropped so the next sync logs in again.
+   */
+  async refresh(): Promise<void> {
+    if (!this.tokens) throw new GarminAuthError(401, 'oauth', 'Not authenticated');
+    if (!this.refreshing) {
+      const { oauth1 } = this.tokens;
+      this.refreshing = this.exchange(oauth1)
+        .then(oauth2 => this.saveTokens({ oauth1, oauth2 }))
+        .catch(err => {
+          if (err instanceof GarminAuthError) this.logout();
+          throw err;
+        })
+        .finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  /** A valid access token, refreshed first if it has expired. */
+  async accessToken(): Promise<string> {
+    if (this.refreshing) await this.refreshing;
+    if (!this.tokens) throw new GarminAuthError(401, 'oauth', 'Not authenticated');
+    if (this.tokens.oauth2.expiresAt - EXPIRY_MARGIN_MS <= this.now()) await this.refresh();
+    return this.tokens!.oauth2.accessToken;
+  }
+
+  /** Sends an API request with the bearer token. A 401 refreshes the token and retries once. */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = (token: string) => this.fetchImpl(url, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, authorization: `Bearer ${token}`, 'user-agent': SSO_USER_AGENT },
+    });
+    const token = await this.accessToken();
+    const res = await send(token);
+    if (res.status !== 401 || !this.tokens) return res;
+    // Another request may already have refreshed; only exchange again if we used the current token
+    if (this.tokens.oauth2.accessToken === token) await this.refresh();
+    return send(await this.accessToken());
+  }
+
+  private saveTokens(tokens: GarminTokens): void {
+    this.tokens = tokens;
+    this.store.save(tokens);
+  }
+
+  /** Runs the SSO sign-in pages; returns the service ticket, or the SSO state when a verification code is needed. */
+  private async signIn(username: string, password: string): Promise<{ ticket: string } | { jar: CookieJar; csrf: string }> {
+    const jar = new CookieJar();
+    const get = async (url: string) => {
+      const res = await this.fetchImpl(url, { headers: { 'user-agent': SSO_USER_AGENT, cookie: jar.header() } });
+      jar.store(res);
+      return res.text();
+    };
+
+    const embedParams = new URLSearchParams({ id: 'gauth-widget', embedWidget: 'true', gauthHost: SSO_URL });
+    await get(`${SSO_EMBED_URL}?${embedParams}`);
+    const signinUrl = `${SSO_URL}/signin?${SIGNIN_PARAMS}`;
+    const { csrf } = parseSsoPage(await get(signinUrl));
+    if (!csrf) throw new GarminAuthError(0, 'sso/signin', 'Garmin login page did not include a CSRF token');
+
+    const page = parseSsoPage(await this.ssoPost(signinUrl, jar, { username, password, embed: 'true', _csrf: csrf }));
+    if (page.title === 'Success' && page.ticket) return { ticket: page.ticket };
+    if (page.title.includes('MFA') && page.csrf) return { jar, csrf: page.csrf };
+    throw new GarminAuthError(401, 'sso/signin', `Garmin login failed${page.title ? ` (${page.title})` : ''}`);
+  }
+
+  private async ssoPost(url: string, jar: CookieJar, form: Record<string, string>): Promise<string> {
+    const res = await this.fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'user-agent': SSO_USER_AGENT,
+        'content-type': 'application/x-www-form-urlencoded',
+        cookie: jar.header(),
+        referer: url,
+      },
+      body: new URLSearchParams(form),
+    });
+    jar.store(res);
+    if (!res.ok) throw new GarminAuthError(res.status, new URL(url).pathname, `Garmin SSO returned ${res.status}`);
+    return res.text();
+  }
+
+  /** Finishes a login from the SSO ticket: OAuth1 token, then the first OAuth2 token. */
+  private async authorize(ticket: string): Promise<void> {
+    const oauth1 = await this.preauthorize(ticket);
+    this.saveTokens({ oauth1, oauth2: await this.exchange(oauth1) });
+  }
+
+  /** Trades the SSO ticket for the OAuth1 token. */
+  private async preauthorize(ticket: string): Promise<OAuth1Token> {
+    const consumer = await this.consumer();
+    const params = new URLSearchParams({ ticket, 'login-url': SSO_EMBED_URL, 'accepts-mfa-tokens': 'true' });
+    const url = `${API_URL}/oauth-service/oauth/preauthorized?${params}`;
+    const res = await this.fetchImpl(url, {
+      headers: { 'user-agent': OAUTH_USER_AGENT, authorization: oauth1Header({ method: 'GET', url }, consumer, null) },
+    });
+    if (!res.ok) throw new GarminAuthError(res.status, 'oauth/preauthorized', `Garmin OAuth1 ticket exchange failed (${res.status})`);
+    const body = new URLSearchParams(await res.text());
+    const token = body.get('oauth_token');
+    const secret = body.get('oauth_token_secret');
+    if (!token || !secret) throw new GarminAuthError(401, 'oauth/preauthorized', 'Garmin OAuth1 response had no token');
+    return { token, secret, mfaToken: body.get('mfa_token') };
+  }
+
+  /** Trades the OAuth1 token for a fresh OAuth2 access/refresh token pair. */
+  private async exchange(oauth1: OAuth1Token): Promise<OAuth2Token> {
+    const consumer = await this.consumer();
+    const url = `${API_URL}/oauth-service/oauth/exchange/user/2.0`;
+    const form: Record<string, string> = oauth1.mfaToken ? { mfa_token: oauth1.mfaToken } : {};
+    const res = await this.fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'user-agent': OAUTH_USER_AGENT,
+        'content-type': 'application/x-www-form-urlencoded',
+        authorization: oauth1Header({ method: 'POST', url, form }, consumer, oauth1),
+      },
+      body: new URLSearchParams(form),
+    });
+    if (res.status === 401 || res.status === 403) {
+      throw new GarminAuthError(res.status, 'oauth/exchange', 'Garmin rejected the OAuth1 token; log in again');
+    }
+    if (!res.ok) throw new GarminServerError(res.status, 'oauth/exchange', null, `Garmin OAuth2 exchange failed (${res.status})`);
+    const body = await res.json() as { access_token: string; refresh_token: string; expires_in: number; refresh_token_expires_in?: number };
+    const now = this.now();
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresAt: now + body.expires_in * 1000,
+      refreshTokenExpiresAt: body.refresh_token_expires_in ? now + body.refresh_token_expires_in * 1000 : null,
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'bun:test';
+import { BACKFILL_TYPES, backfillProgress, isPastCursor, nextDayChunk, parseBackfillRequest, planActivityPage, walkActivities, type ActivityWalk, type BackfillJob, type ListedActivity } from './backfill';
+
+/** One activity a day in September, newest first like Garmin's list */
+const september = (): ListedActivity[] => Array.from({ length: 30 }, (_, i) => ({
+  activityId: 30 - i,
+  startTimeLocal: `2026-09-${String(30 - i).padStart(2, '0')}T07:00:00`,
+}));
+const range = { from: '2026-09-05', to: '2026-09-25' };
+const inRange = Array.from({ length: 21 }, (_, i) => 25 - i);
+
+/** Runs a walk against `list`, optionally crashing on the store after `failAfter` stored activities. */
+async function run(list: ListedActivity[], walk: ActivityWalk, stored: number[], failAfter = Infinity) {
+  let saved = walk;
+  try {
+    await walkActivities(
+      saved,
+      range,
+      10,
+      async (limit, start) => list.slice(start, start + limit),
+      async activity => {
+        if (stored.length >= failAfter) throw new Error('crash');
+        stored.push(activity.activityId);
+      },
+      next => { saved = next; },
+    );
+  } catch {
+    // Interrupted; `saved` is what the job row holds
+  }
+  return saved;
+}
+
+const fresh: ActivityWalk = { start: 0, cursor: null, done: 0, complete: false };
+
+describe('parseBackfillRequest', () => {
+  it('should default to activities and every wellness type', () => {
+    expect(parseBackfillRequest({ from: '2019-01-01', to: '2026-10-01' })).toEqual({
+      from: '2019-01-01', to: '2026-10-01', types: [...BACKFILL_TYPES],
+    });
+    expect(BACKFILL_TYPES).not.toContain('gear');
+    expect(BACKFILL_TYPES).not.toContain('records');
+  });
+
+  it('should reject account-wide types, which have no history to walk', () => {
+    const message = `types must be a non-empty list of: ${BACKFILL_TYPES.join(', ')}`;
+    expect(parseBackfillRequest({ from: '2019-01-01', to: '2026-10-01', types: ['activities', 'gear'] })).toBe(message);
+    expect(parseBackfillRequest({ from: '2019-01-01', to: '2026-10-01', types: ['records'] })).toBe(message);
+    expect(parseBackfillRequest({ from: '2019-01-01', to: '2026-10-01', types: [] })).toBe(message);
+  });
+
+  it('should require an ordered date range', () => {
+    expect(parseBackfillRequest({ to: '2026-10-01' })).toBe('from must be a YYYY-MM-DD date');
+    expect(parseBackfillRequest({ from: '2019-01-01', to: '2026-10' })).toBe('to must be a YYYY-MM-DD date');
+    expect(parseBackfillRequest({ from: '2026-10-01', to: '2019-01-01' })).toBe('from must not be after to');
+  });
+});
+
+describe('isPastCursor', () => {
+  it('should order by start time, then activity id', () => {
+    const cursor = { startTime: '2026-09-10T07:00:00', activityId: 10 };
+    expect(isPastCursor({ activityId: 9, startTimeLocal: '2026-09-09T07:00:00' }, cursor)).toBe(true);
+    expect(isPastCursor({ activityId: 11, startTimeLocal: '2026-09-11T07:00:00' }, cursor)).toBe(false);
+    expect(isPastCursor({ activityId: 10, startTimeLocal: '2026-09-10T07:00:00' }, cursor)).toBe(false);
+    expect(isPastCursor({ activityId: 8, startTimeLocal: '2026-09-10T07:00:00' }, cursor)).toBe(true);
+    expect(isPastCursor({ activityId: 1, startTimeLocal: '2026-09-30T07:00:00' }, null)).toBe(true);
+  });
+});
+
+describe('planActivityPage', () => {
+  it('should store unhandled activities in range and move the cursor to the oldest one', () => {
+    const page = september().slice(0, 10);
+    const plan = planActivityPage(page, { startTime: '2026-09-27T07:00:00', activityId: 27 }, range, 10);
+    expect(plan.store.map(a => a.activityId)).toEqual([25, 24, 23, 22, 21]);
+    expect(plan.cursor).toEqual({ startTime: '2026-09-21T07:00:00', activityId: 21 });
+    expect(plan.reachedEnd).toBe(false);
+  });
+
+  it('should end at a short page or once past the start of the range', () => {
+    expect(planActivityPage(september().slice(25), null, range, 10).reachedEnd).toBe(true);
+    expect(planActivityPage(september().slice(20, 30), null, range, 10).reachedEnd).toBe(true);
+  });
+});
+
+describe('walkActivities', () => {
+  it('should store every activity in range once', async () => {
+    const stored: number[] = [];
+    const walk = await run(september(), fresh, stored);
+    expect(stored).toEqual(inRange);
+    expect(walk).toMatchObject({ done: 21, complete: true });
+  });
+
+  it('should not store or count activities again after new ones shift the list', async () => {
+    const stored: number[] = [];
+    const interrupted = await run(september(), fresh, stored, 5);
+    expect(interrupted).toMatchObject({ done: 5, complete: false });
+
+    // Three activities recorded before the resume push everything down the list
+    const list = [
+      { activityId: 33, startTimeLocal: '2026-10-03T07:00:00' },
+      { activityId: 32, startTimeLocal: '2026-10-02T07:00:00' },
+      { activityId: 31, startTimeLocal: '2026-10-01T07:00:00' },
+      ...september(),
+    ];
+    const walk = await run(list, interrupted, stored);
+    expect(stored).toEqual(inRange);
+    expect(walk).toMatchObject({ done: 21, complete: true });
+  });
+
+  it('should redo only the unsaved part of a page after a crash inside it', async () => {
+    const stored: number[] = [];
+    const interrupted = await run(september(), fresh, stored, 8);
+    expect(interrupted).toMatchObject({ done: 5, complete: false });
+
+    const walk = await run(september(), interrupted, stored);
+    expect(stored).toEqual([...inRange.slice(0, 8), ...inRange.slice(5)]);
+    expect(walk).toMatchObject({ done: 21, complete: true });
+  });
+
+  it('should not skip activities after deleted ones shift the list', async () => {
+    const stored: number[] = [];
+    const interrupted = await run(september(), fresh, stored, 5);
+
+    // Activities deleted above the saved offset pull the unhandled ones past it
+    const list = september().filter(a => ![30, 29, 28, 27].includes(a.activityId));
+    const walk = await run(list, interrupted, stored);
+    expect(stored).toEqual(inRange);
+    expect(walk).toMatchObject({ done: 21, complete: true });
+  });
+});
+
+describe('nextDayChunk', () => {
+  it('should walk the range in chunks after the cursor day', () => {
+    const chunks = [];
+    for (let chunk = nextDayChunk(range, null, 7); chunk; chunk = nextDayChunk(range, chunk.to, 7)) chunks.push(chunk);
+    expect(chunks).toEqual([
+      { from: '2026-09-05', to: '2026-09-11' },
+      { from: '2026-09-12', to: '2026-09-18' },
+      { from: '2026-09-19', to: '2026-09-25' },
+    ]);
+  });
+
+  it('should resume after the saved cursor and stop at the end of the range', () => {
+    expect(nextDayChunk(range, '2026-09-20', 7)).toEqual({ from: '2026-09-21', to: '2026-09-25' });
+    expect(nextDayChunk(range, '2026-09-25', 7)).toBeNull();
+    expect(nextDayChunk({ from: '2026-02-27', to: '2026-03-10' }, null, 3)).toEqual({ from: '2026-02-27', to: '2026-03-01' });
+  });
+});
+
+describe('backfillProgress', () => {
+  it('should report day and activity progress for /sync/status', () => {
+    const job: BackfillJob = {
+      id: 4, profileId: 1, fromDay: '2026-09-05', toDay: '2026-09-25', types: '["activities","sleep"]', status: 'running',
+      cursorDay: '2026-09-11', activityStart: 21, activityCursorTime: '2026-09-10T07:00:00', activityCursorId: 10,
+      activitiesComplete: 1, activitiesDone: 16, daysDone: 7, daysTotal: 21, logId: 12, failedItems: 2,
+      startedAt: '2026-10-01T08:00:00Z', updatedAt: '2026-10-01T08:05:00Z', endedAt: null, error: null,
+    };
+    expect(backfillProgress(job)).toEqual({
+      id: 4,
+      status: 'running',
+      from: '2026-09-05',
+      to: '2026-09-25',
+      types: ['activities', 'sleep'],
+      days: { done: 7, total: 21, cursor: '2026-09-11' },
+      activities: { done: 16, complete: true },
+      failedItems: 2,
+      logId: 12,
+      startedAt: '2026-10-01T08:00:00Z',
+      updatedAt: '2026-10-01T08:05:00Z',
+      endedAt: null,
+      error: null,
+    });
+  });
+});
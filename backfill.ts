@@ -0,0 +1,209 @@
+/**
+ * Historical backfill cursors for Garmin Health Sync
+ * Validates backfill requests and tracks where an interrupted backfill resumes
+ * in the activity list and the day range
+ */
+
+import { DAY_PATTERN, WELLNESS_TYPES, type SyncDataType } from './sync.js';
+
+// Gear and records are account-wide and re-pulled whole by every sync, so
+// there is no history to backfill
+export const BACKFILL_TYPES: readonly SyncDataType[] = ['activities', ...WELLNESS_TYPES];
+
+export interface BackfillRequest {
+  from: string;
+  to: string;
+  types: SyncDataType[];
+}
+
+/** Validates a POST /sync/backfill body; returns the problem as a string. */
+export function parseBackfillRequest(body: unknown): BackfillRequest | string {
+  const { from, to, types } = (body ?? {}) as Record<string, unknown>;
+  if (typeof from !== 'string' || !DAY_PATTERN.test(from)) return 'from must be a YYYY-MM-DD date';
+  if (typeof to !== 'string' || !DAY_PATTERN.test(to)) return 'to must be a YYYY-MM-DD date';
+  if (from > to) return 'from must not be after to';
+  if (types === undefined) return { from, to, types: [...BACKFILL_TYPES] };
+  if (!Array.isArray(types) || types.length === 0 || !types.every(t => BACKFILL_TYPES.includes(t))) {
+    return `types must be a non-empty list of: ${BACKFILL_TYPES.join(', ')}`;
+  }
+  return { from, to, types: types as SyncDataType[] };
+}
+
+/** The oldest activity a backfill has handled so far. */
+export interface ActivityCursor {
+  startTime: string;
+  activityId: number;
+}
+
+/** The fields of an activity list entry the cursor needs. */
+export interface ListedActivity {
+  activityId: number;
+  startTimeLocal: string;
+}
+
+export interface DayChunk {
+  from: string;
+  to: string;
+}
+
+/**
+ * A backfill_jobs row. The row doubles as the cursor of an interrupted job.
+ * `status` is running, success, partial (some items failed) or interrupted
+ * (the run stopped; it resumes on the next start or the same request).
+ */
+export interface BackfillJob {
+  id: number;
+  profileId: number;
+  fromDay: string;
+  toDay: string;
+  types: string;
+  status: string;
+  /** Last day of the last completed chunk */
+  cursorDay: string | null;
+  /** See ActivityWalk */
+  activityStart: number;
+  /** startTimeLocal and id of the oldest activity handled so far */
+  activityCursorTime: string | null;
+  activityCursorId: number | null;
+  activitiesComplete: number;
+  activitiesDone: number;
+  daysDone: number;
+  daysTotal: number;
+  /** sync_log row of the current or last run; its sync_errors hold the items that run skipped */
+  logId: number | null;
+  /** Items the run in `logId` could not fetch */
+  failedItems: number;
+  startedAt: string;
+  updatedAt: string;
+  endedAt: string | null;
+  error: string | null;
+}
+
+/** The job as reported under `backfill` in GET /sync/status. */
+export function backfillProgress(job: BackfillJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    from: job.fromDay,
+    to: job.toDay,
+    types: JSON.parse(job.types) as string[],
+    days: { done: job.daysDone, total: job.daysTotal, cursor: job.cursorDay },
+    activities: { done: job.activitiesDone, complete: job.activitiesComplete === 1 },
+    failedItems: job.failedItems,
+    logId: job.logId,
+    startedAt: job.startedAt,
+    updatedAt: job.updatedAt,
+    endedAt: job.endedAt,
+    error: job.error,
+  };
+}
+
+export function activityWalk(job: BackfillJob): ActivityWalk {
+  return {
+    start: job.activityStart,
+    cursor: job.activityCursorTime !== null && job.activityCursorId !== null
+      ? { startTime: job.activityCursorTime, activityId: job.activityCursorId }
+      : null,
+    done: job.activitiesDone,
+    complete: job.activitiesComplete === 1,
+  };
+}
+
+/**
+ * Whether an activity sorts after the cursor in Garmin's newest-first list,
+ * i.e. has not been handled yet. Start times tie-break on the activity id.
+ */
+export function isPastCursor(activity: ListedActivity, cursor: ActivityCursor | null): boolean {
+  if (!cursor) return true;
+  return activity.startTimeLocal < cursor.startTime ||
+    (activity.startTimeLocal === cursor.startTime && activity.activityId < cursor.activityId);
+}
+
+/** Where the activity part of a backfill stands; saved after every page. */
+export interface ActivityWalk {
+  /** Offset into the list after the last page. Only a hint: the list shifts as activities are added or deleted */
+  start: number;
+  cursor: ActivityCursor | null;
+  done: number;
+  complete: boolean;
+}
+
+export interface ActivityPagePlan<T extends ListedActivity> {
+  /** Activities not handled yet that started within the range */
+  store: T[];
+  cursor: ActivityCursor | null;
+  /** The list ran out or went past the start of the range */
+  reachedEnd: boolean;
+}
+
+/**
+ * Picks what to store from one page of the newest-first activity list.
+ * Entries at or before the cursor were handled by an earlier run and are
+ * neither stored nor counted again.
+ */
+export function planActivityPage<T extends ListedActivity>(
+  page: T[],
+  cursor: ActivityCursor | null,
+  range: DayChunk,
+  pageSize: number,
+): ActivityPagePlan<T> {
+  const fresh = page.filter(activity => isPastCursor(activity, cursor));
+  const oldest = fresh[fresh.length - 1];
+  return {
+    store: fresh.filter(activity => {
+      const day = activity.startTimeLocal.slice(0, 10);
+      return day >= range.from && day <= range.to;
+    }),
+    cursor: oldest ? { startTime: oldest.startTimeLocal, activityId: oldest.activityId } : cursor,
+    reachedEnd: page.length < pageSize || page[page.length - 1]!.startTimeLocal.slice(0, 10) < range.from,
+  };
+}
+
+/**
+ * Pages through the activity list from `walk`, storing the activities inside
+ * the range and saving the walk after every page. With a cursor, each page
+ * starts one entry early so the last handled activity shows up first; if the
+ * page starts past it instead, activities were deleted since the offset was
+ * saved and the walk steps back a page rather than skip any.
+ */
+export async function walkActivities<T extends ListedActivity>(
+  walk: ActivityWalk,
+  range: DayChunk,
+  pageSize: number,
+  fetchPage: (limit: number, start: number) => Promise<T[]>,
+  store: (activity: T) => Promise<void>,
+  save: (walk: ActivityWalk) => void,
+): Promise<void> {
+  let { start, cursor, done } = walk;
+  while (true) {
+    const offset = cursor && start > 0 ? start - 1 : start;
+    const page = await fetchPage(pageSize, offset);
+    if (cursor && offset > 0 && (page.length === 0 || isPastCursor(page[0]!, cursor))) {
+      start = Math.max(0, start - pageSize);
+      continue;
+    }
+    const plan = planActivityPage(page, cursor, range, pageSize);
+    for (const activity of plan.store) {
+      await store(activity);
+      done++;
+    }
+    start = offset + page.length;
+    cursor = plan.cursor;
+    save({ start, cursor, done, complete: plan.reachedEnd });
+    if (plan.reachedEnd) return;
+  }
+}
+
+function addDays(day: string, delta: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + delta);
+  return date.toISOString().slice(0, 10);
+}
+
+/** The next chunk of days after `cursorDay`, the last day already done; null when the range is done. */
+export function nextDayChunk(range: DayChunk, cursorDay: string | null, chunkDays: number): DayChunk | null {
+  const from = cursorDay ? addDays(cursorDay, 1) : range.from;
+  if (from > range.to) return null;
+  const to = addDays(from, chunkDays - 1);
+  return { from, to: to > range.to ? range.to : to };
+}
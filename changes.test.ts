@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'bun:test';
+import { diffRows, etagFor, etagMatches, hashRow, parseCursor, planReplacement } from './changes';
+
+describe('hashRow', () => {
+  it('should ignore key order', () => {
+    expect(hashRow({ a: 1, b: 'x' })).toBe(hashRow({ b: 'x', a: 1 }));
+  });
+
+  it('should change when a value changes', () => {
+    expect(hashRow({ steps: 100 })).not.toBe(hashRow({ steps: 101 }));
+  });
+
+  it('should treat null columns as missing', () => {
+    expect(hashRow({ day: '2026-10-01', steps: 100, sleepScore: null })).toBe(hashRow({ day: '2026-10-01', steps: 100 }));
+  });
+
+  it('should distinguish a number from its string form', () => {
+    expect(hashRow({ steps: 100 })).not.toBe(hashRow({ steps: '100' }));
+  });
+});
+
+describe('diffRows', () => {
+  it('should report every non-null field of an insert', () => {
+    expect(diffRows(null, { day: '2026-10-01', steps: 100, sleepScore: null })).toEqual({
+      day: { old: null, new: '2026-10-01' },
+      steps: { old: null, new: 100 },
+    });
+  });
+
+  it('should report only changed fields of an update', () => {
+    const before = { day: '2026-10-01', steps: 100, sleepScore: 80 };
+    const after = { day: '2026-10-01', steps: 120, sleepScore: 80 };
+    expect(diffRows(before, after)).toEqual({ steps: { old: 100, new: 120 } });
+  });
+
+  it('should return an empty diff for identical rows', () => {
+    expect(diffRows({ a: 1 }, { a: 1 })).toEqual({});
+  });
+});
+
+describe('planReplacement', () => {
+  const byTimestamp = (row: Record<string, unknown>) => String(row.timestamp);
+
+  it('should plan inserts, updates and deletes by key', () => {
+    const current = [{ timestamp: 1, bpm: 60 }, { timestamp: 2, bpm: 62 }, { timestamp: 3, bpm: 64 }];
+    const next = [{ timestamp: 2, bpm: 62 }, { timestamp: 3, bpm: 66 }, { timestamp: 4, bpm: 70 }];
+    expect(planReplacement(current, next, byTimestamp)).toEqual([
+      { key: '3', op: 'update', fields: { bpm: { old: 64, new: 66 } } },
+      { key: '4', op: 'insert', fields: { timestamp: { old: null, new: 4 }, bpm: { old: null, new: 70 } } },
+      { key: '1', op: 'delete', fields: { timestamp: { old: 1, new: null }, bpm: { old: 60, new: null } } },
+    ]);
+  });
+
+  it('should compare only the columns the new rows set', () => {
+    const current = [{ id: 7, timestamp: 1, weightKg: 80, createdAt: '2026-10-01T08:00:00Z' }];
+    expect(planReplacement(current, [{ timestamp: 1, weightKg: 80 }], byTimestamp)).toEqual([]);
+  });
+
+  it('should let the last of several new rows with one key win', () => {
+    expect(planReplacement([{ timestamp: 1, bpm: 60 }], [{ timestamp: 1, bpm: 61 }, { timestamp: 1, bpm: 60 }], byTimestamp)).toEqual([]);
+  });
+
+  it('should plan nothing for two empty sets', () => {
+    expect(planReplacement([], [], byTimestamp)).toEqual([]);
+  });
+});
+
+describe('parseCursor', () => {
+  it('should start from the beginning without a cursor', () => {
+    expect(parseCursor(null)).toBe(0);
+    expect(parseCursor('')).toBe(0);
+  });
+
+  it('should parse a numeric cursor', () => {
+    expect(parseCursor('412')).toBe(412);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(parseCursor('-1')).toBeNull();
+    expect(parseCursor('abc')).toBeNull();
+  });
+});
+
+describe('etagMatches', () => {
+  const etag = etagFor('{"items":[]}');
+
+  it('should be stable for the same body', () => {
+    expect(etagFor('{"items":[]}')).toBe(etag);
+    expect(etagFor('{"items":[1]}')).not.toBe(etag);
+  });
+
+  it('should match exact, weak, listed and wildcard tags', () => {
+    expect(etagMatches(etag, etag)).toBe(true);
+    expect(etagMatches(`W/${etag}`, etag)).toBe(true);
+    expect(etagMatches(`"other", ${etag}`, etag)).toBe(true);
+    expect(etagMatches('*', etag)).toBe(true);
+  });
+
+  it('should not match a missing or different tag', () => {
+    expect(etagMatches(undefined, etag)).toBe(false);
+    expect(etagMatches('"other"', etag)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Row change tracking for synced tables
+ * Content hashes to skip no-op writes and field-level diffs for the changelog
+ */
+
+import { createHash } from 'node:crypto';
+
+export type RowValue = string | number | null;
+export type RowValues = Record<string, RowValue>;
+export type FieldChange = { old: RowValue; new: RowValue };
+export type PlannedChange = { key: string; op: 'insert' | 'update' | 'delete'; fields: Record<string, FieldChange> };
+
+/**
+ * Hash of a normalized row. Key order does not matter, and a null column
+ * hashes the same as a missing one, so partial writes compare equal to the
+ * full stored row.
+ */
+export function hashRow(row: RowValues): string {
+  const canonical = Object.keys(row).sort().filter(key => row[key] != null).map(key => [key, row[key]]);
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/** Fields whose value differs between two versions of a row. A null `before` is an insert. */
+export function diffRows(before: RowValues | null, after: RowValues): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  for (const key of keys) {
+    const oldValue = before?.[key] ?? null;
+    const newValue = after[key] ?? null;
+    if (oldValue !== newValue) {
+      changes[key] = { old: oldValue, new: newValue };
+    }
+  }
+  return changes;
+}
+
+/**
+ * What replacing the `current` rows of a table with `next` would change, rows
+ * matched by `keyOf`. Of several `next` rows with one key the last wins, as
+ * with INSERT OR REPLACE. Updates compare only the columns a `next` row sets,
+ * so columns the writer leaves alone (ids, timestamps) never show up as changes.
+ */
+export function planReplacement(current: RowValues[], next: RowValues[], keyOf: (row: RowValues) => string): PlannedChange[] {
+  const stored = new Map(current.map(row => [keyOf(row), row]));
+  const changes: PlannedChange[] = [];
+  for (const [key, row] of new Map(next.map(row => [keyOf(row), row]))) {
+    const before = stored.get(key);
+    if (!before) {
+      changes.push({ key, op: 'insert', fields: diffRows(null, row) });
+      continue;
+    }
+    stored.delete(key);
+    const fields = diffRows(Object.fromEntries(Object.keys(row).map(name => [name, before[name] ?? null])), row);
+    if (Object.keys(fields).length > 0) changes.push({ key, op: 'update', fields });
+  }
+  for (const [key, before] of stored) {
+    changes.push({ key, op: 'delete', fields: diffRows(before, {}) });
+  }
+  return changes;
+}
+
+/** Parses a `since` cursor: a missing cursor starts from the beginning, anything malformed is null. */
+export function parseCursor(value: string | null): number | null {
+  if (value === null || value === '') return 0;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/** Strong ETag for a response body. */
+export function etagFor(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/** Whether an If-None-Match header (possibly a list or `*`) matches the current ETag. */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const candidate = tag.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
@@ -5,17 +5,40 @@
  */
 
 import { exec } from 'node:child_process';
+import { writeFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline/promises';
+import { Writable } from 'node:stream';
 import { promisify } from 'node:util';
 
 const execAsync = promisify(exec);
 const API_URL = process.env.GARMIN_SYNC_URL || 'http://127.0.0.1:17890';
 
+// Taken out of argv up front so `--profile 2 sync` and `sync --profile 2` both work
+const profileIndex = process.argv.indexOf('--profile');
+const profileFlag = profileIndex > 1 ? process.argv.splice(profileIndex, 2).slice(1) : [];
+if (profileIndex > 1 && (profileFlag.length === 0 || profileFlag[0]!.startsWith('--'))) {
+  // Falling back to the default profile here could sync someone else's account
+  console.error('Usage: bun cli.ts --profile <id> <command>');
+  process.exit(1);
+}
+const PROFILE = profileFlag[0] ?? process.env.GARMIN_SYNC_PROFILE;
+const PROFILE_HEADERS: Record<string, string> = PROFILE ? { 'x-garmin-profile': PROFILE } : {};
+
 const command = process.argv[2];
 
+function getFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > 0 ? process.argv[index + 1] : undefined;
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
 async function fetchApi(path: string, method = 'GET', body?: unknown) {
   const options: RequestInit = {
     method,
-    headers: { 'content-type': 'application/json' },
+    headers: { 'content-type': 'application/json', ...PROFILE_HEADERS },
   };
   if (body) options.body = JSON.stringify(body);
 
@@ -27,8 +50,41 @@ async function fetchApi(path: string, method = 'GET', body?: unknown) {
   return res.json();
 }
 
-type HealthResponse = { db: string; garminConfigured: boolean; garminAuthenticated: boolean };
-type SyncStatusResponse = { recent: Array<{ startedAt: string; status: string; details?: string }> };
+type HealthResponse = {
+  db: string;
+  profile: { id: number; name: string };
+  garminConfigured: boolean;
+  garminAuthenticated: boolean;
+  auth: { accessTokenExpiresAt: string | null; refreshTokenExpiresAt: string | null; accessTokenExpired: boolean; mfaRequired: boolean };
+  sync: { isSyncing: boolean; currentJob: { trigger: string; startedAt: string | null } | null };
+};
+type BackfillProgress = {
+  id: number;
+  status: string;
+  from: string;
+  to: string;
+  types: string[];
+  days: { done: number; total: number; cursor: string | null };
+  activities: { done: number; complete: boolean };
+  failedItems: number;
+  logId: number | null;
+  error: string | null;
+};
+type SyncStatusResponse = {
+  recent: Array<{ id: number; startedAt: string; status: string; details?: string }>;
+  backfill: BackfillProgress | null;
+};
+
+function printBackfill(job: BackfillProgress) {
+  console.log(`  Backfill #${job.id} (${job.from} → ${job.to}): ${job.status}`);
+  console.log(`    Types: ${job.types.join(', ')}`);
+  if (job.days.total > 0) console.log(`    Days: ${job.days.done}/${job.days.total}`);
+  if (job.types.includes('activities')) {
+    console.log(`    Activities: ${job.activities.done}${job.activities.complete ? ' (complete)' : ''}`);
+  }
+  if (job.failedItems > 0) console.log(`    Failed items: ${job.failedItems} (retry with: bun cli.ts retry ${job.logId})`);
+  if (job.error) console.log(`    Error: ${job.error}`);
+}
 
 async function status() {
   try {
@@ -37,17 +93,33 @@ async function status() {
 
     console.log('\n📊 Garmin Health Sync Status\n');
     console.log(`  Database: ${health.db}`);
+    console.log(`  Profile: ${health.profile.name} (${health.profile.id})`);
     console.log(`  Garmin Configured: ${health.garminConfigured ? '✅' : '❌'}`);
     console.log(`  Garmin Authenticated: ${health.garminAuthenticated ? '✅' : '❌'}`);
+    if (health.auth.mfaRequired) {
+      const flag = PROFILE ? ` --profile ${PROFILE}` : '';
+      console.log(`  Login: ⚠️  waiting for a verification code, run: bun cli.ts${flag} login`);
+    }
+    if (health.auth.accessTokenExpiresAt) {
+      const refresh = health.auth.accessTokenExpired ? ' (expired, refreshed on next request)' : '';
+      console.log(`  Access Token Expires: ${new Date(health.auth.accessTokenExpiresAt).toLocaleString()}${refresh}`);
+    }
+    if (health.sync.currentJob) {
+      console.log(`  Syncing now: ⏳ ${health.sync.currentJob.trigger} sync since ${health.sync.currentJob.startedAt}`);
+    }
 
     if (syncStatus.recent?.length > 0) {
       console.log('\n  Recent Syncs:');
       for (const sync of syncStatus.recent.slice(0, 5)) {
-        const icon = sync.status === 'success' ? '✅' : sync.status === 'error' ? '❌' : '⏳';
-        console.log(`    ${icon} ${sync.startedAt} - ${sync.status}`);
+        const icon = sync.status === 'success' ? '✅' : sync.status === 'error' || sync.status === 'mfa_required' ? '❌' : sync.status === 'partial' ? '⚠️' : '⏳';
+        console.log(`    ${icon} #${sync.id} ${sync.startedAt} - ${sync.status}`);
         if (sync.details) console.log(`       ${sync.details}`);
       }
     }
+    if (syncStatus.backfill) {
+      console.log('');
+      printBackfill(syncStatus.backfill);
+    }
     console.log('');
   } catch (err) {
     console.error('❌ Cannot connect to sync service:', err instanceof Error ? err.message : String(err));
@@ -55,18 +127,243 @@ async function status() {
   }
 }
 
-type SyncResponse = { ok: boolean; synced: { activities: number; days: number }; logId: number };
+type LoginResponse = { mfaRequired: boolean; challengeId?: string; auth?: HealthResponse['auth']; credentialsSaved?: boolean };
+type ApiErrorBody = { error: string; message?: string; retry?: boolean };
+
+const MFA_ATTEMPTS = 3;
+
+/** POSTs without throwing on error statuses, so the caller can react to the error code. */
+async function postApi<T>(path: string, body: unknown): Promise<{ ok: true; body: T } | { ok: false; body: ApiErrorBody }> {
+  const res = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...PROFILE_HEADERS },
+    body: JSON.stringify(body),
+  });
+  return res.ok ? { ok: true, body: await res.json() as T } : { ok: false, body: await res.json() as ApiErrorBody };
+}
+
+async function login() {
+  // Typed characters are echoed through this stream, so muting it hides the password
+  let muted = false;
+  const output = new Writable({
+    write(chunk, _encoding, done) {
+      if (!muted) process.stdout.write(chunk);
+      done();
+    },
+  });
+  const rl = createInterface({ input: process.stdin, output, terminal: process.stdin.isTTY });
+  const askHidden = async (question: string) => {
+    process.stdout.write(question);
+    muted = true;
+    try {
+      return await rl.question('');
+    } finally {
+      muted = false;
+      process.stdout.write('\n');
+    }
+  };
+
+  try {
+    const username = getFlag('username');
+    const password = username ? await askHidden('Garmin password: ') : undefined;
+    console.log('🔐 Logging in to Garmin Connect...');
+    const result = await postApi<LoginResponse>('/auth/login', { username, password });
+    if (!result.ok) throw new Error(result.body.message ?? result.body.error);
+    if (result.body.credentialsSaved) console.log('🔑 Password saved to the credential store');
+    if (!result.body.mfaRequired) {
+      console.log('✅ Logged in\n');
+      return;
+    }
+
+    console.log('📨 Garmin sent a verification code to your email or phone.');
+    for (let attempt = 1; attempt <= MFA_ATTEMPTS; attempt++) {
+      const code = (await rl.question('Verification code: ')).trim();
+      const mfa = await postApi<LoginResponse>('/auth/mfa', { challengeId: result.body.challengeId, code });
+      if (mfa.ok) {
+        console.log('✅ Logged in\n');
+        return;
+      }
+      const canRetry = mfa.body.error === 'invalid_mfa_request' || (mfa.body.error === 'invalid_mfa_code' && mfa.body.retry);
+      if (!canRetry || attempt === MFA_ATTEMPTS) throw new Error(mfa.body.message ?? mfa.body.error);
+      console.log(`   ❌ ${mfa.body.message ?? mfa.body.error}, try again`);
+    }
+  } catch (err) {
+    console.error('❌ Login failed:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  } finally {
+    rl.close();
+  }
+}
+
+type SyncCounts = Record<string, number>;
+type WriteCounts = { inserted: number; updated: number; unchanged: number };
+type FieldChange = { old: unknown; new: unknown };
+type PlannedChange = { key: string; op: 'insert' | 'update' | 'delete'; fields: Record<string, FieldChange> };
+type SyncResponse = {
+  ok: boolean;
+  synced: {
+    written: Record<string, WriteCounts>;
+    fetched: SyncCounts;
+    skipped: SyncCounts;
+    dryRun?: boolean;
+    changes?: Record<string, PlannedChange[]>;
+  };
+  scope: string;
+  logId: number;
+};
+
+function formatCounts(counts: SyncCounts): string {
+  return Object.entries(counts).map(([type, n]) => `${type} ${n}`).join(', ');
+}
+
+function formatWrites(counts: WriteCounts): string {
+  return `${counts.inserted} new, ${counts.updated} updated, ${counts.unchanged} unchanged`;
+}
+
+// Sample and FIT tables plan hundreds of rows per day or activity
+const PLANNED_ROWS_SHOWN = 20;
+const PLAN_MARKS = { insert: '+', update: '~', delete: '-' };
+
+function printPlannedChanges(changes: Record<string, PlannedChange[]>) {
+  for (const [table, rows] of Object.entries(changes)) {
+    if (rows.length === 0) continue;
+    const counts = (['insert', 'update', 'delete'] as const)
+      .map(op => [PLAN_MARKS[op], rows.filter(row => row.op === op).length] as const)
+      .filter(([, n]) => n > 0)
+      .map(([mark, n]) => `${mark}${n}`);
+    console.log(`\n   ${table} (${counts.join(' ')}):`);
+    for (const row of rows.slice(0, PLANNED_ROWS_SHOWN)) {
+      console.log(`   ${PLAN_MARKS[row.op]} ${row.key}`);
+      if (row.op === 'update') {
+        for (const [field, change] of Object.entries(row.fields)) {
+          console.log(`       ${field}: ${JSON.stringify(change.old)} → ${JSON.stringify(change.new)}`);
+        }
+      }
+    }
+    if (rows.length > PLANNED_ROWS_SHOWN) console.log(`   … and ${rows.length - PLANNED_ROWS_SHOWN} more`);
+  }
+}
+
+type SyncEvent = { event: string; data: Record<string, unknown> };
+
+/** Reads GET /sync/events and hands each parsed event to `onEvent` until aborted. */
+async function streamSyncEvents(onEvent: (event: SyncEvent) => void, signal: AbortSignal) {
+  const res = await fetch(`${API_URL}/sync/events`, { signal, headers: { accept: 'text/event-stream', ...PROFILE_HEADERS } });
+  if (!res.ok || !res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (event && data) onEvent({ event, data: JSON.parse(data) });
+    }
+  }
+}
+
+function renderSyncEvent({ event, data }: SyncEvent) {
+  const interactive = process.stdout.isTTY;
+  if (event === 'progress') {
+    const total = data.total !== undefined ? `/${data.total}` : '';
+    const item = data.item ? ` (${data.item})` : '';
+    const line = `   ${data.phase}: ${data.done}${total}${item}`;
+    if (interactive) {
+      process.stdout.write(`\r${line.padEnd(60)}`);
+    } else if (data.done === data.total) {
+      console.log(line);
+    }
+  } else if (event === 'warning') {
+    if (interactive) process.stdout.write('\n');
+    console.log(`   ⚠️  ${data.item ? `${data.item}: ` : ''}${data.message}`);
+  } else if (event === 'job:queued') {
+    console.log('   Waiting for the running sync to finish...');
+  } else if (event === 'job:start') {
+    console.log(`   Started ${data.trigger} sync`);
+  } else if (event === 'job:end' && interactive) {
+    process.stdout.write('\n');
+  }
+}
 
 async function sync() {
-  console.log('🔄 Triggering sync...\n');
+  const scope = {
+    types: getFlag('types')?.split(','),
+    from: getFlag('from'),
+    to: getFlag('to'),
+    activityIds: getFlag('activity-ids')?.split(','),
+    dryRun: hasFlag('dry-run') || undefined,
+  };
+  console.log(scope.dryRun ? '🔍 Dry run: nothing will be written...\n' : '🔄 Triggering sync...\n');
+  const events = new AbortController();
+  // Progress is best-effort; the sync result below is authoritative
+  streamSyncEvents(renderSyncEvent, events.signal).catch(() => {});
+  try {
+    const result = await fetchApi('/sync', 'POST', scope) as SyncResponse;
+    events.abort();
+    console.log(result.synced.dryRun ? '\n✅ Dry run complete (nothing written)' : '\n✅ Sync complete!');
+    console.log(`   Activities: ${formatWrites(result.synced.written.activities)}`);
+    console.log(`   Days: ${formatWrites(result.synced.written.daily_metrics)}`);
+    console.log(`   Fetched: ${formatCounts(result.synced.fetched)}`);
+    console.log(`   Skipped: ${formatCounts(result.synced.skipped)}`);
+    console.log(`   Scope: ${result.scope}`);
+    console.log(`   Log ID: ${result.logId}`);
+    if (result.synced.changes) printPlannedChanges(result.synced.changes);
+    console.log('');
+  } catch (err) {
+    events.abort();
+    console.error('\n❌ Sync failed:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+type SyncErrorItem = { dataType: string; day: string | null; activityId: string | null; httpStatus: number | null; message: string; resolvedBySyncId: number | null };
+type SyncDetailResponse = { sync: { id: number; status: string }; errors: { total: number; items: SyncErrorItem[] } };
+type RetryResponse = { retried: number; remaining: number; logId: number };
+
+async function retry(syncId: string | undefined) {
+  if (!syncId) {
+    console.error('❌ Usage: bun cli.ts retry <syncId>');
+    process.exit(1);
+  }
+  try {
+    console.log(`🔁 Retrying failed items of sync #${syncId}...\n`);
+    const result = await fetchApi(`/sync/${syncId}/retry`, 'POST') as RetryResponse;
+    console.log(`✅ Retried ${result.retried} items (log ID ${result.logId}), ${result.remaining} still failing`);
+    if (result.remaining > 0) {
+      const detail = await fetchApi(`/sync/${syncId}`) as SyncDetailResponse;
+      for (const item of detail.errors.items.filter(e => e.resolvedBySyncId === null)) {
+        const target = item.activityId ?? item.day ?? 'listing';
+        console.log(`   ❌ ${item.dataType} ${target}: ${item.httpStatus ?? '-'} ${item.message}`);
+      }
+    }
+    console.log('');
+  } catch (err) {
+    console.error('❌ Retry failed:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+async function backfill() {
+  const from = getFlag('from');
+  const to = getFlag('to') || new Date().toISOString().split('T')[0];
+  const types = getFlag('types')?.split(',');
+  if (!from) {
+    console.error('❌ --from YYYY-MM-DD is required');
+    process.exit(1);
+  }
   try {
-    const result = await fetchApi('/sync', 'POST') as SyncResponse;
-    console.log('✅ Sync complete!');
-    console.log(`   Activities: ${result.synced.activities}`);
-    console.log(`   Days: ${result.synced.days}`);
-    console.log(`   Log ID: ${result.logId}\n`);
+    const result = await fetchApi('/sync/backfill', 'POST', { from, to, types }) as { backfill: BackfillProgress };
+    console.log('\n⏳ Backfill started\n');
+    printBackfill(result.backfill);
+    console.log('\n  Track progress with: bun cli.ts status\n');
   } catch (err) {
-    console.error('❌ Sync failed:', err instanceof Error ? err.message : String(err));
+    console.error('❌ Backfill failed to start:', err instanceof Error ? err.message : String(err));
     process.exit(1);
   }
 }
@@ -99,6 +396,91 @@ async function activities(limit = 10) {
 type DailyMetric = { day: string; steps?: number; restingHeartRate?: number; bodyBattery?: number; sleepSeconds?: number };
 type DailyResponse = { items: DailyMetric[] };
 
+type ActivityDetail = ActivityItem & { id: string; durationSeconds: number; calories: number; raw: { averageHR?: number; maxHR?: number } };
+type Lap = {
+  lapIndex: number; startOffsetSeconds: number; durationSeconds: number | null; distanceMeters: number | null;
+  averageHR: number | null; maxHR: number | null; avgPaceSecondsPerKm: number | null; averageCadence: number | null;
+  elevationGain: number | null;
+};
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '--';
+  const s = Math.round(seconds);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${rest}` : `${m}:${rest}`;
+}
+
+async function activity(id: string | undefined) {
+  if (!id) {
+    console.error('Usage: bun cli.ts activity <id>');
+    process.exit(1);
+  }
+  try {
+    const act = await fetchApi(`/activities/${id}`) as ActivityDetail;
+    const { items: laps } = await fetchApi(`/activities/${id}/laps`) as { items: Lap[] };
+
+    console.log(`\n🏃 ${act.name} (${act.type})\n`);
+    console.log(`  Start:    ${new Date(act.startTime).toLocaleString()}`);
+    console.log(`  Distance: ${(act.distanceMeters / 1000).toFixed(2)}km`);
+    console.log(`  Duration: ${formatDuration(act.durationSeconds)}`);
+    console.log(`  HR:       ${act.raw.averageHR ?? '--'} avg / ${act.raw.maxHR ?? '--'} max`);
+
+    if (laps.length > 0) {
+      console.log('\n  Lap | Start   | Time    | Dist    | Pace/km | HR      | Cad | Elev');
+      console.log('  ' + '-'.repeat(68));
+      for (const lap of laps) {
+        const dist = lap.distanceMeters !== null ? `${(lap.distanceMeters / 1000).toFixed(2)}km` : '--';
+        const hr = `${lap.averageHR ?? '--'}/${lap.maxHR ?? '--'}`;
+        console.log(`  ${String(lap.lapIndex).padStart(3)} | ${formatDuration(lap.startOffsetSeconds).padStart(7)} | ` +
+          `${formatDuration(lap.durationSeconds).padStart(7)} | ${dist.padStart(7)} | ${formatDuration(lap.avgPaceSecondsPerKm).padStart(7)} | ` +
+          `${hr.padEnd(7)} | ${String(lap.averageCadence !== null ? Math.round(lap.averageCadence) : '--').padStart(3)} | ` +
+          `${lap.elevationGain !== null ? `+${Math.round(lap.elevationGain)}m` : '--'}`);
+      }
+    } else {
+      console.log('\n  No laps recorded');
+    }
+    console.log('');
+  } catch (err) {
+    console.error('❌ Failed to fetch activity:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+async function exportActivity(id: string | undefined) {
+  const format = getFlag('format') || 'gpx';
+  if (!id) {
+    console.error('Usage: bun cli.ts export-activity <id> [--format gpx|tcx] [--out file]');
+    process.exit(1);
+  }
+  try {
+    const res = await fetch(`${API_URL}/activities/${id}/export?format=${encodeURIComponent(format)}`, { headers: PROFILE_HEADERS });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+    }
+    const out = getFlag('out') || `activity-${id}.${format}`;
+    await writeFile(out, Buffer.from(await res.arrayBuffer()));
+    console.log(`✅ Exported activity ${id} to ${out}`);
+  } catch (err) {
+    console.error('❌ Export failed:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+async function reparseFit(ids: string[]) {
+  try {
+    const result = await fetchApi('/fit/reparse', 'POST', ids.length > 0 ? { activityIds: ids } : {}) as { parsed: number; failed: string[] };
+    console.log(`✅ Parsed ${result.parsed} FIT files`);
+    if (result.failed.length > 0) {
+      console.log(`⚠️  Failed: ${result.failed.join(', ')} (see parseError in GET /activities/<id>/fit)`);
+    }
+  } catch (err) {
+    console.error('❌ Re-parse failed:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
 async function daily() {
   try {
     const data = await fetchApi('/daily') as DailyResponse;
@@ -123,21 +505,126 @@ async function daily() {
   }
 }
 
+type GearItem = {
+  name: string; type: string | null; status: string | null; distanceKm: number; activityCount: number;
+  retirementKm: number | null; remainingKm: number | null; needsRetirement: boolean;
+};
+
+async function gear() {
+  try {
+    const { items } = await fetchApi('/gear') as { items: GearItem[] };
+    if (items.length === 0) {
+      console.log('\nNo gear synced yet (sync with --types gear)\n');
+      return;
+    }
+    console.log('\n👟 Gear\n');
+    for (const item of items) {
+      const wear = item.retirementKm === null
+        ? ''
+        : item.needsRetirement ? ` | ⚠️  past ${item.retirementKm}km, retire` : ` | ${item.remainingKm}km of ${item.retirementKm}km left`;
+      const status = item.status === 'retired' ? ' (retired)' : '';
+      console.log(`  ${(item.type ?? '--').padEnd(6)} | ${(item.name + status).slice(0, 32).padEnd(32)} | ${item.distanceKm.toFixed(1).padStart(7)}km | ${String(item.activityCount).padStart(4)} activities${wear}`);
+    }
+    console.log('');
+  } catch (err) {
+    console.error('❌ Failed to fetch gear:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+type PersonalRecord = { label: string; unit: string | null; value: number; activityName: string | null; achievedAt: string | null };
+
+function formatRecordValue(record: PersonalRecord): string {
+  switch (record.unit) {
+    case 'seconds': return formatDuration(record.value);
+    case 'meters': return `${(record.value / 1000).toFixed(2)}km`;
+    case 'watts': return `${Math.round(record.value)}W`;
+    case 'days': return `${record.value} days`;
+    default: return String(Math.round(record.value));
+  }
+}
+
+async function records() {
+  try {
+    const { items } = await fetchApi('/records') as { items: PersonalRecord[] };
+    if (items.length === 0) {
+      console.log('\nNo personal records synced yet (sync with --types records)\n');
+      return;
+    }
+    console.log('\n🏆 Personal Records\n');
+    for (const record of items) {
+      const date = record.achievedAt ? new Date(record.achievedAt).toLocaleDateString() : '--';
+      console.log(`  ${record.label.padEnd(26)} | ${formatRecordValue(record).padStart(10)} | ${date.padEnd(10)} | ${record.activityName ?? ''}`);
+    }
+    console.log('');
+  } catch (err) {
+    console.error('❌ Failed to fetch personal records:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+type ProfileSummary = {
+  id: number;
+  name: string;
+  username: string | null;
+  authenticated: boolean;
+  mfaRequired: boolean;
+  autoSync: { enabled: boolean; intervalMs: number } | null;
+};
+
+async function profiles() {
+  try {
+    const { items, defaultProfileId } = await fetchApi('/profiles') as { items: ProfileSummary[]; defaultProfileId: number };
+    console.log('\n👤 Profiles\n');
+    for (const profile of items) {
+      const name = profile.id === defaultProfileId ? `${profile.name} (default)` : profile.name;
+      const login = profile.mfaRequired ? '⚠️  MFA pending' : profile.authenticated ? '✅' : '❌';
+      const schedule = profile.autoSync?.enabled ? `every ${profile.autoSync.intervalMs / 3_600_000}h` : 'manual';
+      console.log(`  ${String(profile.id).padStart(3)} | ${name.padEnd(24)} | ${(profile.username ?? '--').padEnd(28)} | ${login} | ${schedule}`);
+    }
+    console.log('');
+  } catch (err) {
+    console.error('❌ Failed to fetch profiles:', err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
 function help() {
   console.log(`
 Garmin Health Sync CLI
 
-Usage: bun cli.ts <command>
+Usage: bun cli.ts [--profile id] <command>
 
 Commands:
   status       Show sync service status and recent sync history
+  login        Log in to Garmin, prompting for the MFA code if needed
+                 --username email (prompts for the password and saves both to the
+                 service's credential store; default: the service's stored credentials)
   sync         Trigger manual sync with Garmin Connect
+                 --types sleep,hrv (default: all) --from YYYY-MM-DD --to YYYY-MM-DD
+                 --activity-ids 123,456 (re-pull specific activities)
+                 --dry-run (show what would change without writing)
+  retry <id>   Re-fetch only the items that failed in sync <id>
+  backfill     Start a historical backfill
+                 --from YYYY-MM-DD (required) --to YYYY-MM-DD (default: today)
+                 --types activities,summary,hrv,sleep,bodyBattery,stress,heartRate,performance,bodyComposition (default: all)
   activities   List recent activities (default: 10)
+  activity <id>  Show one activity with its laps
+  export-activity <id>  Save an activity as GPX or TCX
+                 --format gpx|tcx (default: gpx) --out file (default: activity-<id>.<format>)
+  reparse-fit [ids...]  Re-decode stored FIT files (default: all)
   daily        Show daily metrics for last 7 days
+  gear         Show gear mileage and retirement status
+  records      Show personal records
+  profiles     List profiles
   help         Show this help message
 
+Options:
+  --profile id  Run the command for this profile (default: GARMIN_SYNC_PROFILE, then the default profile)
+
 Environment:
-  GARMIN_SYNC_URL   API endpoint (default: http://127.0.0.1:17890)
+  GARMIN_SYNC_URL      API endpoint (default: http://127.0.0.1:17890)
+  GARMIN_SYNC_PROFILE  Profile id to use when --profile is not given
 `);
 }
 
@@ -146,15 +633,42 @@ async function main() {
     case 'status':
       await status();
       break;
+    case 'login':
+      await login();
+      break;
     case 'sync':
       await sync();
       break;
+    case 'retry':
+      await retry(process.argv[3]);
+      break;
+    case 'backfill':
+      await backfill();
+      break;
     case 'activities':
       await activities(parseInt(process.argv[3] || '10', 10));
       break;
+    case 'activity':
+      await activity(process.argv[3]);
+      break;
+    case 'export-activity':
+      await exportActivity(process.argv[3]);
+      break;
+    case 'reparse-fit':
+      await reparseFit(process.argv.slice(3));
+      break;
     case 'daily':
       await daily();
       break;
+    case 'gear':
+      await gear();
+      break;
+    case 'records':
+      await records();
+      break;
+    case 'profiles':
+      await profiles();
+      break;
     case 'help':
     default:
       help();
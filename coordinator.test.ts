@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'bun:test';
+import { SyncCoordinator, type SyncJob } from './coordinator';
+
+type Options = { types?: string[] };
+
+function deferred() {
+  let resolve!: () => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+describe('SyncCoordinator', () => {
+  it('should run a submitted job', async () => {
+    const coordinator = new SyncCoordinator<Options, string>({
+      execute: async (job) => `done ${job.trigger}`,
+    });
+
+    const { promise, joined } = coordinator.submit('manual', {});
+    expect(joined).toBe(false);
+    expect(await promise).toBe('done manual');
+  });
+
+  it('should join a running job with the same options', async () => {
+    const gate = deferred();
+    let runs = 0;
+    const coordinator = new SyncCoordinator<Options, number>({
+      execute: async () => { runs++; await gate.promise; return runs; },
+    });
+
+    const scheduled = coordinator.submit('scheduled', {});
+    const manual = coordinator.submit('manual', {});
+    expect(manual.joined).toBe(true);
+    expect(manual.job.id).toBe(scheduled.job.id);
+
+    gate.resolve();
+    expect(await manual.promise).toBe(1);
+    expect(runs).toBe(1);
+  });
+
+  it('should queue a job with different options behind the running one', async () => {
+    const gate = deferred();
+    const order: string[] = [];
+    const coordinator = new SyncCoordinator<Options, void>({
+      execute: async (job) => {
+        order.push(`start ${job.options.types?.join(',') ?? 'all'}`);
+        if (!job.options.types) await gate.promise;
+        order.push(`end ${job.options.types?.join(',') ?? 'all'}`);
+      },
+    });
+
+    const first = coordinator.submit('scheduled', {});
+    const second = coordinator.submit('manual', { types: ['sleep'] });
+    expect(second.joined).toBe(false);
+    expect(coordinator.getStatus().queued).toHaveLength(1);
+
+    gate.resolve();
+    await Promise.all([first.promise, second.promise]);
+    expect(order).toEqual(['start all', 'end all', 'start sleep', 'end sleep']);
+  });
+
+  it('should report the current job while syncing', async () => {
+    const gate = deferred();
+    const coordinator = new SyncCoordinator<Options, void>({
+      execute: async (job: SyncJob<Options>) => { job.logId = 42; await gate.promise; },
+    });
+
+    expect(coordinator.getStatus().isSyncing).toBe(false);
+    const { promise } = coordinator.submit('manual', {});
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const status = coordinator.getStatus();
+    expect(status.isSyncing).toBe(true);
+    expect(status.currentJob?.trigger).toBe('manual');
+    expect(status.currentJob?.logId).toBe(42);
+
+    gate.resolve();
+    await promise;
+    expect(coordinator.getStatus().isSyncing).toBe(false);
+  });
+
+  it('should release the slot after a failed job', async () => {
+    let calls = 0;
+    const coordinator = new SyncCoordinator<Options, number>({
+      execute: async () => {
+        calls++;
+        if (calls === 1) throw new Error('boom');
+        return calls;
+      },
+    });
+
+    await expect(coordinator.submit('manual', {}).promise).rejects.toThrow('boom');
+    expect(await coordinator.submit('manual', {}).promise).toBe(2);
+  });
+
+  it('should emit job lifecycle events', async () => {
+    const events: string[] = [];
+    const coordinator = new SyncCoordinator<Options, void>({ execute: async () => {} });
+    coordinator.on('job:start', () => events.push('start'));
+    coordinator.on('job:end', ({ ok }) => events.push(ok ? 'end ok' : 'end error'));
+
+    await coordinator.submit('manual', {}).promise;
+    expect(events).toEqual(['start', 'end ok']);
+  });
+
+  it('should forward progress and warnings reported by the job', async () => {
+    const seen: string[] = [];
+    const coordinator = new SyncCoordinator<Options, void>({
+      execute: async (_job, report) => {
+        report({ type: 'progress', phase: 'days', done: 1, total: 3, item: '2026-10-01' });
+        report({ type: 'warning', phase: 'days', item: '2026-10-02', message: 'retrying' });
+      },
+    });
+    coordinator.on('job:progress', ({ phase, done, total }) => seen.push(`${phase} ${done}/${total}`));
+    coordinator.on('job:warning', ({ item, message }) => seen.push(`${item} ${message}`));
+
+    await coordinator.submit('manual', {}).promise;
+    expect(seen).toEqual(['days 1/3', '2026-10-02 retrying']);
+  });
+});
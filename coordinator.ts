@@ -0,0 +1,128 @@
+/**
+ * Single-flight sync coordinator for Garmin Health Sync
+ * Owns the running sync job so manual and scheduled syncs never overlap
+ */
+
+import { EventEmitter } from 'node:events';
+
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export interface SyncJob<TOptions> {
+  id: number;
+  trigger: SyncTrigger;
+  options: TOptions;
+  queuedAt: Date;
+  startedAt: Date | null;
+  logId: number | null;
+}
+
+export type SyncProgress =
+  | { type: 'progress'; phase: string; done: number; total?: number; item?: string }
+  | { type: 'warning'; phase: string; item?: string; message: string };
+
+export type ProgressReporter = (event: SyncProgress) => void;
+
+export interface SyncSubmission<TOptions, TResult> {
+  job: SyncJob<TOptions>;
+  /** True when the request was folded into a job that was already running or queued. */
+  joined: boolean;
+  promise: Promise<TResult>;
+}
+
+export interface CoordinatorOptions<TOptions, TResult> {
+  execute: (job: SyncJob<TOptions>, report: ProgressReporter) => Promise<TResult>;
+}
+
+interface Entry<TOptions, TResult> {
+  job: SyncJob<TOptions>;
+  key: string;
+  promise: Promise<TResult>;
+  start: () => void;
+}
+
+export class SyncCoordinator<TOptions = Record<string, never>, TResult = unknown> extends EventEmitter {
+  private execute: (job: SyncJob<TOptions>, report: ProgressReporter) => Promise<TResult>;
+  private current: Entry<TOptions, TResult> | null = null;
+  private queue: Entry<TOptions, TResult>[] = [];
+  private nextId = 1;
+
+  constructor(options: CoordinatorOptions<TOptions, TResult>) {
+    super();
+    this.execute = options.execute;
+  }
+
+  /**
+   * Submits a sync. A request with the same options as the running or a
+   * queued job joins it; anything else is queued behind the running job.
+   */
+  submit(trigger: SyncTrigger, options: TOptions): SyncSubmission<TOptions, TResult> {
+    const key = JSON.stringify(options ?? {});
+    const existing = [this.current, ...this.queue].find(entry => entry?.key === key);
+    if (existing) {
+      this.emit('job:joined', { job: existing.job, trigger });
+      return { job: existing.job, joined: true, promise: existing.promise };
+    }
+
+    const job: SyncJob<TOptions> = {
+      id: this.nextId++,
+      trigger,
+      options,
+      queuedAt: new Date(),
+      startedAt: null,
+      logId: null,
+    };
+    let start!: () => void;
+    const started = new Promise<void>(resolve => { start = resolve; });
+    const promise = started.then(() => this.runJob(job));
+    // Failures are reported to whoever awaits the promise; keep the chain itself quiet
+    promise.catch(() => {});
+    const entry: Entry<TOptions, TResult> = { job, key, promise, start };
+
+    if (this.current) {
+      this.queue.push(entry);
+      this.emit('job:queued', { job });
+    } else {
+      this.begin(entry);
+    }
+    return { job, joined: false, promise };
+  }
+
+  getStatus(): {
+    isSyncing: boolean;
+    currentJob: SyncJob<TOptions> | null;
+    queued: SyncJob<TOptions>[];
+  } {
+    return {
+      isSyncing: this.current !== null,
+      currentJob: this.current?.job ?? null,
+      queued: this.queue.map(entry => entry.job),
+    };
+  }
+
+  private begin(entry: Entry<TOptions, TResult>): void {
+    this.current = entry;
+    entry.promise.finally(() => {
+      this.current = null;
+      const next = this.queue.shift();
+      if (next) this.begin(next);
+    }).catch(() => {});
+    entry.start();
+  }
+
+  private async runJob(job: SyncJob<TOptions>): Promise<TResult> {
+    job.startedAt = new Date();
+    this.emit('job:start', { job });
+    try {
+      const result = await this.execute(job, (event) => {
+        const { type, ...data } = event;
+        this.emit(type === 'warning' ? 'job:warning' : 'job:progress', { job, ...data });
+      });
+      this.emit('job:end', { job, ok: true, result });
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit('job:end', { job, ok: false, error: err.message });
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test';
+import { KEYCHAIN_SERVICE, databaseStore, envStore, keychainStore, type RunCommand } from './credentials';
+import { SecretBox, keyFromBytes } from './secrets';
+
+describe('envStore', () => {
+  it('should return the env password and be read-only', () => {
+    expect(envStore('pw').getPassword('me@example.com')).toBe('pw');
+    expect(envStore('').getPassword('me@example.com')).toBeNull();
+    expect(envStore('pw').setPassword).toBeUndefined();
+    expect(envStore('pw').deletePassword).toBeUndefined();
+  });
+});
+
+describe('keychainStore', () => {
+  it('should look the password up once per account', () => {
+    const calls: string[][] = [];
+    const run: RunCommand = (file, args) => { calls.push([file, ...args]); return 'hunter2\n'; };
+    const store = keychainStore(run);
+    expect(store.getPassword('me@example.com')).toBe('hunter2');
+    expect(store.getPassword('me@example.com')).toBe('hunter2');
+    expect(calls).toEqual([['security', 'find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', 'me@example.com', '-w']]);
+  });
+
+  it('should treat a missing item as no password', () => {
+    const store = keychainStore(() => { throw new Error('The specified item could not be found in the keychain.'); });
+    expect(store.getPassword('me@example.com')).toBeNull();
+  });
+
+  it('should save through stdin, not the argument list', () => {
+    const calls: Array<{ args: string[]; input?: string }> = [];
+    const store = keychainStore((_file, args, input) => { calls.push({ args, input }); return ''; });
+    store.setPassword!('me@example.com', 'pa"ss\\word');
+    expect(calls[0]!.args).toEqual(['-i']);
+    expect(calls[0]!.input).toBe(`add-generic-password -U -s "${KEYCHAIN_SERVICE}" -a "me@example.com" -w "pa\\"ss\\\\word"\n`);
+    expect(store.getPassword('me@example.com')).toBe('pa"ss\\word');
+  });
+
+  it('should refuse values that could inject another security command', () => {
+    const calls: string[][] = [];
+    const store = keychainStore((_file, args) => { calls.push(args); return ''; });
+    expect(() => store.setPassword!('me@example.com', 'x"\ndelete-keychain login.keychain\n"')).toThrow('control characters');
+    expect(() => store.setPassword!('me@example.com\r', 'secret')).toThrow('control characters');
+    expect(calls).toEqual([]);
+  });
+
+  it('should delete the item and forget the cached password', () => {
+    const calls: string[][] = [];
+    const store = keychainStore((file, args) => {
+      calls.push([file, ...args]);
+      if (args[0] === 'delete-generic-password') throw new Error('The specified item could not be found in the keychain.');
+      return 'hunter2\n';
+    });
+    expect(store.getPassword('me@example.com')).toBe('hunter2');
+    store.deletePassword!('me@example.com');
+    expect(calls[1]).toEqual(['security', 'delete-generic-password', '-s', KEYCHAIN_SERVICE, '-a', 'me@example.com']);
+    expect(store.getPassword('me@example.com')).toBeNull();
+  });
+});
+
+describe('databaseStore', () => {
+  const values = () => {
+    const map = new Map<string, string>();
+    return {
+      map,
+      get: (key: string) => map.get(key) ?? null,
+      set: (key: string, value: string) => { map.set(key, value); },
+      delete: (key: string) => { map.delete(key); },
+    };
+  };
+
+  it('should keep passwords per username', () => {
+    const kv = values();
+    const store = databaseStore(new SecretBox(keyFromBytes(Buffer.alloc(32, 1))), kv);
+    store.setPassword!('me@example.com', 'pw');
+    expect(kv.map.get('garmin_password:me@example.com')).toBe('pw');
+    expect(store.getPassword('me@example.com')).toBe('pw');
+    expect(store.getPassword('other@example.com')).toBeNull();
+    store.deletePassword!('me@example.com');
+    expect(kv.map.size).toBe(0);
+  });
+
+  it('should refuse to store a password without an encryption key', () => {
+    const store = databaseStore(new SecretBox(null), values());
+    expect(() => store.setPassword!('me@example.com', 'pw')).toThrow('GARMIN_KEY_FILE');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Credential stores for Garmin Health Sync
+ * Where the Garmin password comes from: the environment, the macOS Keychain or the encrypted database
+ */
+
+import { execFileSync } from 'node:child_process';
+import type { SecretBox } from './secrets.js';
+
+export const CREDENTIAL_STORES = ['env', 'keychain', 'db'] as const;
+export type CredentialStoreKind = (typeof CREDENTIAL_STORES)[number];
+
+export const KEYCHAIN_SERVICE = 'garmin-health-sync';
+
+export interface CredentialStore {
+  readonly kind: CredentialStoreKind;
+  getPassword(username: string): string | null;
+  /** Absent when the store is read-only (env). */
+  setPassword?(username: string, password: string): void;
+  /** Absent when the store is read-only (env); a missing password is not an error. */
+  deletePassword?(username: string): void;
+}
+
+/** Runs a command and returns its stdout; throws when it exits non-zero. */
+export type RunCommand = (file: string, args: string[], input?: string) => string;
+
+const runCommand: RunCommand = (file, args, input) =>
+  execFileSync(file, args, { input, encoding: 'utf8', stdio: ['pipe', 'pipe', 'ignore'] });
+
+export function envStore(password: string): CredentialStore {
+  return { kind: 'env', getPassword: () => password || null };
+}
+
+/**
+ * Generic password items in the login Keychain (service `garmin-health-sync`,
+ * account = Garmin username). Lookups are cached for the life of the process.
+ */
+export function keychainStore(run: RunCommand = runCommand): CredentialStore {
+  const cache = new Map<string, string | null>();
+  return {
+    kind: 'keychain',
+    getPassword(username) {
+      if (!cache.has(username)) {
+        let password: string | null;
+        try {
+          password = run('security', ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', username, '-w']).replace(/\n$/, '') || null;
+        } catch {
+          password = null;
+        }
+        cache.set(username, password);
+      }
+      return cache.get(username)!;
+    },
+    setPassword(username, password) {
+      // Through `security -i` on stdin so the password never shows up in the process list.
+      // Each line there is a command, so a line break in a value could append another one
+      if (/[\x00-\x1f\x7f]/.test(username + password)) {
+        throw new Error('The Keychain store does not accept control characters in the username or password');
+      }
+      const quote = (value: string) => `"${value.replace(/["\\]/g, c => `\\${c}`)}"`;
+      run('security', ['-i'], `add-generic-password -U -s ${quote(KEYCHAIN_SERVICE)} -a ${quote(username)} -w ${quote(password)}\n`);
+      cache.set(username, password);
+    },
+    deletePassword(username) {
+      try {
+        run('security', ['delete-generic-password', '-s', KEYCHAIN_SERVICE, '-a', username]);
+      } catch {
+        // No item for this account
+      }
+      cache.set(username, null);
+    },
+  };
+}
+
+/** Key-value access to the encrypted part of the database. */
+export interface SecretValues {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  delete(key: string): void;
+}
+
+/** Passwords sealed with the database encryption key; refuses to store anything unencrypted. */
+export function databaseStore(box: SecretBox, values: SecretValues): CredentialStore {
+  return {
+    kind: 'db',
+    getPassword: username => values.get(`garmin_password:${username}`),
+    setPassword(username, password) {
+      if (!box.enabled) throw new Error('The db credential store needs GARMIN_KEY_FILE or GARMIN_PASSPHRASE');
+      values.set(`garmin_password:${username}`, password);
+    },
+    deletePassword: username => values.delete(`garmin_password:${username}`),
+  };
+}
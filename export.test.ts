@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'bun:test';
+import { toGpx, toTcx, type ExportActivity } from './export';
+
+const activity: ExportActivity = {
+  id: '1005',
+  name: 'Morning <Run> & more',
+  type: 'running',
+  start: new Date('2026-10-19T05:00:00Z'),
+  durationSeconds: 3,
+  distanceMeters: 10,
+  calories: 20,
+};
+
+const streams = {
+  time: [0, 1, 2],
+  lat: [52.5, null, 52.50002],
+  lon: [13.4, null, 13.40002],
+  hr: [120, 121, null],
+  cadence: [170, 171, 172],
+};
+
+describe('toGpx', () => {
+  it('should write positioned samples with heart rate and cadence extensions', () => {
+    const gpx = toGpx(activity, streams);
+    expect(gpx).toContain('<name>Morning &lt;Run&gt; &amp; more</name>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+    expect(gpx).toContain('<trkpt lat="52.5" lon="13.4"><time>2026-10-19T05:00:00Z</time><extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>120</gpxtpx:hr><gpxtpx:cad>170</gpxtpx:cad>');
+    expect(gpx).toContain('<time>2026-10-19T05:00:02Z</time><extensions><gpxtpx:TrackPointExtension><gpxtpx:cad>172</gpxtpx:cad>');
+  });
+});
+
+describe('toTcx', () => {
+  it('should split trackpoints across laps by start offset', () => {
+    const tcx = toTcx(activity, streams, [
+      { startOffsetSeconds: 0, durationSeconds: 2, distanceMeters: 6, averageHR: 120, maxHR: 121 },
+      { startOffsetSeconds: 2, durationSeconds: 1, distanceMeters: 4, averageHR: null, maxHR: null },
+    ]);
+    expect(tcx).toContain('<Activity Sport="Running">');
+    const laps = tcx.split('<Lap ').slice(1);
+    expect(laps).toHaveLength(2);
+    expect(laps[0]!.match(/<Trackpoint>/g)).toHaveLength(2);
+    expect(laps[1]!.match(/<Trackpoint>/g)).toHaveLength(1);
+    expect(laps[0]).toContain('<HeartRateBpm><Value>120</Value></HeartRateBpm>');
+    expect(laps[0]).toContain('<ns3:RunCadence>170</ns3:RunCadence>');
+  });
+
+  it('should use a single lap and the Cadence element for rides', () => {
+    const tcx = toTcx({ ...activity, type: 'road_biking' }, streams, []);
+    expect(tcx).toContain('<Activity Sport="Biking">');
+    expect(tcx.split('<Lap ')).toHaveLength(2);
+    expect(tcx).toContain('<Cadence>170</Cadence>');
+    expect(tcx).toContain('<Calories>20</Calories>');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Activity file export for Garmin Health Sync
+ * Builds GPX and TCX documents from stored streams
+ */
+
+import type { Streams } from './streams.js';
+
+export const EXPORT_FORMATS = ['gpx', 'tcx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+};
+
+export interface ExportActivity {
+  id: string;
+  name: string;
+  type: string;
+  /** Activity start in UTC. */
+  start: Date;
+  durationSeconds: number;
+  distanceMeters: number;
+  calories: number;
+}
+
+export interface ExportLap {
+  startOffsetSeconds: number;
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+  averageHR: number | null;
+  maxHR: number | null;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+}
+
+function isoTime(start: Date, offsetSeconds: number): string {
+  return new Date(start.getTime() + offsetSeconds * 1000).toISOString().replace('.000Z', 'Z');
+}
+
+/** Indices of samples that have a time, in order. */
+function sampleIndices(streams: Streams): number[] {
+  return (streams.time ?? []).flatMap((t, i) => (t === null ? [] : [i]));
+}
+
+/** GPX 1.1 track with Garmin TrackPointExtension heart rate and cadence. Samples without a position are left out. */
+export function toGpx(activity: ExportActivity, streams: Streams): string {
+  const points = sampleIndices(streams)
+    .filter(i => streams.lat?.[i] != null && streams.lon?.[i] != null)
+    .map(i => {
+      const hr = streams.hr?.[i];
+      const cad = streams.cadence?.[i];
+      const ele = streams.elevation?.[i];
+      const extensions = hr != null || cad != null
+        ? `<extensions><gpxtpx:TrackPointExtension>${hr != null ? `<gpxtpx:hr>${Math.round(hr)}</gpxtpx:hr>` : ''}` +
+          `${cad != null ? `<gpxtpx:cad>${Math.round(cad)}</gpxtpx:cad>` : ''}</gpxtpx:TrackPointExtension></extensions>`
+        : '';
+      return `      <trkpt lat="${streams.lat![i]}" lon="${streams.lon![i]}">` +
+        `${ele != null ? `<ele>${ele}</ele>` : ''}<time>${isoTime(activity.start, streams.time![i]!)}</time>${extensions}</trkpt>`;
+    });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="garmin-health-sync" xmlns="http://www.topografix.com/GPX/1/1"',
+    '     xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+    `  <metadata><time>${isoTime(activity.start, 0)}</time></metadata>`,
+    '  <trk>',
+    `    <name>${escapeXml(activity.name)}</name>`,
+    `    <type>${escapeXml(activity.type)}</type>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function tcxSport(type: string): string {
+  if (type.includes('running')) return 'Running';
+  if (type.includes('cycling') || type.includes('biking')) return 'Biking';
+  return 'Other';
+}
+
+/**
+ * TCX with one Lap element per stored lap (or a single lap for the whole
+ * activity). Cycling cadence uses the Cadence element, running cadence the
+ * ActivityExtension RunCadence.
+ */
+export function toTcx(activity: ExportActivity, streams: Streams, laps: ExportLap[]): string {
+  const sport = tcxSport(activity.type);
+  const lapList: ExportLap[] = laps.length > 0 ? laps : [{
+    startOffsetSeconds: 0,
+    durationSeconds: activity.durationSeconds,
+    distanceMeters: activity.distanceMeters,
+    averageHR: null,
+    maxHR: null,
+  }];
+  const indices = sampleIndices(streams);
+  const trackpoint = (i: number) => {
+    const parts = [`<Time>${isoTime(activity.start, streams.time![i]!)}</Time>`];
+    if (streams.lat?.[i] != null && streams.lon?.[i] != null) {
+      parts.push(`<Position><LatitudeDegrees>${streams.lat[i]}</LatitudeDegrees><LongitudeDegrees>${streams.lon[i]}</LongitudeDegrees></Position>`);
+    }
+    if (streams.elevation?.[i] != null) parts.push(`<AltitudeMeters>${streams.elevation[i]}</AltitudeMeters>`);
+    if (streams.distance?.[i] != null) parts.push(`<DistanceMeters>${streams.distance[i]}</DistanceMeters>`);
+    if (streams.hr?.[i] != null) parts.push(`<HeartRateBpm><Value>${Math.round(streams.hr[i]!)}</Value></HeartRateBpm>`);
+    const cad = streams.cadence?.[i];
+    if (cad != null && sport === 'Biking') parts.push(`<Cadence>${Math.round(cad)}</Cadence>`);
+    const tpx = [
+      streams.speed?.[i] != null ? `<ns3:Speed>${streams.speed[i]}</ns3:Speed>` : '',
+      cad != null && sport !== 'Biking' ? `<ns3:RunCadence>${Math.round(cad)}</ns3:RunCadence>` : '',
+    ].join('');
+    if (tpx) parts.push(`<Extensions><ns3:TPX>${tpx}</ns3:TPX></Extensions>`);
+    return `          <Trackpoint>${parts.join('')}</Trackpoint>`;
+  };
+  const lapXml = lapList.map((lap, l) => {
+    const end = lapList[l + 1]?.startOffsetSeconds ?? Infinity;
+    const points = indices.filter(i => streams.time![i]! >= lap.startOffsetSeconds && streams.time![i]! < end);
+    return [
+      `      <Lap StartTime="${isoTime(activity.start, lap.startOffsetSeconds)}">`,
+      `        <TotalTimeSeconds>${lap.durationSeconds ?? 0}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${lap.distanceMeters ?? 0}</DistanceMeters>`,
+      `        <Calories>${laps.length > 0 ? 0 : Math.round(activity.calories)}</Calories>`,
+      lap.averageHR != null ? `        <AverageHeartRateBpm><Value>${Math.round(lap.averageHR)}</Value></AverageHeartRateBpm>` : '',
+      lap.maxHR != null ? `        <MaximumHeartRateBpm><Value>${Math.round(lap.maxHR)}</Value></MaximumHeartRateBpm>` : '',
+      '        <Intensity>Active</Intensity>',
+      '        <TriggerMethod>Manual</TriggerMethod>',
+      '        <Track>',
+      ...points.map(trackpoint),
+      '        </Track>',
+      '      </Lap>',
+    ].filter(Boolean).join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+    '    xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">',
+    '  <Activities>',
+    `    <Activity Sport="${sport}">`,
+    `      <Id>${isoTime(activity.start, 0)}</Id>`,
+    ...lapXml,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'bun:test';
+import { FitParseError, decodeFitActivity, fitCrc, readFitMessages } from './fit';
+
+type Field = [num: number, baseType: number, value: number];
+
+/** Builds a little-endian FIT file from messages, one local type per definition. */
+function fitFile(messages: Array<{ local: number; global: number; fields: Field[]; compressedOffset?: number }>): Buffer {
+  const chunks: Buffer[] = [];
+  const defined = new Set<number>();
+  const sizes: Record<number, number> = { 0x00: 1, 0x02: 1, 0x84: 2, 0x85: 4, 0x86: 4, 0x8c: 4 };
+  for (const message of messages) {
+    if (!defined.has(message.local)) {
+      const def = Buffer.alloc(6 + message.fields.length * 3);
+      def.writeUInt8(0x40 | message.local, 0);
+      def.writeUInt16LE(message.global, 3);
+      def.writeUInt8(message.fields.length, 5);
+      message.fields.forEach(([num, baseType], i) => {
+        def.writeUInt8(num, 6 + i * 3);
+        def.writeUInt8(sizes[baseType]!, 7 + i * 3);
+        def.writeUInt8(baseType, 8 + i * 3);
+      });
+      chunks.push(def);
+      defined.add(message.local);
+    }
+    const header = message.compressedOffset === undefined ? message.local : 0x80 | (message.local << 5) | message.compressedOffset;
+    const data = Buffer.alloc(1 + message.fields.reduce((sum, [, t]) => sum + sizes[t]!, 0));
+    data.writeUInt8(header, 0);
+    let offset = 1;
+    for (const [, baseType, value] of message.fields) {
+      const size = sizes[baseType]!;
+      if (baseType === 0x85) data.writeInt32LE(value, offset);
+      else data.writeUIntLE(value, offset, size);
+      offset += size;
+    }
+    chunks.push(data);
+  }
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.writeUInt8(12, 0);
+  header.writeUInt8(0x20, 1);
+  header.writeUInt16LE(2132, 2);
+  header.writeUInt32LE(body.length, 4);
+  header.write('.FIT', 8, 'ascii');
+  const file = Buffer.concat([header, body, Buffer.alloc(2)]);
+  file.writeUInt16LE(fitCrc(file.subarray(0, 12 + body.length)), 12 + body.length);
+  return file;
+}
+
+// 2026-10-19T07:00:00Z in FIT seconds
+const START = Date.parse('2026-10-19T07:00:00Z') / 1000 - 631065600;
+const semicircles = (degrees: number) => Math.round(degrees * (2 ** 31 / 180));
+
+const recordFields = (t: number, hr: number): Field[] => [
+  [253, 0x86, t], [0, 0x85, semicircles(52.5)], [1, 0x85, semicircles(13.4)], [3, 0x02, hr], [6, 0x84, 3250], [2, 0x84, 2650],
+];
+
+const activityFile = fitFile([
+  { local: 0, global: 23, fields: [[253, 0x86, START], [0, 0x02, 0], [2, 0x84, 1], [3, 0x8c, 3999999], [4, 0x84, 3415], [5, 0x84, 1210]] },
+  { local: 1, global: 20, fields: recordFields(START, 120) },
+  { local: 1, global: 20, fields: recordFields(START + 1, 0xff) },
+  { local: 2, global: 19, fields: [[253, 0x86, START + 300], [2, 0x86, START], [7, 0x86, 300000], [9, 0x86, 100000], [15, 0x02, 135], [16, 0x02, 150], [21, 0x84, 5]] },
+  { local: 3, global: 18, fields: [[253, 0x86, START + 300], [2, 0x86, START], [5, 0x00, 1], [7, 0x86, 300000], [16, 0x02, 135], [24, 0x02, 32]] },
+]);
+
+describe('readFitMessages', () => {
+  it('should decode definition and data messages', () => {
+    const messages = readFitMessages(activityFile);
+    expect(messages.map(m => m.globalNum)).toEqual([23, 20, 20, 19, 18]);
+  });
+
+  it('should resolve compressed timestamp headers from the last timestamp', () => {
+    const file = fitFile([
+      { local: 0, global: 20, fields: [[253, 0x86, 1000], [3, 0x02, 120]] },
+      { local: 1, global: 20, fields: [[3, 0x02, 121]], compressedOffset: (1000 + 5) & 0x1f },
+      { local: 1, global: 20, fields: [[3, 0x02, 122]], compressedOffset: (1000 + 35) & 0x1f },
+    ]);
+    expect(readFitMessages(file).map(m => m.fields[253])).toEqual([1000, 1005, 1035]);
+  });
+
+  it('should reject files without a signature or with a bad CRC', () => {
+    expect(() => readFitMessages(Buffer.from('not a fit file at all'))).toThrow(FitParseError);
+    const corrupt = Buffer.from(activityFile);
+    corrupt[20] ^= 0xff;
+    expect(() => readFitMessages(corrupt)).toThrow('CRC mismatch');
+  });
+});
+
+describe('decodeFitActivity', () => {
+  const activity = decodeFitActivity(activityFile);
+
+  it('should scale records and treat invalid values as missing', () => {
+    const [first, second] = activity.records;
+    expect(first!.timestamp).toBe('2026-10-19T07:00:00.000Z');
+    expect(first!.lat).toBeCloseTo(52.5, 6);
+    expect(first!.lon).toBeCloseTo(13.4, 6);
+    expect(first!.heartRate).toBe(120);
+    expect(first!.speed).toBe(3.25);
+    expect(first!.altitude).toBe(30);
+    expect(second!.heartRate).toBeNull();
+  });
+
+  it('should extract laps, sessions and devices', () => {
+    expect(activity.laps[0]).toMatchObject({ startTime: '2026-10-19T07:00:00.000Z', totalElapsedTime: 300, totalDistance: 1000, avgHeartRate: 135, maxHeartRate: 150, totalAscent: 5 });
+    expect(activity.sessions[0]).toMatchObject({ sport: 'running', totalElapsedTime: 300, avgHeartRate: 135, totalTrainingEffect: 3.2 });
+    expect(activity.devices[0]).toEqual({ deviceIndex: 0, manufacturer: 'garmin', product: 3415, serialNumber: 3999999, softwareVersion: 12.1, batteryStatus: null });
+  });
+});
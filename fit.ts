@@ -0,0 +1,344 @@
+/**
+ * FIT file decoder for Garmin Health Sync
+ * Reads the binary FIT protocol and extracts records, laps, sessions and
+ * device info from activity files
+ */
+
+export class FitParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FitParseError';
+  }
+}
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z). */
+const FIT_EPOCH_OFFSET = 631065600;
+
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_DEVICE_INFO = 23;
+
+const FIELD_TIMESTAMP = 253;
+
+interface BaseType {
+  size: number;
+  read: (buf: Buffer, offset: number, littleEndian: boolean) => number | bigint;
+  invalid: number | bigint | null;
+}
+
+const BASE_TYPES: Record<number, BaseType> = {
+  0x00: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff }, // enum
+  0x01: { size: 1, read: (b, o) => b.readInt8(o), invalid: 0x7f },
+  0x02: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff },
+  0x03: { size: 2, read: (b, o, le) => (le ? b.readInt16LE(o) : b.readInt16BE(o)), invalid: 0x7fff },
+  0x04: { size: 2, read: (b, o, le) => (le ? b.readUInt16LE(o) : b.readUInt16BE(o)), invalid: 0xffff },
+  0x05: { size: 4, read: (b, o, le) => (le ? b.readInt32LE(o) : b.readInt32BE(o)), invalid: 0x7fffffff },
+  0x06: { size: 4, read: (b, o, le) => (le ? b.readUInt32LE(o) : b.readUInt32BE(o)), invalid: 0xffffffff },
+  0x08: { size: 4, read: (b, o, le) => (le ? b.readFloatLE(o) : b.readFloatBE(o)), invalid: null },
+  0x09: { size: 8, read: (b, o, le) => (le ? b.readDoubleLE(o) : b.readDoubleBE(o)), invalid: null },
+  0x0a: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0 }, // uint8z
+  0x0b: { size: 2, read: (b, o, le) => (le ? b.readUInt16LE(o) : b.readUInt16BE(o)), invalid: 0 },
+  0x0c: { size: 4, read: (b, o, le) => (le ? b.readUInt32LE(o) : b.readUInt32BE(o)), invalid: 0 },
+  0x0d: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff }, // byte
+  0x0e: { size: 8, read: (b, o, le) => (le ? b.readBigInt64LE(o) : b.readBigInt64BE(o)), invalid: 0x7fffffffffffffffn },
+  0x0f: { size: 8, read: (b, o, le) => (le ? b.readBigUInt64LE(o) : b.readBigUInt64BE(o)), invalid: 0xffffffffffffffffn },
+  0x10: { size: 8, read: (b, o, le) => (le ? b.readBigUInt64LE(o) : b.readBigUInt64BE(o)), invalid: 0n },
+};
+const BASE_TYPE_STRING = 0x07;
+
+type FieldValue = number | string | null;
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerSize: number;
+}
+
+/** A decoded data message: global message number and raw field values by field number. */
+export interface FitMessage {
+  globalNum: number;
+  fields: Record<number, FieldValue>;
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/** FIT CRC-16 over `data`, continuing from `crc`. */
+export function fitCrc(data: Buffer, crc = 0): number {
+  for (const byte of data) {
+    let tmp = CRC_TABLE[crc & 0xf]!;
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf]!;
+    tmp = CRC_TABLE[crc & 0xf]!;
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf]!;
+  }
+  return crc;
+}
+
+function readField(buf: Buffer, offset: number, field: FieldDefinition, littleEndian: boolean): FieldValue {
+  const baseType = field.baseType & 0x1f;
+  if (baseType === BASE_TYPE_STRING) {
+    const raw = buf.subarray(offset, offset + field.size);
+    const end = raw.indexOf(0);
+    const text = raw.subarray(0, end < 0 ? raw.length : end).toString('utf8');
+    return text || null;
+  }
+  const type = BASE_TYPES[baseType];
+  // Unknown types and arrays keep only what we can use: the first element
+  if (!type || field.size < type.size) return null;
+  const value = type.read(buf, offset, littleEndian);
+  if (type.invalid !== null && value === type.invalid) return null;
+  if (typeof value === 'number' && Number.isNaN(value)) return null;
+  return typeof value === 'bigint' ? Number(value) : value;
+}
+
+/**
+ * Decodes every data message of a FIT file, resolving compressed timestamp
+ * headers into field 253. Developer fields are skipped. Throws FitParseError
+ * for a bad header, truncated data or a CRC mismatch.
+ */
+export function readFitMessages(file: Buffer): FitMessage[] {
+  if (file.length < 12) throw new FitParseError('File too short for a FIT header');
+  const headerSize = file.readUInt8(0);
+  if (headerSize < 12 || file.toString('ascii', 8, 12) !== '.FIT') {
+    throw new FitParseError('Missing .FIT signature');
+  }
+  const dataSize = file.readUInt32LE(4);
+  const end = headerSize + dataSize;
+  if (file.length < end + 2) throw new FitParseError('FIT file is truncated');
+  if (fitCrc(file.subarray(0, end)) !== file.readUInt16LE(end)) {
+    throw new FitParseError('FIT file CRC mismatch');
+  }
+
+  const definitions = new Map<number, MessageDefinition>();
+  const messages: FitMessage[] = [];
+  let lastTimestamp = 0;
+  let pos = headerSize;
+  try {
+    while (pos < end) {
+      const header = file.readUInt8(pos++);
+      if (header & 0x80) {
+        // Compressed timestamp header: 5-bit offset from the last full timestamp
+        const definition = definitions.get((header >> 5) & 0x03);
+        if (!definition) throw new FitParseError(`Data message for undefined local type ${(header >> 5) & 0x03}`);
+        const offset = header & 0x1f;
+        lastTimestamp += (offset - (lastTimestamp & 0x1f)) & 0x1f;
+        const message = readData(file, pos, definition);
+        message.fields[FIELD_TIMESTAMP] = lastTimestamp;
+        messages.push(message);
+        pos += messageSize(definition);
+        continue;
+      }
+      const localType = header & 0x0f;
+      if (header & 0x40) {
+        const littleEndian = file.readUInt8(pos + 1) === 0;
+        const globalNum = littleEndian ? file.readUInt16LE(pos + 2) : file.readUInt16BE(pos + 2);
+        const fieldCount = file.readUInt8(pos + 4);
+        pos += 5;
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++, pos += 3) {
+          fields.push({ num: file.readUInt8(pos), size: file.readUInt8(pos + 1), baseType: file.readUInt8(pos + 2) });
+        }
+        let developerSize = 0;
+        if (header & 0x20) {
+          const devCount = file.readUInt8(pos++);
+          for (let i = 0; i < devCount; i++, pos += 3) developerSize += file.readUInt8(pos + 1);
+        }
+        definitions.set(localType, { globalNum, littleEndian, fields, developerSize });
+      } else {
+        const definition = definitions.get(localType);
+        if (!definition) throw new FitParseError(`Data message for undefined local type ${localType}`);
+        const message = readData(file, pos, definition);
+        const timestamp = message.fields[FIELD_TIMESTAMP];
+        if (typeof timestamp === 'number') lastTimestamp = timestamp;
+        messages.push(message);
+        pos += messageSize(definition);
+      }
+    }
+  } catch (err) {
+    if (err instanceof RangeError) throw new FitParseError('FIT record runs past the end of the data');
+    throw err;
+  }
+  return messages;
+}
+
+function messageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((sum, f) => sum + f.size, 0) + definition.developerSize;
+}
+
+function readData(file: Buffer, pos: number, definition: MessageDefinition): FitMessage {
+  const fields: Record<number, FieldValue> = {};
+  let offset = pos;
+  for (const field of definition.fields) {
+    fields[field.num] = readField(file, offset, field, definition.littleEndian);
+    offset += field.size;
+  }
+  return { globalNum: definition.globalNum, fields };
+}
+
+export interface FitRecord {
+  timestamp: string | null;
+  lat: number | null;
+  lon: number | null;
+  altitude: number | null;
+  heartRate: number | null;
+  cadence: number | null;
+  distance: number | null;
+  speed: number | null;
+  power: number | null;
+  temperature: number | null;
+}
+
+export interface FitLap {
+  startTime: string | null;
+  totalElapsedTime: number | null;
+  totalTimerTime: number | null;
+  totalDistance: number | null;
+  totalCalories: number | null;
+  avgSpeed: number | null;
+  maxSpeed: number | null;
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+  avgCadence: number | null;
+  totalAscent: number | null;
+  totalDescent: number | null;
+}
+
+export interface FitSession extends FitLap {
+  sport: string | null;
+  subSport: number | null;
+  avgPower: number | null;
+  totalTrainingEffect: number | null;
+}
+
+export interface FitDevice {
+  deviceIndex: number | null;
+  manufacturer: string | null;
+  product: number | null;
+  serialNumber: number | null;
+  softwareVersion: number | null;
+  batteryStatus: number | null;
+}
+
+export interface FitActivity {
+  records: FitRecord[];
+  laps: FitLap[];
+  sessions: FitSession[];
+  devices: FitDevice[];
+}
+
+const SPORTS: Record<number, string> = {
+  0: 'generic', 1: 'running', 2: 'cycling', 3: 'transition', 4: 'fitness_equipment', 5: 'swimming',
+  10: 'training', 11: 'walking', 13: 'alpine_skiing', 15: 'rowing', 17: 'hiking', 21: 'e_biking',
+};
+
+const MANUFACTURERS: Record<number, string> = {
+  1: 'garmin', 13: 'dynastream_oem', 15: 'dynastream', 23: 'suunto', 32: 'wahoo_fitness', 69: 'stages_cycling', 255: 'development',
+};
+
+function num(fields: Record<number, FieldValue>, field: number, scale = 1, offset = 0): number | null {
+  const value = fields[field];
+  return typeof value === 'number' ? value / scale - offset : null;
+}
+
+function time(fields: Record<number, FieldValue>, field: number): string | null {
+  const value = fields[field];
+  return typeof value === 'number' ? new Date((value + FIT_EPOCH_OFFSET) * 1000).toISOString() : null;
+}
+
+/** Converts FIT semicircles to degrees. */
+function degrees(fields: Record<number, FieldValue>, field: number): number | null {
+  const value = num(fields, field);
+  return value === null ? null : value * (180 / 2 ** 31);
+}
+
+function enumName(names: Record<number, string>, value: number | null): string | null {
+  return value === null ? null : names[value] ?? String(value);
+}
+
+/** Field numbers of the summary fields shared by lap and session messages, which number them differently. */
+type SummaryFieldNums = Record<'avgSpeed' | 'maxSpeed' | 'enhancedAvgSpeed' | 'enhancedMaxSpeed' | 'avgHeartRate' | 'maxHeartRate' | 'avgCadence' | 'totalAscent' | 'totalDescent', number>;
+
+const LAP_FIELDS: SummaryFieldNums = {
+  avgSpeed: 13, maxSpeed: 14, enhancedAvgSpeed: 110, enhancedMaxSpeed: 111,
+  avgHeartRate: 15, maxHeartRate: 16, avgCadence: 17, totalAscent: 21, totalDescent: 22,
+};
+
+const SESSION_FIELDS: SummaryFieldNums = {
+  avgSpeed: 14, maxSpeed: 15, enhancedAvgSpeed: 124, enhancedMaxSpeed: 125,
+  avgHeartRate: 16, maxHeartRate: 17, avgCadence: 18, totalAscent: 22, totalDescent: 23,
+};
+
+function summary(f: Record<number, FieldValue>, n: SummaryFieldNums): FitLap {
+  return {
+    startTime: time(f, 2),
+    totalElapsedTime: num(f, 7, 1000),
+    totalTimerTime: num(f, 8, 1000),
+    totalDistance: num(f, 9, 100),
+    totalCalories: num(f, 11),
+    avgSpeed: num(f, n.enhancedAvgSpeed, 1000) ?? num(f, n.avgSpeed, 1000),
+    maxSpeed: num(f, n.enhancedMaxSpeed, 1000) ?? num(f, n.maxSpeed, 1000),
+    avgHeartRate: num(f, n.avgHeartRate),
+    maxHeartRate: num(f, n.maxHeartRate),
+    avgCadence: num(f, n.avgCadence),
+    totalAscent: num(f, n.totalAscent),
+    totalDescent: num(f, n.totalDescent),
+  };
+}
+
+/** Decodes a FIT activity file into records, laps, sessions and devices, scaled to SI units. */
+export function decodeFitActivity(file: Buffer): FitActivity {
+  const activity: FitActivity = { records: [], laps: [], sessions: [], devices: [] };
+  for (const { globalNum, fields: f } of readFitMessages(file)) {
+    switch (globalNum) {
+      case MESG_RECORD:
+        activity.records.push({
+          timestamp: time(f, FIELD_TIMESTAMP),
+          lat: degrees(f, 0),
+          lon: degrees(f, 1),
+          altitude: num(f, 78, 5, 500) ?? num(f, 2, 5, 500),
+          heartRate: num(f, 3),
+          cadence: num(f, 4),
+          distance: num(f, 5, 100),
+          speed: num(f, 73, 1000) ?? num(f, 6, 1000),
+          power: num(f, 7),
+          temperature: num(f, 13),
+        });
+        break;
+      case MESG_LAP:
+        activity.laps.push(summary(f, LAP_FIELDS));
+        break;
+      case MESG_SESSION:
+        activity.sessions.push({
+          ...summary(f, SESSION_FIELDS),
+          sport: enumName(SPORTS, num(f, 5)),
+          subSport: num(f, 6),
+          avgPower: num(f, 20),
+          totalTrainingEffect: num(f, 24, 10),
+        });
+        break;
+      case MESG_DEVICE_INFO:
+        activity.devices.push({
+          deviceIndex: num(f, 0),
+          manufacturer: enumName(MANUFACTURERS, num(f, 2)),
+          product: num(f, 4),
+          serialNumber: num(f, 3),
+          softwareVersion: num(f, 5, 100),
+          batteryStatus: num(f, 11),
+        });
+        break;
+    }
+  }
+  return activity;
+}
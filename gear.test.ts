@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { gearWear, parseGear } from './gear';
+
+describe('parseGear', () => {
+  it('should combine gear with its stats', () => {
+    expect(parseGear(
+      { uuid: 'g1', displayName: 'Race shoes', gearMakeName: 'Saucony', gearModelName: 'Endorphin', gearTypeName: 'Shoes', gearStatusName: 'active', maximumMeters: 0 },
+      { totalDistance: 412345.6, totalActivities: 38 }
+    )).toEqual({
+      uuid: 'g1',
+      name: 'Race shoes',
+      type: 'shoes',
+      make: 'Saucony',
+      model: 'Endorphin',
+      status: 'active',
+      dateBegin: null,
+      dateEnd: null,
+      maximumMeters: null,
+      distanceMeters: 412345.6,
+      activityCount: 38,
+    });
+  });
+
+  it('should fall back to make and model for the name', () => {
+    expect(parseGear({ uuid: 'g2', gearMakeName: 'Canyon', gearModelName: 'Unknown' }, null)).toMatchObject({
+      name: 'Canyon', model: null, distanceMeters: 0, activityCount: 0,
+    });
+  });
+});
+
+describe('gearWear', () => {
+  it('should apply the default threshold to shoes', () => {
+    expect(gearWear({ type: 'shoes', status: 'active', maximumMeters: null, distanceMeters: 612000 }, 800)).toEqual({
+      retirementKm: 800, remainingKm: 188, needsRetirement: false,
+    });
+    expect(gearWear({ type: 'shoes', status: 'active', maximumMeters: null, distanceMeters: 805000 }, 800)).toEqual({
+      retirementKm: 800, remainingKm: 0, needsRetirement: true,
+    });
+  });
+
+  it('should prefer the per-gear maximum', () => {
+    expect(gearWear({ type: 'bike', status: 'active', maximumMeters: 5000000, distanceMeters: 5200000 }, 800)).toMatchObject({
+      retirementKm: 5000, needsRetirement: true,
+    });
+  });
+
+  it('should not flag gear without a threshold or already retired', () => {
+    expect(gearWear({ type: 'bike', status: 'active', maximumMeters: null, distanceMeters: 9e6 }, 800).needsRetirement).toBe(false);
+    expect(gearWear({ type: 'shoes', status: 'retired', maximumMeters: null, distanceMeters: 9e5 }, 800).needsRetirement).toBe(false);
+    expect(gearWear({ type: 'shoes', status: 'active', maximumMeters: null, distanceMeters: 9e5 }, 0).retirementKm).toBeNull();
+  });
+});
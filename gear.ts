@@ -0,0 +1,80 @@
+/**
+ * Gear helpers for Garmin Health Sync
+ * Normalizes Garmin gear and works out wear against a retirement threshold
+ */
+
+export interface GarminGear {
+  uuid: string;
+  displayName?: string | null;
+  customMakeModel?: string | null;
+  gearMakeName?: string | null;
+  gearModelName?: string | null;
+  gearTypeName?: string | null;
+  gearStatusName?: string | null;
+  dateBegin?: string | null;
+  dateEnd?: string | null;
+  /** Per-gear retirement distance set in Garmin Connect, in meters; 0 when unset. */
+  maximumMeters?: number | null;
+}
+
+export interface GarminGearStats {
+  totalDistance?: number | null;
+  totalActivities?: number | null;
+}
+
+export interface GearItem {
+  uuid: string;
+  name: string;
+  type: string | null;
+  make: string | null;
+  model: string | null;
+  status: string | null;
+  dateBegin: string | null;
+  dateEnd: string | null;
+  maximumMeters: number | null;
+  distanceMeters: number;
+  activityCount: number;
+}
+
+export interface GearWear {
+  retirementKm: number | null;
+  remainingKm: number | null;
+  needsRetirement: boolean;
+}
+
+export function parseGear(gear: GarminGear, stats: GarminGearStats | null): GearItem {
+  const make = gear.gearMakeName && gear.gearMakeName !== 'Other' ? gear.gearMakeName : null;
+  const model = gear.gearModelName && gear.gearModelName !== 'Unknown' ? gear.gearModelName : null;
+  return {
+    uuid: gear.uuid,
+    name: gear.displayName || gear.customMakeModel || [make, model].filter(Boolean).join(' ') || gear.uuid,
+    type: gear.gearTypeName?.toLowerCase() ?? null,
+    make,
+    model,
+    status: gear.gearStatusName ?? null,
+    dateBegin: gear.dateBegin ?? null,
+    dateEnd: gear.dateEnd ?? null,
+    maximumMeters: gear.maximumMeters ? gear.maximumMeters : null,
+    distanceMeters: stats?.totalDistance ?? 0,
+    activityCount: stats?.totalActivities ?? 0,
+  };
+}
+
+/**
+ * Distance left before the gear should be retired. Garmin's per-gear maximum
+ * wins; otherwise shoes use `shoeRetirementKm`. Retired gear never needs retiring.
+ */
+export function gearWear(item: Pick<GearItem, 'type' | 'status' | 'maximumMeters' | 'distanceMeters'>, shoeRetirementKm: number): GearWear {
+  const thresholdMeters = item.maximumMeters ?? (item.type === 'shoes' && shoeRetirementKm > 0 ? shoeRetirementKm * 1000 : null);
+  if (thresholdMeters === null) return { retirementKm: null, remainingKm: null, needsRetirement: false };
+  const remaining = thresholdMeters - item.distanceMeters;
+  return {
+    retirementKm: round(thresholdMeters / 1000),
+    remainingKm: round(Math.max(0, remaining) / 1000),
+    needsRetirement: item.status !== 'retired' && remaining <= 0,
+  };
+}
+
+function round(km: number): number {
+  return Math.round(km * 10) / 10;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'bun:test';
+import { parseHrvReadings, parseHrvSummary, withinBaseline } from './hrv';
+
+const payload = {
+  hrvSummary: {
+    calendarDate: '2026-10-19',
+    weeklyAvg: 48,
+    lastNightAvg: 44,
+    lastNight5MinHigh: 71,
+    status: 'BALANCED',
+    baseline: { lowUpper: 38, balancedLow: 42, balancedUpper: 55, markerValue: 0.4 },
+  },
+  hrvReadings: [
+    { hrvValue: 51, readingTimeGMT: '2026-10-19T00:05:00.0' },
+    { hrvValue: 40, readingTimeGMT: '2026-10-19T00:00:00.0' },
+    { hrvValue: null, readingTimeGMT: '2026-10-19T00:10:00.0' },
+  ],
+};
+
+describe('parseHrvSummary', () => {
+  it('should flatten the nightly summary and baseline band', () => {
+    expect(parseHrvSummary(payload)).toEqual({
+      lastNightAvg: 44,
+      lastNight5MinHigh: 71,
+      weeklyAvg: 48,
+      baselineLow: 42,
+      baselineHigh: 55,
+      status: 'BALANCED',
+    });
+  });
+
+  it('should fall back to a top-level status', () => {
+    expect(parseHrvSummary({ status: 'UNBALANCED' })).toMatchObject({ lastNightAvg: null, status: 'UNBALANCED' });
+  });
+});
+
+describe('parseHrvReadings', () => {
+  it('should return valid readings in time order', () => {
+    expect(parseHrvReadings(payload)).toEqual([
+      { timestamp: Date.parse('2026-10-19T00:00:00Z'), value: 40 },
+      { timestamp: Date.parse('2026-10-19T00:05:00Z'), value: 51 },
+    ]);
+  });
+});
+
+describe('withinBaseline', () => {
+  it('should compare the nightly average with the band', () => {
+    expect(withinBaseline({ lastNightAvg: 44, baselineLow: 42, baselineHigh: 55 })).toBe(true);
+    expect(withinBaseline({ lastNightAvg: 40, baselineLow: 42, baselineHigh: 55 })).toBe(false);
+    expect(withinBaseline({ lastNightAvg: 55, baselineLow: 42, baselineHigh: 55 })).toBe(true);
+  });
+
+  it('should be unknown without a baseline', () => {
+    expect(withinBaseline({ lastNightAvg: 44, baselineLow: null, baselineHigh: null })).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * HRV helpers for Garmin Health Sync
+ * Flattens Garmin's nightly HRV summary and 5-minute readings
+ */
+
+import { parseGarminTimestamp, type GarminTimestamp } from './sleep.js';
+import type { Sample } from './samples.js';
+
+export interface GarminHrvData {
+  hrvSummary?: {
+    calendarDate?: string;
+    weeklyAvg?: number | null;
+    lastNightAvg?: number | null;
+    lastNight5MinHigh?: number | null;
+    status?: string | null;
+    baseline?: { balancedLow?: number | null; balancedUpper?: number | null } | null;
+  };
+  hrvReadings?: Array<{ hrvValue?: number | null; readingTimeGMT?: GarminTimestamp }>;
+  /** Older payloads carry only the status at the top level. */
+  status?: string;
+}
+
+export interface HrvNight {
+  lastNightAvg: number | null;
+  lastNight5MinHigh: number | null;
+  weeklyAvg: number | null;
+  baselineLow: number | null;
+  baselineHigh: number | null;
+  status: string | null;
+}
+
+export function parseHrvSummary(data: GarminHrvData): HrvNight {
+  const summary = data.hrvSummary;
+  return {
+    lastNightAvg: summary?.lastNightAvg ?? null,
+    lastNight5MinHigh: summary?.lastNight5MinHigh ?? null,
+    weeklyAvg: summary?.weeklyAvg ?? null,
+    baselineLow: summary?.baseline?.balancedLow ?? null,
+    baselineHigh: summary?.baseline?.balancedUpper ?? null,
+    status: summary?.status ?? data.status ?? null,
+  };
+}
+
+/** The night's 5-minute readings, sorted by time; readings without a value or time are dropped. */
+export function parseHrvReadings(data: GarminHrvData): Sample[] {
+  const samples: Sample[] = [];
+  for (const reading of data.hrvReadings ?? []) {
+    const timestamp = parseGarminTimestamp(reading.readingTimeGMT);
+    if (timestamp !== null && typeof reading.hrvValue === 'number' && reading.hrvValue > 0) {
+      samples.push({ timestamp, value: reading.hrvValue });
+    }
+  }
+  return samples.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Whether a nightly average falls inside the baseline band; null when either is unknown. */
+export function withinBaseline(night: Pick<HrvNight, 'lastNightAvg' | 'baselineLow' | 'baselineHigh'>): boolean | null {
+  const { lastNightAvg, baselineLow, baselineHigh } = night;
+  if (lastNightAvg === null || baselineLow === null || baselineHigh === null) return null;
+  return lastNightAvg >= baselineLow && lastNightAvg <= baselineHigh;
+}
@@ -1,75 +1,76 @@
 import Database from 'better-sqlite3';
 import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { SyncScheduler } from './scheduler.js';
+import { SyncCoordinator, type ProgressReporter, type SyncJob, type SyncTrigger } from './coordinator.js';
+import { diffRows, etagFor, etagMatches, hashRow, parseCursor, planReplacement, type PlannedChange, type RowValue, type RowValues } from './changes.js';
+import { normalizeLaps, type GarminLap } from './laps.js';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, toGpx, toTcx, type ExportActivity, type ExportFormat, type ExportLap } from './export.js';
+import { createZip, readZip } from './zip.js';
+import { FitParseError, decodeFitActivity, type FitActivity } from './fit.js';
+import { PERFORMANCE_COLUMNS, PERFORMANCE_ENDPOINTS, parsePerformanceDay, withPreviousResponses, type GarminMaxMetrics, type GarminPerformanceDay, type GarminRacePredictions, type GarminTrainingReadiness, type GarminTrainingStatus, type PerformanceEndpoint } from './performance.js';
+import { gearWear, parseGear, type GarminGear, type GarminGearStats, type GearItem } from './gear.js';
+import { parseRecords, type GarminPersonalRecord } from './records.js';
+import { BODY_COMPOSITION_FIELDS, parseManualEntry, parseWeighIns, type BodyComposition, type GarminWeighInDay, type WeighInProvider } from './weight.js';
+import { parseHrvReadings, parseHrvSummary, withinBaseline, type GarminHrvData } from './hrv.js';
+import { buildSleepSessions, stageTotals, type GarminSleepTimeline, type SleepStage } from './sleep.js';
+import { bucketSamples, parseBucket, parseSampleArray, summarizeLevels, type Sample } from './samples.js';
+import { STREAM_FIELDS, decodeStreams, downsample, encodeStreams, parseActivityDetails, sampleCount, type GarminActivityDetails, type StreamField, type Streams } from './streams.js';
+import { API_URL, GarminAuth, fetchOAuthConsumer, type GarminTokens, type LoginResult, type OAuthConsumer, type TokenStore } from './auth.js';
+import { SecretBox, SecretKeyError, isSealed, keyFromPassphrase, readKeyFile, type SecretKey } from './secrets.js';
+import { CREDENTIAL_STORES, databaseStore, envStore, keychainStore, type CredentialStore, type CredentialStoreKind } from './credentials.js';
+import { activityWalk, backfillProgress, nextDayChunk, parseBackfillRequest, walkActivities, type BackfillJob, type BackfillRequest } from './backfill.js';
+import { deleteProfileRows, migrateDatabase } from './schema.js';
+import { attemptItem, isItemError, recordSyncError, retryFailedItems, syncErrorBreakdown, unresolvedSyncErrors, type ItemErrorHandler, type SyncItem } from './ledger.js';
+import { DAY_PATTERN, PROFILE_TYPES, SYNC_DATA_TYPES, WELLNESS_TYPES, describeSyncScope, parseSyncOptions, type ProfileType, type SyncDataType, type SyncOptions, type WellnessType } from './sync.js';
+import { DEFAULT_PROFILE_ID, PROFILE_HEADER, parseProfileInput, selectProfile, type ProfileInput } from './profiles.js';
+import { GarminApiError, GarminAuthError, GarminMfaRequiredError, GarminNotFoundError, GarminServerError, RateLimiter, errorForResponse, withRetry } from './request.js';
 
 const DB_PATH = process.env.GARMIN_DB_PATH || './garmin.sqlite';
 const PORT = Number(process.env.GARMIN_SYNC_PORT || 17890);
 const GARMIN_USERNAME = process.env.GARMIN_USERNAME || '';
 const GARMIN_PASSWORD = process.env.GARMIN_PASSWORD || '';
+// Encryption key for secrets in the database; the previous key is only used to re-encrypt on rotation
+const KEY_FILE = process.env.GARMIN_KEY_FILE || '';
+const PASSPHRASE = process.env.GARMIN_PASSPHRASE || '';
+const PREVIOUS_KEY_FILE = process.env.GARMIN_PREVIOUS_KEY_FILE || '';
+const PREVIOUS_PASSPHRASE = process.env.GARMIN_PREVIOUS_PASSPHRASE || '';
+const CREDENTIAL_STORE = (process.env.GARMIN_CREDENTIAL_STORE || 'env') as CredentialStoreKind;
+const OAUTH_CONSUMER_KEY = process.env.GARMIN_OAUTH_CONSUMER_KEY || '';
+const OAUTH_CONSUMER_SECRET = process.env.GARMIN_OAUTH_CONSUMER_SECRET || '';
 const AUTO_SYNC_INTERVAL = process.env.GARMIN_AUTO_SYNC_INTERVAL 
   ? parseInt(process.env.GARMIN_AUTO_SYNC_INTERVAL, 10) * 60 * 60 * 1000 // Convert hours to ms
   : 0; // 0 = disabled
+const SYNC_RECHECK_DAYS = Math.max(1, parseInt(process.env.GARMIN_SYNC_RECHECK_DAYS || '3', 10)); // Recent days re-pulled every run
+const INITIAL_SYNC_DAYS = 30;
+const INITIAL_ACTIVITY_LIMIT = 50;
+const ACTIVITY_PAGE_SIZE = 20;
+const REQUESTS_PER_MINUTE = Math.max(1, parseInt(process.env.GARMIN_REQUESTS_PER_MINUTE || '60', 10));
+const MAX_CONCURRENCY = Math.max(1, parseInt(process.env.GARMIN_MAX_CONCURRENCY || '2', 10));
+const MAX_RETRIES = Math.max(0, parseInt(process.env.GARMIN_MAX_RETRIES || '4', 10));
+const BACKFILL_PAGE_SIZE = 100;
+const BACKFILL_CHUNK_DAYS = 7;
+const SYNC_HEARTBEAT_MS = 30 * 1000;
+const SYNC_LOCK_STALE_MS = 5 * 60 * 1000;
+const DOWNLOAD_FIT = process.env.GARMIN_DOWNLOAD_FIT === 'true';
+const DATA_DIR = path.dirname(DB_PATH); // FIT archives are kept under fit/ here
+const SHOE_RETIREMENT_KM = Math.max(0, parseInt(process.env.GARMIN_SHOE_RETIREMENT_KM || '800', 10)); // 0 = no default
+const GEAR_ACTIVITY_PAGE_SIZE = 100;
 
 const db = new Database(DB_PATH);
 
-db.exec(`
-  PRAGMA journal_mode = WAL;
-  CREATE TABLE IF NOT EXISTS meta (
-    key TEXT PRIMARY KEY,
-    value TEXT NOT NULL
-  );
-
-  CREATE TABLE IF NOT EXISTS activities (
-    id TEXT PRIMARY KEY,
-    provider TEXT NOT NULL,
-    startTime TEXT,
-    type TEXT,
-    name TEXT,
-    distanceMeters REAL,
-    durationSeconds REAL,
-    calories REAL,
-    averageHR INTEGER,
-    maxHR INTEGER,
-    averageSpeed REAL,
-    maxSpeed REAL,
-    elevationGain REAL,
-    elevationLoss REAL,
-    description TEXT,
-    locationName TEXT,
-    rawJson TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS daily_metrics (
-    day TEXT PRIMARY KEY,
-    steps INTEGER,
-    restingHeartRate INTEGER,
-    bodyBattery INTEGER,
-    sleepSeconds INTEGER,
-    sleepScore INTEGER,
-    deepSleepSeconds INTEGER,
-    lightSleepSeconds INTEGER,
-    remSleepSeconds INTEGER,
-    awakeSleepSeconds INTEGER,
-    avgSpO2 REAL,
-    avgRespiration REAL,
-    avgStressLevel INTEGER,
-    hrvStatus TEXT,
-    rawJson TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS sync_log (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    startedAt TEXT NOT NULL,
-    endedAt TEXT,
-    status TEXT NOT NULL,
-    details TEXT
-  );
-`);
+for (const table of migrateDatabase(db)) {
+  console.log(`[profiles] Moved ${table} to the default profile`);
+}
 
 type GarminActivity = {
   activityId: number;
   activityName: string;
   startTimeLocal: string;
+  startTimeGMT?: string;
   duration: number;
   distance?: number;
   calories?: number;
@@ -79,6 +80,14 @@ type GarminActivity = {
 type GarminActivityDetail = {
   activityId: number;
   activityName: string;
+  activityTypeDTO?: { typeKey: string };
+  summaryDTO?: {
+    startTimeLocal?: string;
+    startTimeGMT?: string;
+    duration?: number;
+    distance?: number;
+    calories?: number;
+  };
   description?: string;
   locationName?: string;
   averageHR?: number;
@@ -98,7 +107,7 @@ type DailySummary = {
   hrvStatus?: string;
 };
 
-type SleepData = {
+type SleepData = GarminSleepTimeline & {
   dailySleepDTO?: {
     sleepTimeSeconds?: number;
     deepSleepSeconds?: number;
@@ -111,301 +120,1816 @@ type SleepData = {
   };
 };
 
+// Intraday rows are [timestampMs, ...values]; the descriptor lists say which column holds what
 type BodyBatteryData = {
-  bodyBatteryValuesArray?: Array<{
-    date: string;
-    values: Array<{ value: number }>;
-  }>;
+  bodyBatteryValuesArray?: Array<Array<number | string | null>>;
+  bodyBatteryValueDescriptorDTOList?: Array<{ bodyBatteryValueDescriptorIndex: number; bodyBatteryValueDescriptorKey: string }>;
+  charged?: number;
+  drained?: number;
+};
+
+type HeartRateData = {
+  heartRateValues?: Array<[number, number | null]>;
+  restingHeartRate?: number;
 };
 
 type StressData = {
-  stressValuesArray?: Array<{
-    date: string;
-    values: Array<{ value: number }>;
-  }>;
+  stressValuesArray?: Array<[number, number | null]>;
   avgStressLevel?: number;
+  maxStressLevel?: number;
 };
 
+type RetryNotice = { endpoint: string; status: number; attempt: number; delayMs: number; message: string };
+
+// Retry listener of the sync run that made the request. Clients are shared per
+// profile, so a backfill's retries must not show up in a sync job's warnings.
+const retryListener = new AsyncLocalStorage<(retry: RetryNotice) => void>();
+
 class GarminConnectClient {
-  private baseUrl = 'https://connect.garmin.com';
-  private sessionCookies: string = '';
-  private authed: boolean = false;
+  readonly auth: GarminAuth;
+  private limiter = new RateLimiter({ requestsPerMinute: REQUESTS_PER_MINUTE, maxConcurrency: MAX_CONCURRENCY });
+  private profile: { displayName: string; profileId: number } | null = null;
+
+  constructor(auth: GarminAuth) {
+    this.auth = auth;
+  }
 
-  async login(username: string, password: string): Promise<boolean> {
+  /** Logs in with username and password and stores the resulting tokens, unless Garmin asks for a code. */
+  async login(username: string, password: string): Promise<LoginResult> {
+    const result = await this.auth.login(username, password);
+    if (!result.mfaRequired) this.profile = null;
+    return result;
+  }
+
+  /** Finishes a login that was paused for the verification code. */
+  async completeMfa(challengeId: string, code: string): Promise<void> {
+    await this.auth.completeMfa(challengeId, code);
+    this.profile = null;
+  }
+
+  private async request(endpoint: string, responseType: 'json' | 'buffer' = 'json'): Promise<unknown> {
+    return withRetry(() => this.limiter.schedule(() => this.fetchOnce(endpoint, responseType)), {
+      maxRetries: MAX_RETRIES,
+      baseDelayMs: 1000,
+      maxDelayMs: 60000,
+      onRetry: (err, attempt, delayMs) => {
+        if (err.retryAfterMs !== null) this.limiter.pause(err.retryAfterMs);
+        console.warn(`[garmin] ${err.message}; retry ${attempt}/${MAX_RETRIES} in ${delayMs}ms`);
+        retryListener.getStore()?.({ endpoint, status: err.status, attempt, delayMs, message: err.message });
+      },
+    });
+  }
+
+  private async fetchOnce(endpoint: string, responseType: 'json' | 'buffer'): Promise<unknown> {
+    let res: Response;
     try {
-      // Step 1: Get login page to extract CSRF token
-      const loginPage = await fetch(`${this.baseUrl}/signin`, {
-        redirect: 'manual',
-      });
-      const cookies = loginPage.headers.get('set-cookie') || '';
-      
-      // Step 2: Post credentials to signin endpoint
-      const signinUrl = `https://sso.garmin.com/sso/signin?service=${encodeURIComponent(this.baseUrl)}&clientId=GarminConnect&consumeServiceTicket=false`;
-      
-      const loginRes = await fetch(signinUrl, {
-        method: 'POST',
-        headers: {
-          'content-type': 'application/x-www-form-urlencoded',
-          'cookie': cookies,
-        },
-        body: new URLSearchParams({
-          username,
-          password,
-          embed: 'false',
-        }),
-        redirect: 'manual',
-      });
+      // Refreshes the access token on expiry or a 401 and retries once
+      res = await this.auth.fetch(`${API_URL}${endpoint}`);
+    } catch (err) {
+      if (err instanceof GarminApiError) throw err;
+      throw new GarminServerError(0, endpoint, null, `Garmin request failed for ${endpoint}: ${err instanceof Error ? err.message : String(err)}`);
+    }
 
-      // Step 3: Extract ticket from response and validate
-      const body = await loginRes.text();
-      const ticketMatch = body.match(/ticket=([^"]+)/);
-      
-      if (!ticketMatch) {
-        console.error('Garmin login: no ticket found');
-        return false;
+    if (!res.ok) {
+      const error = errorForResponse(res, endpoint);
+      if (res.status === 401) {
+        // Still rejected with a fresh token; drop the tokens so the next sync logs in again
+        this.auth.logout();
       }
+      throw error;
+    }
 
-      const ticket = ticketMatch[1];
-      
-      // Step 4: Validate ticket to establish session
-      const validateRes = await fetch(`${this.baseUrl}/services/auth/validate-ticket?ticket=${ticket}`, {
-        redirect: 'manual',
-      });
+    return responseType === 'buffer' ? Buffer.from(await res.arrayBuffer()) : res.json();
+  }
 
-      const sessionCookies = validateRes.headers.get('set-cookie');
-      if (sessionCookies) {
-        this.sessionCookies = sessionCookies;
-        this.authed = true;
-        
-        // Store session in DB
-        db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(
-          'garmin_session',
-          JSON.stringify({ cookies: this.sessionCookies, timestamp: Date.now() })
-        );
-        
-        return true;
-      }
-      
-      return false;
+  /** Runs a getter, mapping a 404 to null. Any other failure is thrown. */
+  private async optional<T>(endpoint: string, responseType: 'json' | 'buffer' = 'json'): Promise<T | null> {
+    try {
+      return await this.request(endpoint, responseType) as T;
     } catch (err) {
-      console.error('Garmin login error:', err);
-      return false;
+      if (err instanceof GarminNotFoundError) return null;
+      throw err;
     }
   }
 
-  loadSessionFromDb(): boolean {
-    const row = db.prepare("SELECT value FROM meta WHERE key = 'garmin_session'").get() as { value: string } | undefined;
-    if (row) {
+  async getActivities(limit: number = 20, start: number = 0): Promise<GarminActivity[]> {
+    const data = await this.request(`/activitylist-service/activities/search/activities?start=${start}&limit=${limit}`);
+    return data as GarminActivity[];
+  }
+
+  async getActivityDetail(activityId: number): Promise<GarminActivityDetail | null> {
+    return this.optional<GarminActivityDetail>(`/activity-service/activity/${activityId}`);
+  }
+
+  async getActivityDetails(activityId: number): Promise<GarminActivityDetails | null> {
+    return this.optional<GarminActivityDetails>(`/activity-service/activity/${activityId}/details?maxChartSize=100000&maxPolylineSize=0`);
+  }
+
+  /** Original upload as Garmin serves it: a zip holding the FIT file. */
+  async getActivityFit(activityId: number): Promise<Buffer | null> {
+    return this.optional<Buffer>(`/download-service/files/activity/${activityId}`, 'buffer');
+  }
+
+  async getActivitySplits(activityId: number): Promise<{ lapDTOs?: GarminLap[] } | null> {
+    return this.optional<{ lapDTOs?: GarminLap[] }>(`/activity-service/activity/${activityId}/splits`);
+  }
+
+  async getDailySummary(date: string): Promise<DailySummary | null> {
+    return this.optional<DailySummary>(`/wellness-service/wellness/dailySummary/${date}`);
+  }
+
+  async getHrvData(date: string): Promise<GarminHrvData | null> {
+    return this.optional<GarminHrvData>(`/hrv-service/hrv/${date}`);
+  }
+
+  async getSleepData(date: string): Promise<SleepData | null> {
+    return this.optional<SleepData>(`/wellness-service/wellness/dailySleep/${date}`);
+  }
+
+  async getBodyBatteryData(date: string): Promise<BodyBatteryData | null> {
+    return this.optional<BodyBatteryData>(`/wellness-service/wellness/dailyBodyBattery/${date}`);
+  }
+
+  async getHeartRateData(date: string): Promise<HeartRateData | null> {
+    return this.optional<HeartRateData>(`/wellness-service/wellness/dailyHeartRate?date=${date}`);
+  }
+
+  async getStressData(date: string): Promise<StressData | null> {
+    return this.optional<StressData>(`/wellness-service/wellness/dailyStress/${date}`);
+  }
+
+  /** Weigh-ins logged on the day, from an Index scale or entered in Garmin Connect. */
+  async getWeighIns(date: string): Promise<GarminWeighInDay | null> {
+    return this.optional<GarminWeighInDay>(`/weight-service/weight/dayview/${date}`);
+  }
+
+  /** Profile name and id some endpoints are keyed by; looked up once per process. */
+  async getProfile(): Promise<{ displayName: string; profileId: number }> {
+    if (!this.profile) {
+      const { displayName, profileId } = await this.request('/userprofile-service/socialProfile') as { displayName: string; profileId: number };
+      this.profile = { displayName, profileId };
+    }
+    return this.profile;
+  }
+
+  async getTrainingReadiness(date: string): Promise<GarminTrainingReadiness[] | null> {
+    return this.optional<GarminTrainingReadiness[]>(`/metrics-service/metrics/trainingreadiness/${date}`);
+  }
+
+  /** Training status, load focus (load balance), acute/chronic load and the latest VO2 max. */
+  async getTrainingStatus(date: string): Promise<GarminTrainingStatus | null> {
+    return this.optional<GarminTrainingStatus>(`/metrics-service/metrics/trainingstatus/aggregated/${date}`);
+  }
+
+  /** VO2 max for running (`generic`) and cycling. */
+  async getMaxMetrics(date: string): Promise<GarminMaxMetrics[] | null> {
+    return this.optional<GarminMaxMetrics[]>(`/metrics-service/metrics/maxmet/daily/${date}/${date}`);
+  }
+
+  async getRacePredictions(date: string): Promise<GarminRacePredictions[] | null> {
+    const { displayName } = await this.getProfile();
+    return this.optional<GarminRacePredictions[]>(
+      `/metrics-service/metrics/racepredictions/daily/${encodeURIComponent(displayName)}?fromCalendarDate=${date}&toCalendarDate=${date}`
+    );
+  }
+
+  async getGear(): Promise<GarminGear[]> {
+    const { profileId } = await this.getProfile();
+    return await this.request(`/gear-service/gear/filterGear?userProfilePk=${profileId}`) as GarminGear[];
+  }
+
+  async getGearStats(uuid: string): Promise<GarminGearStats | null> {
+    return this.optional<GarminGearStats>(`/gear-service/gear/stats/${uuid}`);
+  }
+
+  /** Ids of every activity the gear was used in. */
+  async getGearActivityIds(uuid: string): Promise<string[]> {
+    const ids: string[] = [];
+    for (let start = 0; ; start += GEAR_ACTIVITY_PAGE_SIZE) {
+      const page = await this.optional<Array<{ activityId: number }>>(
+        `/activitylist-service/activities/${uuid}/gear?start=${start}&limit=${GEAR_ACTIVITY_PAGE_SIZE}`
+      ) ?? [];
+      ids.push(...page.map(act => String(act.activityId)));
+      if (page.length < GEAR_ACTIVITY_PAGE_SIZE) return ids;
+    }
+  }
+
+  async getPersonalRecords(): Promise<GarminPersonalRecord[]> {
+    const { displayName } = await this.getProfile();
+    return await this.optional<GarminPersonalRecord[]>(`/personalrecord-service/personalrecord/prs/${encodeURIComponent(displayName)}`) ?? [];
+  }
+
+  /**
+   * All performance responses for a day; null when none of the endpoints has data.
+   * A failed endpoint is listed in `failed` rather than losing the others; only
+   * when all of them fail is the day's fetch an error.
+   */
+  async getPerformanceData(date: string): Promise<GarminPerformanceDay | null> {
+    const results = await Promise.allSettled([
+      this.getTrainingReadiness(date),
+      this.getTrainingStatus(date),
+      this.getMaxMetrics(date),
+      this.getRacePredictions(date),
+    ]);
+    const day: GarminPerformanceDay = {};
+    const failed: PerformanceEndpoint[] = [];
+    results.forEach((result, i) => {
+      const endpoint = PERFORMANCE_ENDPOINTS[i]!;
+      if (result.status === 'fulfilled') {
+        Object.assign(day, { [endpoint]: result.value });
+      } else {
+        console.warn(`[garmin] ${endpoint} for ${date} failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+        failed.push(endpoint);
+      }
+    });
+    if (failed.length === results.length) throw (results[0] as PromiseRejectedResult).reason;
+    if (PERFORMANCE_ENDPOINTS.every(endpoint => !day[endpoint])) return failed.length > 0 ? { failed } : null;
+    return failed.length > 0 ? { ...day, failed } : day;
+  }
+}
+
+// The cookie session of earlier versions is no longer usable
+db.prepare("DELETE FROM meta WHERE key = 'garmin_session'").run();
+
+const ENCRYPTION_SALT_KEY = 'encryption_salt';
+
+/** A Garmin account synced into this database; its tokens are only read through its token store. */
+type Profile = {
+  id: number;
+  name: string;
+  /** Set when credentials are saved for the profile; GARMIN_USERNAME wins for the default profile */
+  username: string | null;
+  /** Set while a login waits for a verification code only the user can supply */
+  mfaRequiredAt: string | null;
+  /** null: no scheduled syncs (the default profile falls back to GARMIN_AUTO_SYNC_INTERVAL) */
+  autoSyncHours: number | null;
+  createdAt: string;
+};
+
+const PROFILE_COLUMNS = 'id, name, username, mfaRequiredAt, autoSyncHours, createdAt';
+
+function getProfile(id: number): Profile | null {
+  return db.prepare(`SELECT ${PROFILE_COLUMNS} FROM profiles WHERE id = ?`).get(id) as Profile | undefined ?? null;
+}
+
+function listProfiles(): Profile[] {
+  return db.prepare(`SELECT ${PROFILE_COLUMNS} FROM profiles ORDER BY id`).all() as Profile[];
+}
+
+/** Keys from GARMIN_KEY_FILE / GARMIN_PASSPHRASE. The passphrase salt is created on first use and kept in meta. */
+function loadSecretBox(): SecretBox {
+  const fromPassphrase = (passphrase: string): SecretKey => {
+    let salt = getMeta(ENCRYPTION_SALT_KEY);
+    if (!salt) {
+      salt = randomBytes(16).toString('hex');
+      setMeta(ENCRYPTION_SALT_KEY, salt);
+    }
+    return keyFromPassphrase(passphrase, salt);
+  };
+  const current = KEY_FILE ? readKeyFile(KEY_FILE) : PASSPHRASE ? fromPassphrase(PASSPHRASE) : null;
+  const previous: SecretKey[] = [];
+  if (PREVIOUS_KEY_FILE) previous.push(readKeyFile(PREVIOUS_KEY_FILE));
+  if (PREVIOUS_PASSPHRASE) previous.push(fromPassphrase(PREVIOUS_PASSPHRASE));
+  return new SecretBox(current, previous);
+}
+
+const secretBox = loadSecretBox();
+
+function getSecretMeta(key: string): string | null {
+  const value = getMeta(key);
+  return value === null ? null : secretBox.open(value);
+}
+
+function setSecretMeta(key: string, value: string): void {
+  setMeta(key, secretBox.seal(value));
+}
+
+/**
+ * Brings stored secrets in line with the configured key: encrypts plaintext
+ * from before encryption was on, re-encrypts values sealed with the previous
+ * key, or decrypts them once encryption is turned off.
+ */
+function resealSecrets(): void {
+  const passwords = db.prepare("SELECT key, value FROM meta WHERE key LIKE 'garmin_password:%'").all() as Array<{ key: string; value: string }>;
+  const tokens = db.prepare('SELECT id, tokens FROM profiles WHERE tokens IS NOT NULL').all() as Array<{ id: number; tokens: string }>;
+  const secrets = [
+    ...passwords.map(row => ({ name: row.key, value: row.value, save: (value: string) => setMeta(row.key, value) })),
+    ...tokens.map(row => ({
+      name: `tokens of profile ${row.id}`,
+      value: row.tokens,
+      save: (value: string) => { db.prepare('UPDATE profiles SET tokens = ? WHERE id = ?').run(value, row.id); },
+    })),
+  ];
+  if (!secretBox.current) {
+    const sealed = secrets.filter(secret => isSealed(secret.value)).length;
+    if (sealed > 0) {
+      console.warn(`[secrets] ${sealed} stored secret(s) stay encrypted: no current key is configured. Set GARMIN_KEY_FILE or GARMIN_PASSPHRASE`);
+    }
+    return;
+  }
+  let resealed = 0;
+  db.transaction(() => {
+    for (const secret of secrets) {
+      if (!secretBox.needsReseal(secret.value)) continue;
       try {
-        const session = JSON.parse(row.value);
-        // Sessions expire after 7 days
-        if (Date.now() - session.timestamp < 7 * 24 * 60 * 60 * 1000) {
-          this.sessionCookies = session.cookies;
-          this.authed = true;
-          return true;
-        }
-      } catch {
-        // Invalid session, will re-auth
+        secret.save(secretBox.seal(secretBox.open(secret.value)));
+        resealed++;
+      } catch (err) {
+        console.warn(`[secrets] Could not re-encrypt ${secret.name}: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
+  })();
+  if (resealed > 0) console.log(`[secrets] Encrypted ${resealed} stored secret(s) with key ${secretBox.current.id}`);
+}
+
+resealSecrets();
+
+/** OAuth tokens of one profile, sealed in its profiles row. */
+function profileTokenStore(profileId: number): TokenStore {
+  return {
+    load() {
+      const row = db.prepare('SELECT tokens FROM profiles WHERE id = ?').get(profileId) as { tokens: string | null } | undefined;
+      if (!row?.tokens) return null;
+      try {
+        return JSON.parse(secretBox.open(row.tokens)) as GarminTokens;
+      } catch (err) {
+        // Kept as is, so the tokens come back once the right key is configured
+        if (!(err instanceof SecretKeyError)) throw err;
+        console.warn(`[secrets] Stored Garmin tokens of profile ${profileId} are unreadable (${err.message}); logging in again`);
+        return null;
+      }
+    },
+    save(tokens) {
+      db.prepare('UPDATE profiles SET tokens = ? WHERE id = ?').run(tokens ? secretBox.seal(JSON.stringify(tokens)) : null, profileId);
+    },
+  };
+}
+
+if (!CREDENTIAL_STORES.includes(CREDENTIAL_STORE)) {
+  throw new Error(`GARMIN_CREDENTIAL_STORE must be one of ${CREDENTIAL_STORES.join(', ')}`);
+}
+const credentialStore: CredentialStore = CREDENTIAL_STORE === 'keychain'
+  ? keychainStore()
+  : CREDENTIAL_STORE === 'db'
+    ? databaseStore(secretBox, { get: getSecretMeta, set: setSecretMeta, delete: deleteMeta })
+    : envStore(GARMIN_PASSWORD);
+
+// GARMIN_USERNAME and GARMIN_PASSWORD belong to the default profile
+function garminUsername(profile: Profile): string {
+  return (profile.id === DEFAULT_PROFILE_ID ? GARMIN_USERNAME : '') || profile.username || '';
+}
+
+/**
+ * Password from the credential store, looked up by the profile's username and
+ * falling back to GARMIN_PASSWORD for the default profile; null if either
+ * part is missing. Other profiles need the keychain or db store.
+ */
+function garminCredentials(profile: Profile): { username: string; password: string } | null {
+  const username = garminUsername(profile);
+  if (!username) return null;
+  const envPassword = profile.id === DEFAULT_PROFILE_ID ? GARMIN_PASSWORD || null : null;
+  const password = credentialStore.kind === 'env' ? envPassword : credentialStore.getPassword(username) ?? envPassword;
+  return password ? { username, password } : null;
+}
+
+/**
+ * Keeps the username Garmin accepted on the profile and saves the password,
+ * if the credential store is writable. Returns whether the password was saved.
+ */
+function saveCredentials(profile: Profile, username: string, password: string): boolean {
+  if (profile.id !== DEFAULT_PROFILE_ID || !GARMIN_USERNAME) {
+    db.prepare('UPDATE profiles SET username = ? WHERE id = ?').run(username, profile.id);
+  }
+  if (!credentialStore.setPassword) return false;
+  try {
+    credentialStore.setPassword(username, password);
+  } catch (err) {
+    console.warn(`[secrets] Could not save the Garmin password: ${err instanceof Error ? err.message : String(err)}`);
     return false;
   }
+  return true;
+}
+
+let oauthConsumer: Promise<OAuthConsumer> | null = null;
+
+/** Consumer credentials from the env, or the published ones fetched once per process. */
+function loadOAuthConsumer(): Promise<OAuthConsumer> {
+  if (OAUTH_CONSUMER_KEY && OAUTH_CONSUMER_SECRET) {
+    return Promise.resolve({ key: OAUTH_CONSUMER_KEY, secret: OAUTH_CONSUMER_SECRET });
+  }
+  oauthConsumer ??= fetchOAuthConsumer().catch(err => { oauthConsumer = null; throw err; });
+  return oauthConsumer;
+}
+
+const garminClients = new Map<number, GarminConnectClient>();
+
+/** The client of a profile, with its own tokens, pending MFA challenges and rate limiter. */
+function garminClient(profileId: number): GarminConnectClient {
+  let client = garminClients.get(profileId);
+  if (!client) {
+    client = new GarminConnectClient(new GarminAuth({ store: profileTokenStore(profileId), consumer: loadOAuthConsumer }));
+    garminClients.set(profileId, client);
+  }
+  return client;
+}
+
+type TrackedTable = 'activities' | 'daily_metrics';
+type WriteCounts = { inserted: number; updated: number; unchanged: number };
+
+// A dry run's would-be changes per table
+type ChangePlan = Record<string, PlannedChange[]>;
+
+/**
+ * Where row writes go and are attributed: the profile (and its Garmin client),
+ * the sync or backfill run that made them and its tallies. With a `plan`
+ * the writes are collected there instead.
+ */
+type WriteContext = {
+  profileId: number;
+  garmin: GarminConnectClient;
+  syncId: number;
+  written: Record<TrackedTable, WriteCounts>;
+  plan?: ChangePlan;
+};
+
+type SyncResult = {
+  written: Record<TrackedTable, WriteCounts>;
+  fetched: Record<SyncDataType, number>;
+  skipped: Record<SyncDataType, number>;
+  errors: number;
+  dryRun?: true;
+  changes?: ChangePlan;
+};
+
+/** Per-run state threaded through the sync phases. */
+type SyncRun = WriteContext & {
+  logId: number;
+  options: SyncOptions;
+  fetched: Record<SyncDataType, number>;
+  skipped: Record<SyncDataType, number>;
+  errors: number;
+  report: ProgressReporter;
+  onItemError: ItemErrorHandler;
+};
+
+type ActivityWatermark = { activityId: number; startTime: string };
+
+function getMeta(key: string): string | null {
+  const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+function setMeta(key: string, value: string): void {
+  db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value);
+}
+
+function deleteMeta(key: string): void {
+  db.prepare('DELETE FROM meta WHERE key = ?').run(key);
+}
+
+/** Meta key of a profile's watermark for one data type. */
+function watermarkKey(profileId: number, type: SyncDataType): string {
+  return `profile:${profileId}:watermark:${type}`;
+}
+
+function getActivityWatermark(profileId: number): ActivityWatermark | null {
+  const value = getMeta(watermarkKey(profileId, 'activities'));
+  return value ? JSON.parse(value) as ActivityWatermark : null;
+}
+
+function dayString(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
+
+function addDays(day: string, delta: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + delta);
+  return dayString(date);
+}
+
+function emptyCounts(): Record<SyncDataType, number> {
+  return Object.fromEntries(SYNC_DATA_TYPES.map(type => [type, 0])) as Record<SyncDataType, number>;
+}
+
+function emptyWriteCounts(): Record<TrackedTable, WriteCounts> {
+  return {
+    activities: { inserted: 0, updated: 0, unchanged: 0 },
+    daily_metrics: { inserted: 0, updated: 0, unchanged: 0 },
+  };
+}
+
+function describeSyncResult(result: SyncResult): string {
+  const finalizedDays = Math.max(...WELLNESS_TYPES.map(t => result.skipped[t]));
+  const failed = result.errors > 0 ? `; ${result.errors} failed items` : '';
+  const { activities, daily_metrics: days } = result.written;
+  return `Activities ${activities.inserted} new, ${activities.updated} updated, ${activities.unchanged} unchanged; ` +
+    `days ${days.inserted} new, ${days.updated} updated, ${days.unchanged} unchanged; ` +
+    `skipped ${result.skipped.activities} known activities, ${finalizedDays} finalized days${failed}`;
+}
+
+function mfaRequiredMessage(profileId: number): string {
+  return profileId === DEFAULT_PROFILE_ID
+    ? 'Garmin login needs a verification code; run `bun cli.ts login` or POST /auth/login'
+    : `Garmin login of profile ${profileId} needs a verification code; run \`bun cli.ts --profile ${profileId} login\` or POST /profiles/${profileId}/auth/login`;
+}
+
+/**
+ * Logs the profile in unless tokens are stored; expired access tokens are
+ * refreshed per request. Once Garmin has asked for a code, syncs fail straight
+ * away instead of logging in again (and sending another code) until the login
+ * is finished.
+ */
+async function ensureAuthenticated(profileId: number): Promise<void> {
+  const garmin = garminClient(profileId);
+  if (garmin.auth.status().authenticated) return;
+  const profile = getProfile(profileId);
+  if (!profile) throw new Error(`Profile ${profileId} does not exist`);
+  if (profile.mfaRequiredAt) throw new GarminMfaRequiredError(mfaRequiredMessage(profileId));
+  const credentials = garminCredentials(profile);
+  if (!credentials) {
+    throw new Error(profileId === DEFAULT_PROFILE_ID
+      ? `Garmin credentials required: set GARMIN_USERNAME and GARMIN_PASSWORD, or save them to the ${credentialStore.kind} credential store`
+      : credentialStore.kind === 'env'
+        ? `Garmin credentials required: profile ${profileId} needs GARMIN_CREDENTIAL_STORE=keychain or db to keep its password`
+        : `Garmin credentials required: log profile ${profileId} in with its username and password to save them to the ${credentialStore.kind} credential store`);
+  }
+  let result: LoginResult;
+  try {
+    result = await garmin.login(credentials.username, credentials.password);
+  } catch (err) {
+    throw new Error(`Garmin authentication failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (result.mfaRequired) {
+    setMfaRequired(profileId, true);
+    throw new GarminMfaRequiredError(mfaRequiredMessage(profileId));
+  }
+}
+
+function setMfaRequired(profileId: number, required: boolean): void {
+  db.prepare('UPDATE profiles SET mfaRequiredAt = ? WHERE id = ?').run(required ? new Date().toISOString() : null, profileId);
+}
+
+const TRACKED_KEYS: Record<TrackedTable, string> = { activities: 'id', daily_metrics: 'day' };
+// Activity ids are unique across Garmin accounts, days only within a profile
+const TRACKED_PRIMARY_KEYS: Record<TrackedTable, string> = { activities: 'id', daily_metrics: 'profileId, day' };
+// Bookkeeping columns left out of the content hash and the changelog
+const UNTRACKED_COLUMNS = ['profileId', 'rawJson', 'contentHash'];
 
-  private async request(endpoint: string): Promise<unknown> {
-    if (!this.authed) {
-      throw new Error('Not authenticated');
+function trackedColumns(row: RowValues): RowValues {
+  return Object.fromEntries(Object.entries(row).filter(([name]) => !UNTRACKED_COLUMNS.includes(name)));
+}
+
+/**
+ * Upserts a normalized row, skipping the write when its content hash is
+ * unchanged and recording inserts and updates in the `changes` table.
+ * `values` may cover only some columns; the rest keep their stored values.
+ */
+function writeRow(
+  ctx: WriteContext,
+  table: TrackedTable,
+  key: string,
+  values: RowValues,
+  rawJson: (previous: string | null) => string
+): void {
+  const keyColumn = TRACKED_KEYS[table];
+  db.transaction(() => {
+    const existing = db.prepare(`SELECT * FROM ${table} WHERE profileId = ? AND ${keyColumn} = ?`).get(ctx.profileId, key) as RowValues | undefined;
+    const before = existing ? trackedColumns(existing) : null;
+    const after: RowValues = { ...before, ...values, [keyColumn]: key };
+    const hash = hashRow(after);
+    const previousHash = existing ? existing.contentHash ?? hashRow(before!) : null;
+
+    if (previousHash === hash) {
+      if (existing!.contentHash === null && !ctx.plan) {
+        // Row predates change tracking; store its hash without logging a change
+        db.prepare(`UPDATE ${table} SET contentHash = ? WHERE profileId = ? AND ${keyColumn} = ?`).run(hash, ctx.profileId, key);
+      }
+      ctx.written[table].unchanged++;
+      return;
     }
 
-    const url = `${this.baseUrl}/modern/proxy${endpoint}`;
-    const res = await fetch(url, {
-      headers: {
-        'cookie': this.sessionCookies,
-        'nk': 'NT', // Required header for Garmin API
-      },
+    const op = existing ? 'update' : 'insert';
+    ctx.written[table][op === 'insert' ? 'inserted' : 'updated']++;
+    if (ctx.plan) {
+      (ctx.plan[table] ??= []).push({ key, op, fields: diffRows(before, after) });
+      return;
+    }
+
+    const row: RowValues = {
+      ...after,
+      profileId: ctx.profileId,
+      rawJson: rawJson((existing?.rawJson as string | null) ?? null),
+      contentHash: hash,
+    };
+    const names = Object.keys(row);
+    db.prepare(`
+      INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})
+      ON CONFLICT(${TRACKED_PRIMARY_KEYS[table]}) DO UPDATE SET ${names.map(n => `${n} = excluded.${n}`).join(', ')}
+    `).run(...names.map(n => row[n]));
+    db.prepare(`
+      INSERT INTO changes (profileId, tableName, rowKey, op, changedFields, syncId, changedAt) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(ctx.profileId, table, key, op, JSON.stringify(diffRows(before, after)), ctx.syncId, new Date().toISOString());
+  })();
+}
+
+/** Stored rows of `table` matching every column of `scope`. */
+function storedRows(table: string, scope: RowValues): object[] {
+  const names = Object.keys(scope);
+  return db.prepare(`SELECT * FROM ${table} WHERE ${names.map(n => `${n} = ?`).join(' AND ')}`).all(...names.map(n => scope[n])) as object[];
+}
+
+/** Plan key of a row: its `names` columns joined with slashes. */
+function byColumns(...names: string[]): (row: RowValues) => string {
+  return row => names.map(name => row[name]).join('/');
+}
+
+/**
+ * Adds what replacing the `current` rows of `table` with `next` would change
+ * to a dry run's plan. Row ids and bookkeeping columns are left out and blobs
+ * are compared by digest.
+ */
+function planRows(plan: ChangePlan, table: string, current: object[], next: object[], keyOf: (row: RowValues) => string): void {
+  const comparable = (row: object): RowValues => Object.fromEntries(Object.entries(row)
+    .filter(([name]) => name !== 'id' && !UNTRACKED_COLUMNS.includes(name))
+    .map(([name, value]) => [name, value instanceof Uint8Array ? `sha256:${createHash('sha256').update(value).digest('hex')}` : value as RowValue]));
+  const changes = planReplacement(current.map(comparable), next.map(comparable), keyOf);
+  if (changes.length > 0) (plan[table] ??= []).push(...changes);
+}
+
+const CHANGES_PAGE_SIZE = 500;
+const MAX_CHANGES_PAGE_SIZE = 1000;
+
+type ChangeRow = { id: number; tableName: TrackedTable; rowKey: string; op: 'insert' | 'update' | 'delete'; changedAt: string };
+
+/**
+ * Rows of a profile changed after `since`, one entry per row carrying its
+ * latest operation and current values. Entries are ordered by their latest
+ * change id, so the last id on a page is the cursor for the next one.
+ */
+function changesSince(profileId: number, since: number, limit: number): { items: unknown[]; cursor: string; hasMore: boolean } {
+  const rows = db.prepare(`
+    SELECT c.id, c.tableName, c.rowKey, c.op, c.changedAt FROM changes c
+    JOIN (SELECT MAX(id) AS id FROM changes WHERE profileId = ? AND id > ? GROUP BY tableName, rowKey) latest ON latest.id = c.id
+    ORDER BY c.id LIMIT ?
+  `).all(profileId, since, limit + 1) as ChangeRow[];
+  const page = rows.slice(0, limit);
+  const items = page.map(change => {
+    const current = change.op === 'delete'
+      ? undefined
+      : db.prepare(`SELECT * FROM ${change.tableName} WHERE profileId = ? AND ${TRACKED_KEYS[change.tableName]} = ?`)
+        .get(profileId, change.rowKey) as RowValues | undefined;
+    return {
+      table: change.tableName,
+      key: change.rowKey,
+      op: change.op,
+      changedAt: change.changedAt,
+      row: current ? trackedColumns(current) : null,
+    };
+  });
+  return {
+    items,
+    cursor: String(page.length > 0 ? page[page.length - 1]!.id : since),
+    hasMore: rows.length > limit,
+  };
+}
+
+/** Replaces the stored laps of an activity. */
+function storeLaps(ctx: WriteContext, activityId: string, laps: GarminLap[]): void {
+  const rows = normalizeLaps(laps).map(lap => ({ activityId, ...lap }));
+  if (ctx.plan) {
+    return planRows(ctx.plan, 'activity_laps', storedRows('activity_laps', { activityId }), rows, byColumns('activityId', 'lapIndex'));
+  }
+  const insert = db.prepare(`
+    INSERT INTO activity_laps (activityId, lapIndex, startOffsetSeconds, durationSeconds, distanceMeters, averageHR, maxHR,
+                               avgPaceSecondsPerKm, averageCadence, elevationGain, elevationLoss)
+    VALUES (@activityId, @lapIndex, @startOffsetSeconds, @durationSeconds, @distanceMeters, @averageHR, @maxHR,
+            @avgPaceSecondsPerKm, @averageCadence, @elevationGain, @elevationLoss)
+  `);
+  db.transaction(() => {
+    db.prepare('DELETE FROM activity_laps WHERE activityId = ?').run(activityId);
+    for (const row of rows) {
+      insert.run(row);
+    }
+  })();
+}
+
+/** Replaces the stored metric streams of an activity; activities without samples have none. */
+function storeStreams(ctx: WriteContext, activityId: string, streams: Streams | null): void {
+  const encoded = streams ? encodeStreams(streams) : null;
+  if (ctx.plan) {
+    const rows = encoded ? [{ activityId, sampleCount: sampleCount(streams!), fields: JSON.stringify(encoded.fields), data: encoded.data }] : [];
+    return planRows(ctx.plan, 'activity_streams', storedRows('activity_streams', { activityId }), rows, byColumns('activityId'));
+  }
+  if (!encoded) {
+    db.prepare('DELETE FROM activity_streams WHERE activityId = ?').run(activityId);
+    return;
+  }
+  const { fields, data } = encoded;
+  db.prepare(`
+    INSERT INTO activity_streams (activityId, sampleCount, fields, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT(activityId) DO UPDATE SET sampleCount = excluded.sampleCount, fields = excluded.fields, data = excluded.data
+  `).run(activityId, sampleCount(streams!), JSON.stringify(fields), data);
+}
+
+/**
+ * Saves an original FIT archive under fit/<first two hash chars>/<sha256>.zip
+ * next to the database, then decodes it. Identical archives share one file.
+ */
+function storeFitArchive(ctx: WriteContext, activityId: string, archive: Buffer): void {
+  const sha256 = createHash('sha256').update(archive).digest('hex');
+  const relativePath = path.join('fit', sha256.slice(0, 2), `${sha256}.zip`);
+  if (ctx.plan) {
+    const file = { activityId, sha256, path: relativePath, size: archive.length };
+    planRows(ctx.plan, 'fit_files', storedRows('fit_files', { activityId }), [file], byColumns('activityId'));
+    try {
+      const rows = fitRows(activityId, decodeFitActivity(fitPayload(archive)));
+      for (const table of FIT_TABLES) {
+        planRows(ctx.plan, table, storedRows(table, { activityId }), rows[table], byColumns('activityId', FIT_INDEX_COLUMNS[table]));
+      }
+    } catch (err) {
+      console.warn(`[fit] Could not parse FIT file for activity ${activityId}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return;
+  }
+  const file = path.join(DATA_DIR, relativePath);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, archive);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+  db.prepare(`
+    INSERT INTO fit_files (activityId, sha256, path, size, downloadedAt) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(activityId) DO UPDATE SET sha256 = excluded.sha256, path = excluded.path, size = excluded.size,
+      downloadedAt = excluded.downloadedAt, parsedAt = NULL, parseError = NULL
+  `).run(activityId, sha256, relativePath, archive.length, new Date().toISOString());
+  parseStoredFit(activityId);
+}
+
+/** The .fit payload of a stored archive; Garmin occasionally serves the bare file. */
+function fitPayload(archive: Buffer): Buffer {
+  if (archive.toString('ascii', 8, 12) === '.FIT') return archive;
+  const entry = readZip(archive).find(e => e.name.toLowerCase().endsWith('.fit'));
+  if (!entry) throw new FitParseError('Archive contains no .fit file');
+  return entry.data;
+}
+
+const FIT_TABLES = ['fit_records', 'fit_laps', 'fit_sessions', 'fit_devices'] as const;
+type FitTable = typeof FIT_TABLES[number];
+const FIT_INDEX_COLUMNS: Record<FitTable, string> = {
+  fit_records: 'recordIndex',
+  fit_laps: 'lapIndex',
+  fit_sessions: 'sessionIndex',
+  fit_devices: 'deviceIndex',
+};
+
+/** The fit_* rows of a decoded activity. */
+function fitRows(activityId: string, activity: FitActivity): Record<FitTable, object[]> {
+  return {
+    fit_records: activity.records.map((record, recordIndex) => ({ activityId, recordIndex, ...record })),
+    fit_laps: activity.laps.map((lap, lapIndex) => ({ activityId, lapIndex, ...lap })),
+    fit_sessions: activity.sessions.map((session, sessionIndex) => ({ activityId, sessionIndex, ...session })),
+    fit_devices: activity.devices.map((device, index) => ({ activityId, ...device, deviceIndex: device.deviceIndex ?? index })),
+  };
+}
+
+/**
+ * Decodes the stored FIT file of an activity into the fit_* tables, replacing
+ * earlier results. Works offline. Returns false and records the error when
+ * the file cannot be read or decoded.
+ */
+function parseStoredFit(activityId: string): boolean {
+  const stored = db.prepare('SELECT path FROM fit_files WHERE activityId = ?').get(activityId) as { path: string } | undefined;
+  if (!stored) return false;
+  try {
+    const rows = fitRows(activityId, decodeFitActivity(fitPayload(fs.readFileSync(path.join(DATA_DIR, stored.path)))));
+    const insertRecord = db.prepare(`
+      INSERT INTO fit_records (activityId, recordIndex, timestamp, lat, lon, altitude, heartRate, cadence, distance, speed, power, temperature)
+      VALUES (@activityId, @recordIndex, @timestamp, @lat, @lon, @altitude, @heartRate, @cadence, @distance, @speed, @power, @temperature)
+    `);
+    const insertLap = db.prepare(`
+      INSERT INTO fit_laps (activityId, lapIndex, startTime, totalElapsedTime, totalTimerTime, totalDistance, totalCalories,
+                            avgSpeed, maxSpeed, avgHeartRate, maxHeartRate, avgCadence, totalAscent, totalDescent)
+      VALUES (@activityId, @lapIndex, @startTime, @totalElapsedTime, @totalTimerTime, @totalDistance, @totalCalories,
+              @avgSpeed, @maxSpeed, @avgHeartRate, @maxHeartRate, @avgCadence, @totalAscent, @totalDescent)
+    `);
+    const insertSession = db.prepare(`
+      INSERT INTO fit_sessions (activityId, sessionIndex, sport, subSport, startTime, totalElapsedTime, totalTimerTime, totalDistance,
+                                totalCalories, avgSpeed, maxSpeed, avgHeartRate, maxHeartRate, avgCadence, avgPower,
+                                totalAscent, totalDescent, totalTrainingEffect)
+      VALUES (@activityId, @sessionIndex, @sport, @subSport, @startTime, @totalElapsedTime, @totalTimerTime, @totalDistance,
+              @totalCalories, @avgSpeed, @maxSpeed, @avgHeartRate, @maxHeartRate, @avgCadence, @avgPower,
+              @totalAscent, @totalDescent, @totalTrainingEffect)
+    `);
+    // Device messages repeat through the file; the last one per device index wins
+    const insertDevice = db.prepare(`
+      INSERT OR REPLACE INTO fit_devices (activityId, deviceIndex, manufacturer, product, serialNumber, softwareVersion, batteryStatus)
+      VALUES (@activityId, @deviceIndex, @manufacturer, @product, @serialNumber, @softwareVersion, @batteryStatus)
+    `);
+    db.transaction(() => {
+      for (const table of FIT_TABLES) {
+        db.prepare(`DELETE FROM ${table} WHERE activityId = ?`).run(activityId);
+      }
+      for (const row of rows.fit_records) insertRecord.run(row);
+      for (const row of rows.fit_laps) insertLap.run(row);
+      for (const row of rows.fit_sessions) insertSession.run(row);
+      for (const row of rows.fit_devices) insertDevice.run(row);
+      db.prepare('UPDATE fit_files SET parsedAt = ?, parseError = NULL WHERE activityId = ?').run(new Date().toISOString(), activityId);
+    })();
+    return true;
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    db.prepare('UPDATE fit_files SET parsedAt = ?, parseError = ? WHERE activityId = ?').run(new Date().toISOString(), errorMsg, activityId);
+    console.warn(`[fit] Could not parse FIT file for activity ${activityId}: ${errorMsg}`);
+    return false;
+  }
+}
+
+async function storeActivity(ctx: WriteContext, act: GarminActivity, prefetched?: GarminActivityDetail): Promise<void> {
+  const { garmin } = ctx;
+  // Fetch detailed activity data for advanced metrics
+  const detail = prefetched ?? await garmin.getActivityDetail(act.activityId);
+  const splits = await garmin.getActivitySplits(act.activityId);
+  const details = await garmin.getActivityDetails(act.activityId);
+  const streams = details ? parseActivityDetails(details) : null;
+
+  writeRow(ctx, 'activities', String(act.activityId), {
+    provider: 'garmin',
+    startTime: act.startTimeLocal,
+    startTimeGMT: act.startTimeGMT ?? detail?.summaryDTO?.startTimeGMT ?? null,
+    type: act.activityType?.typeKey || 'unknown',
+    name: act.activityName,
+    distanceMeters: act.distance || 0,
+    durationSeconds: act.duration,
+    calories: act.calories || 0,
+    averageHR: detail?.averageHR ?? null,
+    maxHR: detail?.maxHR ?? null,
+    averageSpeed: detail?.averageSpeed ?? null,
+    maxSpeed: detail?.maxSpeed ?? null,
+    elevationGain: detail?.elevationGain ?? null,
+    elevationLoss: detail?.elevationLoss ?? null,
+    description: detail?.description ?? null,
+    locationName: detail?.locationName ?? null,
+  }, () => JSON.stringify({ summary: act, detail }));
+  storeLaps(ctx, String(act.activityId), splits?.lapDTOs ?? []);
+  storeStreams(ctx, String(act.activityId), streams);
+  // The original upload never changes, so it is downloaded once
+  if (DOWNLOAD_FIT && !db.prepare('SELECT 1 FROM fit_files WHERE activityId = ?').get(String(act.activityId))) {
+    const archive = await garmin.getActivityFit(act.activityId);
+    if (archive) storeFitArchive(ctx, String(act.activityId), archive);
+  }
+}
+
+/**
+ * Lists activities newer than the stored watermark, paging until a known
+ * activity is reached. Without a watermark only the most recent page is taken.
+ */
+async function fetchNewActivities(ctx: WriteContext): Promise<{ items: GarminActivity[]; skipped: number }> {
+  const { garmin } = ctx;
+  const watermark = getActivityWatermark(ctx.profileId);
+  if (!watermark) {
+    return { items: await garmin.getActivities(INITIAL_ACTIVITY_LIMIT), skipped: 0 };
+  }
+
+  const items: GarminActivity[] = [];
+  for (let start = 0; ; start += ACTIVITY_PAGE_SIZE) {
+    const page = await garmin.getActivities(ACTIVITY_PAGE_SIZE, start);
+    const fresh = page.filter(act =>
+      act.activityId !== watermark.activityId && act.startTimeLocal > watermark.startTime
+    );
+    items.push(...fresh);
+    if (fresh.length < page.length || page.length < ACTIVITY_PAGE_SIZE) {
+      return { items, skipped: page.length - fresh.length };
+    }
+  }
+}
+
+async function fetchWellness(garmin: GarminConnectClient, type: WellnessType, day: string): Promise<unknown> {
+  switch (type) {
+    case 'summary': return garmin.getDailySummary(day);
+    case 'hrv': return garmin.getHrvData(day);
+    case 'sleep': return garmin.getSleepData(day);
+    case 'bodyBattery': return garmin.getBodyBatteryData(day);
+    case 'stress': return garmin.getStressData(day);
+    case 'heartRate': return garmin.getHeartRateData(day);
+    case 'performance': return garmin.getPerformanceData(day);
+    case 'bodyComposition': return garmin.getWeighIns(day);
+  }
+}
+
+function bodyBatterySamples(data: BodyBatteryData): Sample[] {
+  const descriptor = data.bodyBatteryValueDescriptorDTOList?.find(d => d.bodyBatteryValueDescriptorKey === 'bodyBatteryLevel');
+  // Without descriptors, rows are [timestamp, level] or [timestamp, status, level, version]
+  const index = descriptor?.bodyBatteryValueDescriptorIndex ??
+    (typeof data.bodyBatteryValuesArray?.[0]?.[1] === 'string' ? 2 : 1);
+  return parseSampleArray(data.bodyBatteryValuesArray, index);
+}
+
+/** Stress readings; negative values (off-wrist, too active) are dropped. */
+function stressSamples(data: StressData): Sample[] {
+  return parseSampleArray(data.stressValuesArray);
+}
+
+/** Maps a wellness payload onto the daily_metrics columns it owns. */
+function wellnessColumns(type: WellnessType, data: unknown): Record<string, string | number | null> {
+  switch (type) {
+    case 'summary': {
+      const summary = data as DailySummary;
+      return {
+        steps: summary.steps ?? 0,
+        restingHeartRate: summary.restingHeartRate ?? null,
+        bodyBattery: summary.bodyBattery?.lastDayValue ?? null,
+        sleepSeconds: summary.sleepTimeInSeconds ?? null,
+      };
+    }
+    case 'sleep': {
+      const dto = (data as SleepData).dailySleepDTO;
+      return {
+        sleepScore: dto?.sleepScore?.value ?? null,
+        deepSleepSeconds: dto?.deepSleepSeconds ?? null,
+        lightSleepSeconds: dto?.lightSleepSeconds ?? null,
+        remSleepSeconds: dto?.remSleepSeconds ?? null,
+        awakeSleepSeconds: dto?.awakeSleepSeconds ?? null,
+        avgSpO2: dto?.averageSpO2Value ?? null,
+        avgRespiration: dto?.averageRespirationValue ?? null,
+      };
+    }
+    case 'stress': {
+      const stress = data as StressData;
+      const levels = summarizeLevels(stressSamples(stress));
+      return {
+        avgStressLevel: stress.avgStressLevel ?? null,
+        stressPeak: stress.maxStressLevel ?? levels?.peak ?? null,
+      };
+    }
+    case 'hrv':
+      return { hrvStatus: parseHrvSummary(data as GarminHrvData).status };
+    case 'bodyBattery': {
+      const bodyBattery = data as BodyBatteryData;
+      const levels = summarizeLevels(bodyBatterySamples(bodyBattery));
+      return {
+        bodyBatteryCharged: bodyBattery.charged ?? levels?.charged ?? null,
+        bodyBatteryDrained: bodyBattery.drained ?? levels?.drained ?? null,
+        bodyBatteryPeak: levels?.peak ?? null,
+        bodyBatteryLow: levels?.low ?? null,
+      };
+    }
+    case 'heartRate':
+    case 'performance':
+    case 'bodyComposition':
+      return {};
+  }
+}
+
+/** Replaces a day's rows in an intraday sample table. */
+function storeDaySamples(ctx: WriteContext, table: string, valueColumn: string, day: string, samples: Sample[]): void {
+  const { profileId } = ctx;
+  if (ctx.plan) {
+    const rows = samples.map(sample => ({ timestamp: sample.timestamp, day, [valueColumn]: sample.value }));
+    return planRows(ctx.plan, table, storedRows(table, { profileId, day }), rows, byColumns('timestamp'));
+  }
+  const insert = db.prepare(`INSERT OR REPLACE INTO ${table} (profileId, timestamp, day, ${valueColumn}) VALUES (?, ?, ?, ?)`);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM ${table} WHERE profileId = ? AND day = ?`).run(profileId, day);
+    for (const sample of samples) {
+      insert.run(profileId, sample.timestamp, day, sample.value);
+    }
+  })();
+}
+
+// Types whose payload is kept in its own table rather than in rawJson
+const OWN_TABLE_TYPES: readonly WellnessType[] = ['heartRate', 'bodyBattery', 'stress', 'performance', 'bodyComposition'];
+
+/**
+ * Replaces the sleep sessions built from one day's payload. Sessions are keyed
+ * by the day they ended, which is usually but not always the requested day.
+ */
+function storeSleepSessions(ctx: WriteContext, day: string, data: SleepData): void {
+  const { profileId } = ctx;
+  const sessions = buildSleepSessions(data, day);
+  const days = new Set([day, ...sessions.map(session => session.day)]);
+  if (ctx.plan) {
+    // Stages are keyed by their session, whose id a replacement does not keep
+    const sessionKey = byColumns('day', 'kind', 'startTimestamp');
+    const storedSessions = [...days].flatMap(d => storedRows('sleep_sessions', { profileId, day: d }));
+    const storedStages = [...days].flatMap(d => db.prepare(`
+      SELECT s.day || '/' || s.kind || '/' || s.startTimestamp AS session, st.stageIndex, st.stage, st.startTimestamp, st.endTimestamp
+      FROM sleep_stages st JOIN sleep_sessions s ON s.id = st.sessionId
+      WHERE s.profileId = ? AND s.day = ?
+    `).all(profileId, d) as object[]);
+    const rows = sessions.map(session => ({
+      day: session.day,
+      kind: session.kind,
+      startTimestamp: session.start,
+      endTimestamp: session.end,
+      durationSeconds: Math.round((session.end - session.start) / 1000),
+    }));
+    const stages = sessions.flatMap((session, i) => session.stages.map((stage, stageIndex) => ({
+      session: sessionKey(rows[i]!), stageIndex, stage: stage.stage, startTimestamp: stage.start, endTimestamp: stage.end,
+    })));
+    planRows(ctx.plan, 'sleep_sessions', storedSessions, rows, sessionKey);
+    planRows(ctx.plan, 'sleep_stages', storedStages, stages, byColumns('session', 'stageIndex'));
+    return;
+  }
+  const insertSession = db.prepare(`
+    INSERT INTO sleep_sessions (profileId, day, kind, startTimestamp, endTimestamp, durationSeconds) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertStage = db.prepare(`
+    INSERT INTO sleep_stages (sessionId, stageIndex, stage, startTimestamp, endTimestamp) VALUES (?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const d of days) {
+      db.prepare('DELETE FROM sleep_stages WHERE sessionId IN (SELECT id FROM sleep_sessions WHERE profileId = ? AND day = ?)').run(profileId, d);
+      db.prepare('DELETE FROM sleep_sessions WHERE profileId = ? AND day = ?').run(profileId, d);
+    }
+    for (const session of sessions) {
+      const { lastInsertRowid } = insertSession.run(
+        profileId, session.day, session.kind, session.start, session.end, Math.round((session.end - session.start) / 1000)
+      );
+      session.stages.forEach((stage, i) => insertStage.run(lastInsertRowid, i, stage.stage, stage.start, stage.end));
+    }
+  })();
+}
+
+/** Upserts the nightly HRV summary and replaces that night's 5-minute readings. */
+function storeHrvNight(ctx: WriteContext, day: string, data: GarminHrvData): void {
+  const { profileId } = ctx;
+  const night = parseHrvSummary(data);
+  if (ctx.plan) {
+    planRows(ctx.plan, 'hrv_daily', storedRows('hrv_daily', { profileId, day }), [{ day, ...night }], byColumns('day'));
+  } else {
+    db.prepare(`
+      INSERT INTO hrv_daily (profileId, day, lastNightAvg, lastNight5MinHigh, weeklyAvg, baselineLow, baselineHigh, status)
+      VALUES (@profileId, @day, @lastNightAvg, @lastNight5MinHigh, @weeklyAvg, @baselineLow, @baselineHigh, @status)
+      ON CONFLICT(profileId, day) DO UPDATE SET
+        lastNightAvg = excluded.lastNightAvg,
+        lastNight5MinHigh = excluded.lastNight5MinHigh,
+        weeklyAvg = excluded.weeklyAvg,
+        baselineLow = excluded.baselineLow,
+        baselineHigh = excluded.baselineHigh,
+        status = excluded.status
+    `).run({ profileId, day, ...night });
+  }
+  storeDaySamples(ctx, 'hrv_readings', 'hrv', day, parseHrvReadings(data));
+}
+
+function storePerformanceDay(ctx: WriteContext, day: string, fetched: GarminPerformanceDay): void {
+  const { profileId } = ctx;
+  const previous = fetched.failed
+    ? db.prepare('SELECT rawJson FROM performance_metrics WHERE profileId = ? AND day = ?').get(profileId, day) as { rawJson: string } | undefined
+    : undefined;
+  const data = withPreviousResponses(fetched, previous ? JSON.parse(previous.rawJson) as GarminPerformanceDay : null);
+  const metrics = parsePerformanceDay(data);
+  if (!metrics) return;
+  if (ctx.plan) {
+    return planRows(ctx.plan, 'performance_metrics', storedRows('performance_metrics', { profileId, day }), [{ day, ...metrics }], byColumns('day'));
+  }
+  db.prepare(`
+    INSERT OR REPLACE INTO performance_metrics (profileId, day, ${PERFORMANCE_COLUMNS.join(', ')}, rawJson)
+    VALUES (@profileId, @day, ${PERFORMANCE_COLUMNS.map(column => `@${column}`).join(', ')}, @rawJson)
+  `).run({ profileId, day, ...metrics, rawJson: JSON.stringify(data) });
+}
+
+function insertBodyComposition(profileId: number, provider: WeighInProvider, entry: BodyComposition): number {
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO body_composition (profileId, provider, sourceId, day, timestamp, ${BODY_COMPOSITION_FIELDS.join(', ')}, sourceType, createdAt)
+    VALUES (@profileId, @provider, @sourceId, @day, @timestamp, ${BODY_COMPOSITION_FIELDS.map(field => `@${field}`).join(', ')}, @sourceType, @createdAt)
+  `).run({ ...entry, profileId, provider, createdAt: new Date().toISOString() });
+  return Number(lastInsertRowid);
+}
+
+/**
+ * Replaces the day's Garmin weigh-ins. An entry Garmin files under another
+ * calendar day replaces its earlier copy there, found by sample id or, without
+ * one, by time. Manual entries are never touched by a sync.
+ */
+function storeWeighIns(ctx: WriteContext, day: string, data: GarminWeighInDay): void {
+  const { profileId } = ctx;
+  const entries = parseWeighIns(data, day);
+  if (ctx.plan) {
+    const provider = 'garmin';
+    const replaced = new Map<number, object>();
+    for (const row of [
+      ...storedRows('body_composition', { profileId, provider, day }),
+      ...entries.flatMap(entry => entry.sourceId !== null
+        ? storedRows('body_composition', { profileId, provider, sourceId: entry.sourceId })
+        : storedRows('body_composition', { profileId, provider, day: entry.day, timestamp: entry.timestamp })),
+    ] as Array<{ id: number }>) {
+      replaced.set(row.id, row);
+    }
+    const weighInKey = (row: RowValues) => String(row.sourceId ?? `${row.day}/${row.timestamp}`);
+    return planRows(ctx.plan, 'body_composition', [...replaced.values()], entries.map(entry => ({ provider, ...entry })), weighInKey);
+  }
+  const bySource = db.prepare("DELETE FROM body_composition WHERE profileId = ? AND provider = 'garmin' AND sourceId = ?");
+  const byTime = db.prepare("DELETE FROM body_composition WHERE profileId = ? AND provider = 'garmin' AND day = ? AND timestamp = ?");
+  db.transaction(() => {
+    db.prepare("DELETE FROM body_composition WHERE profileId = ? AND provider = 'garmin' AND day = ?").run(profileId, day);
+    for (const entry of entries) {
+      if (entry.sourceId !== null) bySource.run(profileId, entry.sourceId);
+      else byTime.run(profileId, entry.day, entry.timestamp);
+      insertBodyComposition(profileId, 'garmin', entry);
+    }
+  })();
+}
+
+/**
+ * Writes the fetched wellness types for a day as one row update. Columns and
+ * raw payloads owned by types that were not fetched are left untouched, so
+ * each type can be re-pulled on its own schedule.
+ */
+function storeWellnessDay(ctx: WriteContext, day: string, payloads: Partial<Record<WellnessType, unknown>>): void {
+  const types = Object.keys(payloads) as WellnessType[];
+  if (types.length === 0) return;
+  const values: RowValues = {};
+  for (const type of types) {
+    Object.assign(values, wellnessColumns(type, payloads[type]));
+  }
+  const rawPayloads = Object.fromEntries(Object.entries(payloads).filter(([type]) => !OWN_TABLE_TYPES.includes(type as WellnessType)));
+  if (Object.keys(values).length > 0 || Object.keys(rawPayloads).length > 0) {
+    writeRow(ctx, 'daily_metrics', day, values, previous => {
+      const raw = previous ? JSON.parse(previous) as Record<string, unknown> : {};
+      return JSON.stringify({ ...raw, ...rawPayloads });
     });
+  }
+  if (payloads.heartRate) {
+    storeDaySamples(ctx, 'heart_rate_samples', 'bpm', day, parseSampleArray((payloads.heartRate as HeartRateData).heartRateValues));
+  }
+  if (payloads.bodyBattery) {
+    storeDaySamples(ctx, 'body_battery_samples', 'level', day, bodyBatterySamples(payloads.bodyBattery as BodyBatteryData));
+  }
+  if (payloads.stress) {
+    storeDaySamples(ctx, 'stress_samples', 'level', day, stressSamples(payloads.stress as StressData));
+  }
+  if (payloads.sleep) {
+    storeSleepSessions(ctx, day, payloads.sleep as SleepData);
+  }
+  if (payloads.hrv) {
+    storeHrvNight(ctx, day, payloads.hrv as GarminHrvData);
+  }
+  if (payloads.performance) {
+    storePerformanceDay(ctx, day, payloads.performance as GarminPerformanceDay);
+  }
+  if (payloads.bodyComposition) {
+    storeWeighIns(ctx, day, payloads.bodyComposition as GarminWeighInDay);
+  }
+}
 
-    if (res.status === 401 || res.status === 403) {
-      this.authed = false;
-      throw new Error('Session expired');
+/** Fetches the given wellness types for one day and stores them; returns the types that failed. */
+async function syncWellnessDay(
+  ctx: WriteContext,
+  day: string,
+  types: readonly WellnessType[],
+  onItemError: ItemErrorHandler
+): Promise<WellnessType[]> {
+  const results = await Promise.allSettled(types.map(t => fetchWellness(ctx.garmin, t, day)));
+  const payloads: Partial<Record<WellnessType, unknown>> = {};
+  const failed: WellnessType[] = [];
+  types.forEach((type, i) => {
+    const result = results[i]!;
+    if (result.status === 'rejected') {
+      if (!isItemError(result.reason)) throw result.reason;
+      onItemError({ dataType: type, day }, result.reason);
+      failed.push(type);
+    } else if (result.value) {
+      payloads[type] = result.value;
     }
+  });
+  storeWellnessDay(ctx, day, payloads);
+  return failed;
+}
 
-    if (!res.ok) {
-      throw new Error(`API error: ${res.status}`);
+/** Lists activities that started within [from, to], paging until older ones are reached. */
+async function fetchActivitiesInRange(garmin: GarminConnectClient, from: string, to: string): Promise<GarminActivity[]> {
+  const items: GarminActivity[] = [];
+  for (let start = 0; ; start += ACTIVITY_PAGE_SIZE) {
+    const page = await garmin.getActivities(ACTIVITY_PAGE_SIZE, start);
+    items.push(...page.filter(act => {
+      const day = act.startTimeLocal.slice(0, 10);
+      return day >= from && day <= to;
+    }));
+    if (page.length < ACTIVITY_PAGE_SIZE || page[page.length - 1]!.startTimeLocal.slice(0, 10) < from) {
+      return items;
     }
+  }
+}
 
-    return res.json();
+/** Re-pulls one activity by id, e.g. after it was edited on Garmin Connect. */
+async function refreshActivity(ctx: WriteContext, activityId: string): Promise<boolean> {
+  const detail = await ctx.garmin.getActivityDetail(Number(activityId));
+  if (!detail) return false;
+  const stored = db.prepare('SELECT startTime, startTimeGMT, durationSeconds, distanceMeters, calories, type FROM activities WHERE id = ?')
+    .get(activityId) as { startTime: string; startTimeGMT: string | null; durationSeconds: number; distanceMeters: number; calories: number; type: string } | undefined;
+  await storeActivity(ctx, {
+    activityId: detail.activityId,
+    activityName: detail.activityName,
+    startTimeLocal: detail.summaryDTO?.startTimeLocal ?? stored?.startTime ?? '',
+    startTimeGMT: detail.summaryDTO?.startTimeGMT ?? stored?.startTimeGMT ?? undefined,
+    duration: detail.summaryDTO?.duration ?? stored?.durationSeconds ?? 0,
+    distance: detail.summaryDTO?.distance ?? stored?.distanceMeters,
+    calories: detail.summaryDTO?.calories ?? stored?.calories,
+    activityType: detail.activityTypeDTO ?? (stored ? { typeKey: stored.type } : undefined),
+  }, detail);
+  return true;
+}
+
+/** Runs `fn` for one item, routing a per-item Garmin failure to the run's ledger. */
+function attempt(run: SyncRun, item: SyncItem, fn: () => Promise<void>): Promise<boolean> {
+  return attemptItem(item, fn, run.onItemError);
+}
+
+async function syncActivities(run: SyncRun): Promise<void> {
+  const { options, fetched, skipped, report } = run;
+  if (options.activityIds) {
+    const ids = options.activityIds;
+    report({ type: 'progress', phase: 'activities', done: 0, total: ids.length });
+    for (const [i, id] of ids.entries()) {
+      await attempt(run, { dataType: 'activities', activityId: id }, async () => {
+        if (await refreshActivity(run, id)) {
+          fetched.activities++;
+        } else {
+          report({ type: 'warning', phase: 'activities', item: id, message: 'Activity not found on Garmin Connect' });
+        }
+      });
+      report({ type: 'progress', phase: 'activities', done: i + 1, total: ids.length, item: id });
+    }
+    return;
   }
 
-  async getActivities(limit: number = 20): Promise<GarminActivity[]> {
-    const data = await this.request(`/activitylist-service/activities/search/activities?start=0&limit=${limit}`);
-    return data as GarminActivity[];
+  const ranged = options.from || options.to;
+  // Sync activities newer than the watermark, or everything inside an explicit range
+  let listing: { items: GarminActivity[]; skipped: number } = { items: [], skipped: 0 };
+  const listed = await attempt(run, { dataType: 'activities' }, async () => {
+    listing = ranged
+      ? { items: await fetchActivitiesInRange(run.garmin, options.from ?? options.to!, options.to ?? dayString(new Date())), skipped: 0 }
+      : await fetchNewActivities(run);
+  });
+  if (!listed) return;
+  const activities = listing.items;
+  skipped.activities = listing.skipped;
+  report({ type: 'progress', phase: 'activities', done: 0, total: activities.length });
+  const failedStarts: string[] = [];
+  const stored: GarminActivity[] = [];
+  for (const [i, act] of activities.entries()) {
+    const ok = await attempt(run, { dataType: 'activities', activityId: String(act.activityId) }, () => storeActivity(run, act));
+    if (ok) {
+      fetched.activities++;
+      stored.push(act);
+    } else {
+      failedStarts.push(act.startTimeLocal);
+    }
+    report({ type: 'progress', phase: 'activities', done: i + 1, total: activities.length, item: String(act.activityId) });
   }
+  if (ranged) return;
+  // Never move the watermark past an activity that failed to store
+  const oldestFailure = failedStarts.sort()[0];
+  const newest = stored
+    .filter(act => oldestFailure === undefined || act.startTimeLocal < oldestFailure)
+    .reduce<GarminActivity | null>((best, act) => (!best || act.startTimeLocal > best.startTimeLocal ? act : best), null);
+  if (newest && !run.plan) {
+    setMeta(watermarkKey(run.profileId, 'activities'), JSON.stringify({ activityId: newest.activityId, startTime: newest.startTimeLocal }));
+  }
+}
 
-  async getActivityDetail(activityId: number): Promise<GarminActivityDetail | null> {
-    try {
-      const data = await this.request(`/activity-service/activity/${activityId}`);
-      return data as GarminActivityDetail;
-    } catch {
-      return null;
+async function syncWellness(run: SyncRun, wellnessTypes: readonly WellnessType[]): Promise<void> {
+  const { options, fetched, skipped, report } = run;
+  const today = dayString(new Date());
+  const ranged = Boolean(options.from || options.to);
+  const lastDay = options.to ?? today;
+  const finalizedThrough = addDays(today, -SYNC_RECHECK_DAYS);
+  const windowStart = addDays(today, -(INITIAL_SYNC_DAYS - 1));
+  const startDay = {} as Record<WellnessType, string>;
+  for (const type of wellnessTypes) {
+    if (ranged) {
+      // An explicit range ignores the watermarks and leaves them untouched
+      startDay[type] = options.from ?? options.to!;
+      continue;
     }
+    // Days after each type's last finalized day, always re-checking recent days
+    const watermark = getMeta(watermarkKey(run.profileId, type));
+    const start = watermark ? addDays(watermark, 1) : windowStart;
+    startDay[type] = start <= finalizedThrough ? start : addDays(finalizedThrough, 1);
+    skipped[type] = startDay[type] > windowStart
+      ? Math.round((Date.parse(startDay[type]) - Date.parse(windowStart)) / 86400000)
+      : 0;
   }
 
-  async getDailySummary(date: string): Promise<DailySummary | null> {
-    try {
-      const data = await this.request(`/wellness-service/wellness/dailySummary/${date}`);
-      return data as DailySummary;
-    } catch {
-      return null;
+  const firstFailure = {} as Partial<Record<WellnessType, string>>;
+  const firstDay = wellnessTypes.map(t => startDay[t]).sort()[0]!;
+  const totalDays = Math.round((Date.parse(lastDay) - Date.parse(firstDay)) / 86400000) + 1;
+  let daysDone = 0;
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    const types = wellnessTypes.filter(t => day >= startDay[t]);
+    types.forEach(type => fetched[type]++);
+    const failed = await syncWellnessDay(run, day, types, run.onItemError);
+    for (const type of failed) {
+      firstFailure[type] ??= day;
+    }
+    report({ type: 'progress', phase: 'days', done: ++daysDone, total: totalDays, item: day });
+  }
+  if (!ranged && !run.plan) {
+    for (const type of wellnessTypes) {
+      // Hold the watermark before the first failed day so it is fetched again
+      const failure = firstFailure[type];
+      const finalized = failure && failure <= finalizedThrough ? addDays(failure, -1) : finalizedThrough;
+      if (startDay[type] <= finalized) {
+        setMeta(watermarkKey(run.profileId, type), finalized);
+      }
     }
   }
+}
 
-  async getHrvData(date: string): Promise<{ status: string } | null> {
-    try {
-      const data = await this.request(`/hrv-service/hrv/${date}`);
-      return data as { status: string };
-    } catch {
-      return null;
+/** Replaces the gear list and its activity links with Garmin's current state. */
+async function syncGear(run: SyncRun): Promise<void> {
+  const { garmin, profileId } = run;
+  const list = await garmin.getGear();
+  const items: Array<{ item: GearItem; raw: GarminGear; activityIds: string[] }> = [];
+  for (const raw of list) {
+    const stats = await garmin.getGearStats(raw.uuid);
+    items.push({ item: parseGear(raw, stats), raw, activityIds: await garmin.getGearActivityIds(raw.uuid) });
+  }
+  run.fetched.gear += items.length;
+  if (run.plan) {
+    const links = items.flatMap(({ item, activityIds }) => activityIds.map(activityId => ({ activityId, gearUuid: item.uuid })));
+    planRows(run.plan, 'gear', storedRows('gear', { profileId }), items.map(({ item }) => item), byColumns('uuid'));
+    planRows(run.plan, 'activity_gear', db.prepare(`
+      SELECT activity_gear.* FROM activity_gear JOIN gear ON gear.uuid = activity_gear.gearUuid WHERE gear.profileId = ?
+    `).all(profileId) as object[], links, byColumns('gearUuid', 'activityId'));
+    return;
+  }
+
+  const upsert = db.prepare(`
+    INSERT OR REPLACE INTO gear (profileId, uuid, name, type, make, model, status, dateBegin, dateEnd, maximumMeters, distanceMeters, activityCount, rawJson)
+    VALUES (@profileId, @uuid, @name, @type, @make, @model, @status, @dateBegin, @dateEnd, @maximumMeters, @distanceMeters, @activityCount, @rawJson)
+  `);
+  const link = db.prepare('INSERT OR IGNORE INTO activity_gear (activityId, gearUuid) VALUES (?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM activity_gear WHERE gearUuid IN (SELECT uuid FROM gear WHERE profileId = ?)').run(profileId);
+    db.prepare(`DELETE FROM gear WHERE profileId = ? AND uuid NOT IN (${items.map(() => '?').join(', ')})`)
+      .run(profileId, ...items.map(({ item }) => item.uuid));
+    for (const { item, raw, activityIds } of items) {
+      upsert.run({ ...item, profileId, rawJson: JSON.stringify(raw) });
+      for (const activityId of activityIds) link.run(activityId, item.uuid);
     }
+  })();
+}
+
+async function syncRecords(run: SyncRun): Promise<void> {
+  const records = parseRecords(await run.garmin.getPersonalRecords());
+  run.fetched.records += records.length;
+  if (run.plan) {
+    return planRows(run.plan, 'personal_records', storedRows('personal_records', { profileId: run.profileId }), records, byColumns('typeId'));
   }
 
-  async getSleepData(date: string): Promise<SleepData | null> {
-    try {
-      const data = await this.request(`/wellness-service/wellness/dailySleep/${date}`);
-      return data as SleepData;
-    } catch {
-      return null;
+  const insert = db.prepare(`
+    INSERT INTO personal_records (profileId, typeId, recordKey, label, unit, value, activityId, activityName, activityType, achievedAt)
+    VALUES (@profileId, @typeId, @recordKey, @label, @unit, @value, @activityId, @activityName, @activityType, @achievedAt)
+  `);
+  db.transaction(() => {
+    db.prepare('DELETE FROM personal_records WHERE profileId = ?').run(run.profileId);
+    for (const record of records) insert.run({ ...record, profileId: run.profileId });
+  })();
+}
+
+async function syncProfileData(run: SyncRun, types: readonly ProfileType[]): Promise<void> {
+  for (const type of types) {
+    run.report({ type: 'progress', phase: type, done: 0, total: 1 });
+    await attempt(run, { dataType: type }, () => type === 'gear' ? syncGear(run) : syncRecords(run));
+    run.report({ type: 'progress', phase: type, done: 1, total: 1 });
+  }
+}
+
+/** Re-fetches one failed item of an earlier sync, see retryFailedItems. */
+async function retryItem(run: SyncRun, item: SyncItem): Promise<void> {
+  if (item.dataType === 'activities') {
+    if (item.activityId) {
+      if (await refreshActivity(run, item.activityId)) run.fetched.activities++;
+    } else {
+      // The activity listing itself failed; run the normal incremental pass
+      await syncActivities({ ...run, options: { profileId: run.profileId } });
     }
+    return;
+  }
+  if (item.dataType === 'gear' || item.dataType === 'records') {
+    await (item.dataType === 'gear' ? syncGear(run) : syncRecords(run));
+    return;
+  }
+  const data = await fetchWellness(run.garmin, item.dataType, item.day!);
+  run.fetched[item.dataType]++;
+  if (data) {
+    storeWellnessDay(run, item.day!, { [item.dataType]: data });
   }
+}
 
-  async getBodyBatteryData(date: string): Promise<BodyBatteryData | null> {
-    try {
-      const data = await this.request(`/wellness-service/wellness/dailyBodyBattery/${date}`);
-      return data as BodyBatteryData;
-    } catch {
-      return null;
+async function syncGarminData(options: SyncOptions, logId: number, report: ProgressReporter = () => {}): Promise<SyncResult> {
+  await ensureAuthenticated(options.profileId);
+
+  const run: SyncRun = {
+    profileId: options.profileId,
+    garmin: garminClient(options.profileId),
+    logId,
+    syncId: logId,
+    written: emptyWriteCounts(),
+    plan: options.dryRun ? {} : undefined,
+    options,
+    fetched: emptyCounts(),
+    skipped: emptyCounts(),
+    errors: 0,
+    report,
+    onItemError: (item, err) => {
+      run.errors++;
+      // A dry run leaves no failed items behind to retry
+      if (!options.dryRun) recordSyncError(db, logId, item, err);
+      report({ type: 'warning', phase: item.dataType, item: item.activityId ?? item.day, message: err.message });
+    },
+  };
+
+  if (options.retryOf !== undefined) {
+    await retryFailedItems(
+      db,
+      options.retryOf,
+      logId,
+      (item, onItemError) => retryItem({ ...run, onItemError }, item),
+      run.onItemError,
+      (done, total, item) => report({ type: 'progress', phase: 'retry', done, total, item }),
+    );
+  } else {
+    const types = options.types ?? SYNC_DATA_TYPES;
+    if (types.includes('activities')) {
+      await syncActivities(run);
+    }
+    const wellnessTypes = WELLNESS_TYPES.filter(t => types.includes(t));
+    if (wellnessTypes.length > 0) {
+      await syncWellness(run, wellnessTypes);
+    }
+    const profileTypes = PROFILE_TYPES.filter(t => types.includes(t));
+    if (profileTypes.length > 0) {
+      await syncProfileData(run, profileTypes);
+    }
+  }
+
+  const result: SyncResult = { written: run.written, fetched: run.fetched, skipped: run.skipped, errors: run.errors };
+  if (run.plan) {
+    result.dryRun = true;
+    result.changes = run.plan;
+  }
+  return result;
+}
+
+// Historical backfill. The job row doubles as the cursor, so an interrupted
+// backfill picks up after the oldest activity it handled or the last day chunk.
+// Each run holds the sync lock through a sync_log row of its own, whose
+// sync_errors collect the items the run skipped for POST /sync/:id/retry.
+
+// One backfill at a time per profile
+const activeBackfills = new Map<number, Promise<void>>();
+
+function getBackfillJob(id: number): BackfillJob {
+  return db.prepare('SELECT * FROM backfill_jobs WHERE id = ?').get(id) as BackfillJob;
+}
+
+function updateBackfillJob(id: number, fields: Partial<BackfillJob>): void {
+  const names = Object.keys(fields);
+  db.prepare(`UPDATE backfill_jobs SET ${names.map(n => `${n} = ?, `).join('')}updatedAt = ? WHERE id = ?`)
+    .run(...names.map(n => fields[n as keyof BackfillJob] ?? null), new Date().toISOString(), id);
+}
+
+/**
+ * Pages through the activity list past the saved cursor, storing activities
+ * inside the range. Activities recorded or deleted since the job stopped shift
+ * the list; the cursor keeps those from being stored twice or skipped.
+ */
+async function backfillActivities(ctx: WriteContext, job: BackfillJob, onItemError: ItemErrorHandler): Promise<void> {
+  await walkActivities(
+    activityWalk(job),
+    { from: job.fromDay, to: job.toDay },
+    BACKFILL_PAGE_SIZE,
+    (limit, start) => ctx.garmin.getActivities(limit, start),
+    act => withProfileTurn(ctx.profileId, async () => {
+      await attemptItem({ dataType: 'activities', activityId: String(act.activityId) }, () => storeActivity(ctx, act), onItemError);
+    }),
+    walk => updateBackfillJob(job.id, {
+      activityStart: walk.start,
+      activityCursorTime: walk.cursor?.startTime ?? null,
+      activityCursorId: walk.cursor?.activityId ?? null,
+      activitiesDone: walk.done,
+      activitiesComplete: walk.complete ? 1 : 0,
+    }),
+  );
+}
+
+/** Walks the day range in chunks, saving the cursor after each chunk. */
+async function backfillDays(ctx: WriteContext, job: BackfillJob, types: readonly WellnessType[], onItemError: ItemErrorHandler): Promise<void> {
+  const range = { from: job.fromDay, to: job.toDay };
+  let done = job.daysDone;
+  for (let chunk = nextDayChunk(range, job.cursorDay, BACKFILL_CHUNK_DAYS); chunk; chunk = nextDayChunk(range, chunk.to, BACKFILL_CHUNK_DAYS)) {
+    for (let day = chunk.from; day <= chunk.to; day = addDays(day, 1)) {
+      await withProfileTurn(ctx.profileId, () => syncWellnessDay(ctx, day, types, onItemError));
+      done++;
+    }
+    updateBackfillJob(job.id, { cursorDay: chunk.to, daysDone: done });
+  }
+}
+
+/**
+ * Runs a job from its cursor. Items that still fail after the request retries
+ * are recorded against the run's sync_log row and skipped; anything else
+ * (lost session, activity list unavailable, lock held elsewhere) interrupts
+ * the job, which keeps its cursor and resumes on the next start or when the
+ * same backfill is requested again.
+ */
+async function runBackfill(id: number): Promise<void> {
+  const job = getBackfillJob(id);
+  const types = JSON.parse(job.types) as SyncDataType[];
+  const scope: SyncOptions = { profileId: job.profileId, types, from: job.fromDay, to: job.toDay };
+  let logId: number | null = null;
+  let heartbeat: NodeJS.Timeout | undefined;
+  try {
+    const runLogId = logId = acquireSyncLock('backfill', scope, `Backfill ${id}`);
+    heartbeat = setInterval(() => {
+      db.prepare('UPDATE sync_log SET heartbeatAt = ? WHERE id = ?').run(new Date().toISOString(), runLogId);
+    }, SYNC_HEARTBEAT_MS);
+    let failedItems = 0;
+    updateBackfillJob(id, { status: 'running', logId, failedItems, error: null, endedAt: null });
+    const onItemError: ItemErrorHandler = (item, err) => {
+      recordSyncError(db, runLogId, item, err);
+      updateBackfillJob(id, { failedItems: ++failedItems });
+      console.warn(`[backfill] Job ${id} skipped ${item.activityId ? `activity ${item.activityId}` : `${item.dataType} ${item.day}`}: ${err.message}`);
+    };
+
+    await ensureAuthenticated(job.profileId);
+    const ctx: WriteContext = { profileId: job.profileId, garmin: garminClient(job.profileId), syncId: logId, written: emptyWriteCounts() };
+    if (types.includes('activities') && !job.activitiesComplete) {
+      await backfillActivities(ctx, job, onItemError);
+    }
+    const wellnessTypes = WELLNESS_TYPES.filter(t => types.includes(t));
+    if (wellnessTypes.length > 0) {
+      await backfillDays(ctx, getBackfillJob(id), wellnessTypes, onItemError);
+    }
+
+    const finished = getBackfillJob(id);
+    const status = failedItems > 0 ? 'partial' : 'success';
+    const failed = failedItems > 0 ? `; ${failedItems} failed items` : '';
+    updateBackfillJob(id, { status, endedAt: new Date().toISOString() });
+    db.prepare('UPDATE sync_log SET endedAt = ?, status = ?, details = ? WHERE id = ?').run(
+      new Date().toISOString(),
+      status,
+      `Backfill ${id}: ${finished.activitiesDone} activities, ${finished.daysDone} days${failed} ${describeSyncScope(scope)}`,
+      logId
+    );
+    console.log(`[backfill] Job ${id} completed${failed}`);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    updateBackfillJob(id, { status: 'interrupted', error: errorMsg, endedAt: new Date().toISOString() });
+    if (logId !== null) {
+      db.prepare('UPDATE sync_log SET endedAt = ?, status = ?, details = ? WHERE id = ?').run(
+        new Date().toISOString(),
+        err instanceof GarminMfaRequiredError ? 'mfa_required' : 'error',
+        `${errorMsg} ${describeSyncScope(scope)}`,
+        logId
+      );
     }
+    console.error(`[backfill] Job ${id} interrupted:`, errorMsg);
+  } finally {
+    clearInterval(heartbeat);
+    if (logId !== null) heldSyncLocks.delete(logId);
   }
+}
 
-  async getStressData(date: string): Promise<StressData | null> {
-    try {
-      const data = await this.request(`/wellness-service/wellness/dailyStress/${date}`);
-      return data as StressData;
-    } catch {
-      return null;
-    }
+function launchBackfill(id: number, profileId: number): void {
+  activeBackfills.set(profileId, runBackfill(id).finally(() => { activeBackfills.delete(profileId); }));
+}
+
+/** Starts a backfill, or resumes the interrupted job of the same request. */
+function startBackfill(profileId: number, request: BackfillRequest): BackfillJob {
+  const types = JSON.stringify(request.types);
+  const interrupted = db.prepare(`
+    SELECT id FROM backfill_jobs
+    WHERE profileId = ? AND status = 'interrupted' AND fromDay = ? AND toDay = ? AND types = ?
+    ORDER BY id DESC LIMIT 1
+  `).get(profileId, request.from, request.to, types) as { id: number } | undefined;
+  if (interrupted) {
+    launchBackfill(interrupted.id, profileId);
+    return getBackfillJob(interrupted.id);
+  }
+  const now = new Date().toISOString();
+  const hasWellness = request.types.some(t => t !== 'activities');
+  const daysTotal = hasWellness
+    ? Math.round((Date.parse(request.to) - Date.parse(request.from)) / 86400000) + 1
+    : 0;
+  const id = Number(db.prepare(`
+    INSERT INTO backfill_jobs (profileId, fromDay, toDay, types, status, daysTotal, startedAt, updatedAt)
+    VALUES (?, ?, ?, ?, 'running', ?, ?, ?)
+  `).run(profileId, request.from, request.to, types, daysTotal, now, now).lastInsertRowid);
+  launchBackfill(id, profileId);
+  return getBackfillJob(id);
+}
+
+// Sync lock. A `running` sync_log row is the lock; the coordinator keeps this
+// process single-flight (one sync at a time across all profiles) and the row
+// guards against other processes. Backfills run beside the coordinator and
+// take turns with the syncs of their profile (see withProfileTurn).
+class SyncLockedError extends Error {
+  constructor(readonly logId: number, readonly pid: number) {
+    super(`Sync ${logId} is already running in process ${pid}`);
+    this.name = 'SyncLockedError';
   }
 }
 
-const garmin = new GarminConnectClient();
+// sync_log rows held by this process: the running sync and any backfill runs
+const heldSyncLocks = new Set<number>();
 
-async function syncGarminData(): Promise<{ activities: number; days: number }> {
-  // Ensure authenticated
-  if (!garmin.loadSessionFromDb()) {
-    if (!GARMIN_USERNAME || !GARMIN_PASSWORD) {
-      throw new Error('GARMIN_USERNAME and GARMIN_PASSWORD env vars required');
-    }
-    const authed = await garmin.login(GARMIN_USERNAME, GARMIN_PASSWORD);
-    if (!authed) {
-      throw new Error('Garmin authentication failed');
+// A sync holds its profile for the whole run, a backfill for one activity or
+// day at a time, so neither writes while the other does
+const profileTurns = new Map<number, Promise<unknown>>();
+
+function withProfileTurn<T>(profileId: number, fn: () => Promise<T>): Promise<T> {
+  const turn = (profileTurns.get(profileId) ?? Promise.resolve()).catch(() => {}).then(fn);
+  profileTurns.set(profileId, turn);
+  turn.catch(() => {}).finally(() => {
+    if (profileTurns.get(profileId) === turn) profileTurns.delete(profileId);
+  });
+  return turn;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Closes out `running` rows whose owner is gone: a dead pid, a stale
+ * heartbeat, or this pid without the row being held here (a previous process
+ * that crashed). Throws if a live process still holds the lock.
+ */
+function releaseStaleSyncLocks(): void {
+  const running = db.prepare("SELECT id, startedAt, pid, heartbeatAt FROM sync_log WHERE status = 'running'").all() as Array<{
+    id: number; startedAt: string; pid: number | null; heartbeatAt: string | null;
+  }>;
+  for (const row of running) {
+    if (heldSyncLocks.has(row.id)) continue;
+    const lastSeen = Date.parse(row.heartbeatAt ?? row.startedAt);
+    const held = row.pid !== null && row.pid !== process.pid && isProcessAlive(row.pid) &&
+      Date.now() - lastSeen < SYNC_LOCK_STALE_MS;
+    if (held) {
+      throw new SyncLockedError(row.id, row.pid!);
     }
+    db.prepare("UPDATE sync_log SET endedAt = ?, status = 'error', details = ? WHERE id = ?").run(
+      new Date().toISOString(),
+      `Stale lock released (process ${row.pid ?? 'unknown'} is no longer syncing)`,
+      row.id
+    );
+    console.warn(`[sync] Released stale lock from sync ${row.id}`);
   }
+}
 
-  let activitiesSynced = 0;
-  let daysSynced = 0;
+function acquireSyncLock(trigger: SyncTrigger | 'backfill', options: SyncOptions, label = 'Garmin sync'): number {
+  const logId = db.transaction(() => {
+    releaseStaleSyncLocks();
+    const now = new Date().toISOString();
+    return Number(db.prepare(`
+      INSERT INTO sync_log (profileId, startedAt, status, details, trigger, pid, heartbeatAt, dryRun) VALUES (?, ?, 'running', ?, ?, ?, ?, ?)
+    `).run(options.profileId, now, `${label} started ${describeSyncScope(options)}`, trigger, process.pid, now, options.dryRun ? 1 : 0).lastInsertRowid);
+  }).immediate();
+  heldSyncLocks.add(logId);
+  return logId;
+}
 
-  // Sync recent activities
-  const activities = await garmin.getActivities(50);
-  const insertActivity = db.prepare(`
-    INSERT OR REPLACE INTO activities 
-    (id, provider, startTime, type, name, distanceMeters, durationSeconds, calories, 
-     averageHR, maxHR, averageSpeed, maxSpeed, elevationGain, elevationLoss, description, locationName, rawJson)
-    VALUES (?, 'garmin', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
+async function runSyncJob(job: SyncJob<SyncOptions>, report: ProgressReporter): Promise<SyncResult> {
+  const logId = acquireSyncLock(job.trigger, job.options);
+  job.logId = logId;
+  const heartbeat = setInterval(() => {
+    db.prepare('UPDATE sync_log SET heartbeatAt = ? WHERE id = ?').run(new Date().toISOString(), logId);
+  }, SYNC_HEARTBEAT_MS);
+  const onRetry = (retry: RetryNotice) => {
+    report({ type: 'warning', phase: 'request', item: retry.endpoint, message: `${retry.message} (retry ${retry.attempt})` });
+  };
 
-  for (const act of activities) {
-    // Fetch detailed activity data for advanced metrics
-    const detail = await garmin.getActivityDetail(act.activityId);
-    
-    insertActivity.run(
-      String(act.activityId),
-      act.startTimeLocal,
-      act.activityType?.typeKey || 'unknown',
-      act.activityName,
-      act.distance || 0,
-      act.duration,
-      act.calories || 0,
-      detail?.averageHR ?? null,
-      detail?.maxHR ?? null,
-      detail?.averageSpeed ?? null,
-      detail?.maxSpeed ?? null,
-      detail?.elevationGain ?? null,
-      detail?.elevationLoss ?? null,
-      detail?.description ?? null,
-      detail?.locationName ?? null,
-      JSON.stringify({ summary: act, detail })
+  try {
+    const result = await withProfileTurn(job.options.profileId, () =>
+      retryListener.run(onRetry, () => syncGarminData(job.options, logId, report)));
+    db.prepare('UPDATE sync_log SET endedAt = ?, status = ?, details = ? WHERE id = ?').run(
+      new Date().toISOString(),
+      result.errors > 0 ? 'partial' : 'success',
+      `${describeSyncResult(result)} ${describeSyncScope(job.options)}`,
+      logId
+    );
+    return result;
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    db.prepare('UPDATE sync_log SET endedAt = ?, status = ?, details = ? WHERE id = ?').run(
+      new Date().toISOString(),
+      err instanceof GarminMfaRequiredError ? 'mfa_required' : 'error',
+      `${errorMsg} ${describeSyncScope(job.options)}`,
+      logId
     );
-    activitiesSynced++;
+    throw err;
+  } finally {
+    clearInterval(heartbeat);
+    heldSyncLocks.delete(logId);
   }
+}
 
-  // Sync daily metrics for last 30 days
-  const today = new Date();
-  const insertDaily = db.prepare(`
-    INSERT OR REPLACE INTO daily_metrics 
-    (day, steps, restingHeartRate, bodyBattery, sleepSeconds, sleepScore, deepSleepSeconds, lightSleepSeconds, remSleepSeconds, awakeSleepSeconds, avgSpO2, avgRespiration, avgStressLevel, hrvStatus, rawJson)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
+const coordinator = new SyncCoordinator<SyncOptions, SyncResult>({ execute: runSyncJob });
 
-  for (let i = 0; i < 30; i++) {
-    const date = new Date(today);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0]!;
-
-    const summary = await garmin.getDailySummary(dateStr);
-    if (summary) {
-      const [hrv, sleep, bodyBattery, stress] = await Promise.all([
-        garmin.getHrvData(dateStr),
-        garmin.getSleepData(dateStr),
-        garmin.getBodyBatteryData(dateStr),
-        garmin.getStressData(dateStr),
-      ]);
-
-      const dto = sleep?.dailySleepDTO;
-      
-      insertDaily.run(
-        summary.calendarDate || dateStr,
-        summary.steps ?? 0,
-        summary.restingHeartRate ?? null,
-        summary.bodyBattery?.lastDayValue ?? null,
-        summary.sleepTimeInSeconds ?? null,
-        dto?.sleepScore?.value ?? null,
-        dto?.deepSleepSeconds ?? null,
-        dto?.lightSleepSeconds ?? null,
-        dto?.remSleepSeconds ?? null,
-        dto?.awakeSleepSeconds ?? null,
-        dto?.averageSpO2Value ?? null,
-        dto?.averageRespirationValue ?? null,
-        stress?.avgStressLevel ?? null,
-        hrv?.status ?? null,
-        JSON.stringify({ summary, hrv, sleep, bodyBattery, stress })
-      );
-      daysSynced++;
-    }
+try {
+  releaseStaleSyncLocks();
+} catch (err) {
+  console.warn(`[sync] ${err instanceof Error ? err.message : String(err)}`);
+}
+
+// Resume the backfills a previous process left running or that were
+// interrupted, the latest per profile
+const interruptedBackfills = db.prepare(`
+  SELECT MAX(id) AS id, profileId FROM backfill_jobs WHERE status IN ('running', 'interrupted') GROUP BY profileId
+`).all() as Array<{ id: number; profileId: number }>;
+for (const job of interruptedBackfills) {
+  console.log(`[backfill] Resuming job ${job.id}`);
+  launchBackfill(job.id, job.profileId);
+}
+
+// Live sync events (Server-Sent Events) for the CLI and the Expo app, per profile
+const eventClients = new Map<http.ServerResponse, number>();
+
+function broadcast(profileId: number, event: string, data: unknown): void {
+  const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const [client, clientProfileId] of eventClients) {
+    if (clientProfileId === profileId) client.write(frame);
   }
+}
 
-  return { activities: activitiesSynced, days: daysSynced };
+function jobSummary(job: SyncJob<SyncOptions>) {
+  return { jobId: job.id, trigger: job.trigger, logId: job.logId, profileId: job.options.profileId };
 }
 
-// Initialize background sync scheduler
-const scheduler = AUTO_SYNC_INTERVAL > 0
-  ? new SyncScheduler({
-      intervalMs: AUTO_SYNC_INTERVAL,
-      onSync: async () => { await syncGarminData(); },
-      onError: (err) => console.error('Auto-sync error:', err.message),
-    })
-  : null;
+coordinator.on('job:queued', ({ job }) => broadcast(job.options.profileId, 'job:queued', jobSummary(job)));
+coordinator.on('job:start', ({ job }) => broadcast(job.options.profileId, 'job:start', { ...jobSummary(job), startedAt: job.startedAt }));
+coordinator.on('job:progress', ({ job, ...progress }) => broadcast(job.options.profileId, 'progress', { ...jobSummary(job), ...progress }));
+coordinator.on('job:warning', ({ job, ...warning }) => broadcast(job.options.profileId, 'warning', { ...jobSummary(job), ...warning }));
+coordinator.on('job:end', ({ job, ok, result, error }) => broadcast(job.options.profileId, 'job:end', {
+  ...jobSummary(job),
+  ok,
+  totals: result ?? null,
+  error: error ?? null,
+}));
+
+// Keep idle connections open through proxies
+setInterval(() => {
+  for (const client of eventClients.keys()) {
+    client.write(': keep-alive\n\n');
+  }
+}, 15000).unref();
+
+// Background sync schedulers, one per profile with an interval
+const schedulers = new Map<number, SyncScheduler>();
+
+/** The profile's own interval; the default profile falls back to GARMIN_AUTO_SYNC_INTERVAL. 0 = disabled. */
+function autoSyncInterval(profile: Profile): number {
+  if (profile.autoSyncHours !== null) return profile.autoSyncHours * 60 * 60 * 1000;
+  return profile.id === DEFAULT_PROFILE_ID ? AUTO_SYNC_INTERVAL : 0;
+}
 
-if (scheduler) {
+/** (Re)starts the profile's scheduler with its current interval, or stops it when it has none. */
+function scheduleProfile(profile: Profile): void {
+  unscheduleProfile(profile.id);
+  const intervalMs = autoSyncInterval(profile);
+  if (intervalMs <= 0) return;
+  const scheduler = new SyncScheduler({
+    intervalMs,
+    onSync: async () => { await coordinator.submit('scheduled', { profileId: profile.id }).promise; },
+    onError: (err) => console.error(`Auto-sync error (profile ${profile.id}):`, err.message),
+  });
+  scheduler.on('sync:start', () => broadcast(profile.id, 'sync:start', {}));
+  scheduler.on('sync:success', ({ timestamp }) => broadcast(profile.id, 'sync:success', { timestamp }));
+  scheduler.on('sync:error', (err: Error) => broadcast(profile.id, 'sync:error', { error: err.message }));
   scheduler.start();
+  schedulers.set(profile.id, scheduler);
+}
+
+function unscheduleProfile(profileId: number): void {
+  schedulers.get(profileId)?.stop();
+  schedulers.delete(profileId);
+}
+
+for (const profile of listProfiles()) {
+  scheduleProfile(profile);
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
 }
 
 // Request context for logging
@@ -414,8 +1938,11 @@ const requestContexts = new WeakMap<http.ServerResponse, { req: http.IncomingMes
 function json(res: http.ServerResponse, status: number, body: unknown) {
   res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
   res.end(JSON.stringify(body, null, 2));
-  
-  // Log after response is sent
+  logRequest(res, status);
+}
+
+// Log after response is sent
+function logRequest(res: http.ServerResponse, status: number) {
   const ctx = requestContexts.get(res);
   if (ctx) {
     const duration = Date.now() - ctx.startTime;
@@ -427,26 +1954,384 @@ function json(res: http.ServerResponse, status: number, body: unknown) {
   }
 }
 
+/** Sends a JSON body with an ETag, answering 304 when the client already has it. */
+function jsonWithETag(req: http.IncomingMessage, res: http.ServerResponse, body: unknown) {
+  const payload = JSON.stringify(body, null, 2);
+  const etag = etagFor(payload);
+  if (etagMatches(req.headers['if-none-match'], etag)) {
+    res.writeHead(304, { etag });
+    res.end();
+  } else {
+    res.writeHead(200, { 'content-type': 'application/json; charset=utf-8', etag });
+    res.end(payload);
+  }
+  logRequest(res, res.statusCode);
+}
+
+type ActivityExport = { activity: ExportActivity; streams: Streams; laps: ExportLap[] };
+
+/**
+ * Loads what GPX/TCX export needs from local tables. Returns the error code
+ * when the streams are missing or the UTC start is unknown, which the local
+ * start time cannot stand in for.
+ */
+function loadActivityExport(activityId: string): ActivityExport | 'streams_not_found' | 'start_time_unknown' {
+  const row = db.prepare(`
+    SELECT a.id, a.name, a.type, a.durationSeconds, a.distanceMeters, a.calories,
+           -- Rows from before the column still have it in the activity list entry
+           COALESCE(a.startTimeGMT, json_extract(a.rawJson, '$.summary.startTimeGMT')) AS startTimeGMT, s.fields, s.data
+    FROM activities a JOIN activity_streams s ON s.activityId = a.id WHERE a.id = ?
+  `).get(activityId) as {
+    id: string; name: string | null; type: string | null; durationSeconds: number | null;
+    distanceMeters: number | null; calories: number | null; startTimeGMT: string | null; fields: string; data: Buffer;
+  } | undefined;
+  if (!row) return 'streams_not_found';
+  if (!row.startTimeGMT) return 'start_time_unknown';
+  const laps = db.prepare(`
+    SELECT startOffsetSeconds, durationSeconds, distanceMeters, averageHR, maxHR
+    FROM activity_laps WHERE activityId = ? ORDER BY lapIndex
+  `).all(activityId) as ExportLap[];
+  return {
+    activity: {
+      id: row.id,
+      name: row.name ?? `Activity ${row.id}`,
+      type: row.type ?? 'unknown',
+      start: new Date(`${row.startTimeGMT.replace(' ', 'T')}Z`),
+      durationSeconds: row.durationSeconds ?? 0,
+      distanceMeters: row.distanceMeters ?? 0,
+      calories: row.calories ?? 0,
+    },
+    streams: decodeStreams(JSON.parse(row.fields) as StreamField[], row.data),
+    laps,
+  };
+}
+
+function renderActivityExport(data: ActivityExport, format: ExportFormat): string {
+  return format === 'gpx' ? toGpx(data.activity, data.streams) : toTcx(data.activity, data.streams, data.laps);
+}
+
+function profileSummary(profile: Profile) {
+  return {
+    id: profile.id,
+    name: profile.name,
+    username: garminUsername(profile) || null,
+    authenticated: garminClient(profile.id).auth.status().authenticated,
+    mfaRequired: profile.mfaRequiredAt !== null,
+    autoSyncHours: profile.autoSyncHours,
+    autoSync: schedulers.get(profile.id)?.getStatus() ?? null,
+    createdAt: profile.createdAt,
+  };
+}
+
+/** Applies a validated profile body; a new username drops the tokens of the old account. */
+function updateProfile(profile: Profile, input: ProfileInput): Profile {
+  const fields: Record<string, string | number | null> = {};
+  if (input.name !== undefined) fields.name = input.name;
+  if (input.autoSyncHours !== undefined) fields.autoSyncHours = input.autoSyncHours;
+  if (input.username !== undefined && input.username !== profile.username) {
+    Object.assign(fields, { username: input.username, tokens: null, mfaRequiredAt: null });
+    garminClients.delete(profile.id);
+  }
+  const names = Object.keys(fields);
+  if (names.length > 0) {
+    db.prepare(`UPDATE profiles SET ${names.map(n => `${n} = ?`).join(', ')} WHERE id = ?`).run(...names.map(n => fields[n]), profile.id);
+  }
+  const updated = getProfile(profile.id)!;
+  if (input.autoSyncHours !== undefined) scheduleProfile(updated);
+  return updated;
+}
+
+/**
+ * Removes a profile with everything synced for it, and its saved password
+ * unless another profile logs in with the same username. FIT archives on disk
+ * are left in place.
+ */
+function deleteProfile(profile: Profile): void {
+  const username = garminUsername(profile);
+  deleteProfileRows(db, profile.id);
+  unscheduleProfile(profile.id);
+  garminClients.delete(profile.id);
+  if (username && credentialStore.deletePassword && !listProfiles().some(other => garminUsername(other) === username)) {
+    try {
+      credentialStore.deletePassword(username);
+    } catch (err) {
+      console.warn(`[secrets] Could not remove the Garmin password of ${username}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
 const server = http.createServer(async (req, res) => {
   const startTime = Date.now();
   requestContexts.set(res, { req, startTime });
   
   const url = new URL(req.url || '/', `http://${req.headers.host}`);
 
+  // Every route works on one profile: /profiles/:id/<route>, the x-garmin-profile header, or the default
+  const selection = selectProfile(url.pathname, req.headers[PROFILE_HEADER]);
+  if (typeof selection === 'string') {
+    return json(res, 400, { error: 'invalid_profile', message: selection });
+  }
+  const profile = getProfile(selection.profileId);
+  if (!profile) {
+    return json(res, 404, { error: 'profile_not_found', message: `Profile ${selection.profileId} does not exist` });
+  }
+  url.pathname = selection.pathname;
+  const garmin = garminClient(profile.id);
+
+  if (req.method === 'GET' && url.pathname === '/profiles') {
+    return json(res, 200, { items: listProfiles().map(profileSummary), defaultProfileId: DEFAULT_PROFILE_ID });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/profiles') {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    const input = parseProfileInput(body, true);
+    if (typeof input === 'string') {
+      return json(res, 400, { error: 'invalid_profile_request', message: input });
+    }
+    if (db.prepare('SELECT id FROM profiles WHERE name = ?').get(input.name)) {
+      return json(res, 409, { error: 'profile_exists', message: `A profile named ${input.name} already exists` });
+    }
+    const id = Number(db.prepare('INSERT INTO profiles (name, username, autoSyncHours, createdAt) VALUES (?, ?, ?, ?)')
+      .run(input.name, input.username ?? null, input.autoSyncHours ?? null, new Date().toISOString()).lastInsertRowid);
+    const created = getProfile(id)!;
+    scheduleProfile(created);
+    return json(res, 201, { ok: true, profile: profileSummary(created) });
+  }
+
+  const profileMatch = url.pathname.match(/^\/profiles\/(\d+)$/);
+  if (profileMatch) {
+    const target = getProfile(Number(profileMatch[1]));
+    if (!target) {
+      return json(res, 404, { error: 'profile_not_found', message: `Profile ${profileMatch[1]} does not exist` });
+    }
+    if (req.method === 'GET') {
+      return json(res, 200, profileSummary(target));
+    }
+    if (req.method === 'PATCH') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+      }
+      const input = parseProfileInput(body, false);
+      if (typeof input === 'string') {
+        return json(res, 400, { error: 'invalid_profile_request', message: input });
+      }
+      if (input.name !== undefined && db.prepare('SELECT id FROM profiles WHERE name = ? AND id != ?').get(input.name, target.id)) {
+        return json(res, 409, { error: 'profile_exists', message: `A profile named ${input.name} already exists` });
+      }
+      return json(res, 200, { ok: true, profile: profileSummary(updateProfile(target, input)) });
+    }
+    if (req.method === 'DELETE') {
+      if (target.id === DEFAULT_PROFILE_ID) {
+        return json(res, 400, { error: 'default_profile', message: 'The default profile cannot be deleted' });
+      }
+      const { currentJob, queued } = coordinator.getStatus();
+      if ([currentJob, ...queued].some(job => job?.options.profileId === target.id) || activeBackfills.has(target.id)) {
+        return json(res, 409, { error: 'profile_busy', message: `Profile ${target.id} has a sync or backfill in progress` });
+      }
+      deleteProfile(target);
+      return json(res, 200, { ok: true, deleted: target.id });
+    }
+  }
+
   if (req.method === 'GET' && url.pathname === '/health') {
-    const hasCreds = !!(GARMIN_USERNAME && GARMIN_PASSWORD);
-    const sessionValid = garmin.loadSessionFromDb();
+    let hasCreds: boolean;
+    try {
+      hasCreds = garminCredentials(profile) !== null;
+    } catch {
+      hasCreds = false;
+    }
+    const { authenticated, ...tokens } = garmin.auth.status();
     return json(res, 200, { 
       ok: true, 
       db: DB_PATH,
+      profile: { id: profile.id, name: profile.name },
       garminConfigured: hasCreds,
-      garminAuthenticated: sessionValid
+      garminAuthenticated: authenticated,
+      auth: { ...tokens, mfaRequired: profile.mfaRequiredAt !== null },
+      secrets: { encrypted: secretBox.enabled, keyId: secretBox.current?.id ?? null, credentialStore: credentialStore.kind },
+      sync: coordinator.getStatus()
     });
   }
 
+  if (req.method === 'POST' && url.pathname === '/auth/login') {
+    let body: { username?: unknown; password?: unknown };
+    try {
+      body = (await readJsonBody(req) ?? {}) as typeof body;
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    const given = typeof body.username === 'string' && body.username && typeof body.password === 'string' && body.password
+      ? { username: body.username, password: body.password }
+      : null;
+    let credentials: { username: string; password: string } | null;
+    try {
+      credentials = given ?? garminCredentials(profile);
+    } catch (err) {
+      return json(res, 500, { error: 'credentials_unreadable', message: err instanceof Error ? err.message : String(err) });
+    }
+    if (!credentials) {
+      return json(res, 400, { error: 'credentials_required', message: profile.id === DEFAULT_PROFILE_ID
+        ? 'Pass username and password, set GARMIN_USERNAME and GARMIN_PASSWORD, or save them to the credential store'
+        : 'Pass username and password, or save them to the credential store' });
+    }
+    try {
+      const result = await garmin.login(credentials.username, credentials.password);
+      // Garmin only asks for the code once the password is right, so both outcomes confirm it
+      const credentialsSaved = given ? saveCredentials(profile, given.username, given.password) : false;
+      if (result.mfaRequired) {
+        setMfaRequired(profile.id, true);
+        return json(res, 200, { ok: true, mfaRequired: true, challengeId: result.challengeId, credentialsSaved });
+      }
+      setMfaRequired(profile.id, false);
+      return json(res, 200, { ok: true, mfaRequired: false, auth: garmin.auth.status(), credentialsSaved });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return json(res, err instanceof GarminAuthError ? 401 : 502, { error: 'login_failed', message });
+    }
+  }
+
+  if (req.method === 'POST' && url.pathname === '/auth/mfa') {
+    let body: { challengeId?: unknown; code?: unknown };
+    try {
+      body = (await readJsonBody(req) ?? {}) as typeof body;
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    const { challengeId, code } = body;
+    if (typeof challengeId !== 'string' || typeof code !== 'string' || !/^\d{4,8}$/.test(code.trim())) {
+      return json(res, 400, { error: 'invalid_mfa_request', message: 'challengeId and a numeric code are required' });
+    }
+    if (!garmin.auth.hasChallenge(challengeId)) {
+      return json(res, 404, { error: 'challenge_not_found', message: 'Unknown or expired MFA challenge; log in again' });
+    }
+    try {
+      await garmin.completeMfa(challengeId, code.trim());
+      setMfaRequired(profile.id, false);
+      return json(res, 200, { ok: true, auth: garmin.auth.status() });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (!(err instanceof GarminAuthError)) return json(res, 502, { error: 'login_failed', message });
+      return json(res, 401, { error: 'invalid_mfa_code', message, retry: garmin.auth.hasChallenge(challengeId) });
+    }
+  }
+
   if (req.method === 'GET' && url.pathname === '/activities') {
-    const rows = db.prepare('SELECT id, provider, startTime, type, name, distanceMeters, durationSeconds, calories FROM activities ORDER BY startTime DESC LIMIT 100').all();
-    return json(res, 200, { items: rows });
+    const rows = db.prepare('SELECT id, provider, startTime, type, name, distanceMeters, durationSeconds, calories FROM activities WHERE profileId = ? ORDER BY startTime DESC LIMIT 100').all(profile.id);
+    return jsonWithETag(req, res, { items: rows });
+  }
+
+  const lapsMatch = url.pathname.match(/^\/activities\/([^/]+)\/laps$/);
+  if (req.method === 'GET' && lapsMatch) {
+    const activityId = decodeURIComponent(lapsMatch[1]!);
+    if (!db.prepare('SELECT id FROM activities WHERE id = ? AND profileId = ?').get(activityId, profile.id)) {
+      return json(res, 404, { error: 'activity_not_found' });
+    }
+    const laps = db.prepare(`
+      SELECT lapIndex, startOffsetSeconds, durationSeconds, distanceMeters, averageHR, maxHR,
+             avgPaceSecondsPerKm, averageCadence, elevationGain, elevationLoss
+      FROM activity_laps WHERE activityId = ? ORDER BY lapIndex
+    `).all(activityId);
+    return json(res, 200, { activityId, items: laps });
+  }
+
+  const streamsMatch = url.pathname.match(/^\/activities\/([^/]+)\/streams$/);
+  if (req.method === 'GET' && streamsMatch) {
+    const activityId = decodeURIComponent(streamsMatch[1]!);
+    const fieldsParam = url.searchParams.get('fields');
+    const requested = fieldsParam ? fieldsParam.split(',') : null;
+    if (requested && !requested.every(f => STREAM_FIELDS.includes(f as StreamField))) {
+      return json(res, 400, { error: 'invalid_fields', message: `fields must be a list of: ${STREAM_FIELDS.join(', ')}` });
+    }
+    const resolutionParam = url.searchParams.get('resolution');
+    const resolution = resolutionParam ? parseInt(resolutionParam, 10) : null;
+    if (resolution !== null && (!Number.isInteger(resolution) || resolution < 2)) {
+      return json(res, 400, { error: 'invalid_resolution', message: 'resolution must be the maximum number of points (at least 2)' });
+    }
+    if (!db.prepare('SELECT id FROM activities WHERE id = ? AND profileId = ?').get(activityId, profile.id)) {
+      return json(res, 404, { error: 'activity_not_found' });
+    }
+    const row = db.prepare('SELECT sampleCount, fields, data FROM activity_streams WHERE activityId = ?').get(activityId) as
+      { sampleCount: number; fields: string; data: Buffer } | undefined;
+    if (!row) {
+      return json(res, 404, { error: 'streams_not_found' });
+    }
+    const stored = decodeStreams(JSON.parse(row.fields) as StreamField[], row.data);
+    // The time axis always comes along so samples can be plotted
+    const selected: Streams = { time: stored.time };
+    for (const field of requested ?? STREAM_FIELDS) {
+      if (stored[field as StreamField]) selected[field as StreamField] = stored[field as StreamField];
+    }
+    const streams = resolution ? downsample(selected, resolution) : selected;
+    return json(res, 200, { activityId, sampleCount: row.sampleCount, points: sampleCount(streams), streams });
+  }
+
+  const fitMatch = url.pathname.match(/^\/activities\/([^/]+)\/fit$/);
+  if (req.method === 'GET' && fitMatch) {
+    const activityId = decodeURIComponent(fitMatch[1]!);
+    const file = db.prepare(`
+      SELECT f.sha256, f.path, f.size, f.downloadedAt, f.parsedAt, f.parseError
+      FROM fit_files f JOIN activities a ON a.id = f.activityId WHERE f.activityId = ? AND a.profileId = ?
+    `).get(activityId, profile.id);
+    if (!file) {
+      return json(res, 404, { error: 'fit_not_found' });
+    }
+    const sessions = db.prepare('SELECT * FROM fit_sessions WHERE activityId = ? ORDER BY sessionIndex').all(activityId);
+    const laps = db.prepare('SELECT * FROM fit_laps WHERE activityId = ? ORDER BY lapIndex').all(activityId);
+    const devices = db.prepare('SELECT * FROM fit_devices WHERE activityId = ? ORDER BY deviceIndex').all(activityId);
+    const { records } = db.prepare('SELECT COUNT(*) AS records FROM fit_records WHERE activityId = ?').get(activityId) as { records: number };
+    return json(res, 200, { activityId, file, sessions, laps, devices, records });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/fit/reparse') {
+    let body: { activityIds?: unknown };
+    try {
+      body = await readJsonBody(req) as { activityIds?: unknown };
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    if (body.activityIds !== undefined && (!Array.isArray(body.activityIds) || body.activityIds.length === 0)) {
+      return json(res, 400, { error: 'invalid_activity_ids', message: 'activityIds must be a non-empty list' });
+    }
+    const owned = (db.prepare(`
+      SELECT f.activityId FROM fit_files f JOIN activities a ON a.id = f.activityId WHERE a.profileId = ? ORDER BY f.activityId
+    `).all(profile.id) as Array<{ activityId: string }>).map(r => r.activityId);
+    const ids = body.activityIds ? (body.activityIds as unknown[]).map(String) : owned;
+    // Another profile's activities count as failed, the same as ones without a FIT file
+    const failed = ids.filter(id => !owned.includes(id) || !parseStoredFit(id));
+    return json(res, 200, { parsed: ids.length - failed.length, failed });
+  }
+
+  const exportMatch = url.pathname.match(/^\/activities\/([^/]+)\/export$/);
+  if (req.method === 'GET' && exportMatch) {
+    const activityId = decodeURIComponent(exportMatch[1]!);
+    const format = url.searchParams.get('format') || 'gpx';
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return json(res, 400, { error: 'invalid_format', message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+    if (!db.prepare('SELECT id FROM activities WHERE id = ? AND profileId = ?').get(activityId, profile.id)) {
+      return json(res, 404, { error: 'activity_not_found' });
+    }
+    const data = loadActivityExport(activityId);
+    if (data === 'streams_not_found') {
+      return json(res, 404, { error: data, message: 'Activity has no stored streams to export' });
+    }
+    if (data === 'start_time_unknown') {
+      return json(res, 409, { error: data, message: 'Activity has no UTC start time; re-sync it with {"activityIds": [...]} first' });
+    }
+    res.writeHead(200, {
+      'content-type': `${EXPORT_CONTENT_TYPES[format as ExportFormat]}; charset=utf-8`,
+      'content-disposition': `attachment; filename="activity-${activityId}.${format}"`,
+    });
+    res.end(renderActivityExport(data, format as ExportFormat));
+    return;
   }
 
   if (req.method === 'GET' && url.pathname.startsWith('/activities/')) {
@@ -457,8 +2342,8 @@ const server = http.createServer(async (req, res) => {
     const row = db.prepare(`
       SELECT id, provider, startTime, type, name, distanceMeters, durationSeconds, calories,
              averageHR, maxHR, averageSpeed, maxSpeed, elevationGain, elevationLoss, description, locationName
-      FROM activities WHERE id = ?
-    `).get(activityId) as { 
+      FROM activities WHERE id = ? AND profileId = ?
+    `).get(activityId, profile.id) as { 
       id: string; provider: string; startTime: string; type: string; name: string;
       distanceMeters: number; durationSeconds: number; calories: number;
       averageHR: number | null; maxHR: number | null; averageSpeed: number | null; maxSpeed: number | null;
@@ -498,10 +2383,180 @@ const server = http.createServer(async (req, res) => {
       SELECT day, steps, restingHeartRate, bodyBattery, sleepSeconds, sleepScore,
              deepSleepSeconds, lightSleepSeconds, remSleepSeconds, awakeSleepSeconds,
              avgSpO2, avgRespiration, avgStressLevel, hrvStatus
-      FROM daily_metrics ORDER BY day DESC LIMIT ?
-    `).all(limit);
+      FROM daily_metrics WHERE profileId = ? ORDER BY day DESC LIMIT ?
+    `).all(profile.id, limit);
+
+    return jsonWithETag(req, res, { items: rows, days });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/changes') {
+    const since = parseCursor(url.searchParams.get('since'));
+    if (since === null) {
+      return json(res, 400, { error: 'invalid_cursor', message: 'since must be a cursor returned by GET /changes' });
+    }
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : CHANGES_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return json(res, 400, { error: 'invalid_limit', message: 'limit must be a positive integer' });
+    }
+    return json(res, 200, changesSince(profile.id, since, Math.min(limit, MAX_CHANGES_PAGE_SIZE)));
+  }
+
+  const heartRateMatch = url.pathname.match(/^\/heart-rate\/(\d{4}-\d{2}-\d{2})$/);
+  if (req.method === 'GET' && heartRateMatch) {
+    const date = heartRateMatch[1]!;
+    const rows = db.prepare('SELECT timestamp, bpm FROM heart_rate_samples WHERE profileId = ? AND day = ? ORDER BY timestamp').all(profile.id, date) as Array<{ timestamp: number; bpm: number }>;
+    if (rows.length === 0) {
+      return json(res, 404, { error: 'no_data_for_date' });
+    }
+    const bpms = rows.map(r => r.bpm);
+    return json(res, 200, {
+      date,
+      min: Math.min(...bpms),
+      avg: Math.round((bpms.reduce((sum, bpm) => sum + bpm, 0) / bpms.length) * 10) / 10,
+      max: Math.max(...bpms),
+      samples: rows.map(r => ({ time: new Date(r.timestamp).toISOString(), bpm: r.bpm })),
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/heart-rate') {
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to') ?? from;
+    if (!from || !DAY_PATTERN.test(from) || !to || !DAY_PATTERN.test(to) || from > to) {
+      return json(res, 400, { error: 'invalid_range', message: 'from (and optional to) must be YYYY-MM-DD dates, from <= to' });
+    }
+    const bucketParam = url.searchParams.get('bucket') || '15m';
+    const bucketMs = parseBucket(bucketParam);
+    if (bucketMs === null) {
+      return json(res, 400, { error: 'invalid_bucket', message: 'bucket must look like 30s, 15m or 1h' });
+    }
+    const rows = db.prepare('SELECT timestamp, bpm AS value FROM heart_rate_samples WHERE profileId = ? AND day BETWEEN ? AND ? ORDER BY timestamp')
+      .all(profile.id, from, to) as Sample[];
+    return json(res, 200, { from, to, bucket: bucketParam, items: bucketSamples(rows, bucketMs) });
+  }
+
+  const levelsMatch = url.pathname.match(/^\/(body-battery|stress)\/(\d{4}-\d{2}-\d{2})$/);
+  if (req.method === 'GET' && levelsMatch) {
+    const kind = levelsMatch[1] as 'body-battery' | 'stress';
+    const date = levelsMatch[2]!;
+    const table = kind === 'body-battery' ? 'body_battery_samples' : 'stress_samples';
+    const samples = db.prepare(`SELECT timestamp, level FROM ${table} WHERE profileId = ? AND day = ? ORDER BY timestamp`).all(profile.id, date) as Array<{ timestamp: number; level: number }>;
+    const daily = db.prepare(`
+      SELECT bodyBatteryCharged, bodyBatteryDrained, bodyBatteryPeak, bodyBatteryLow, avgStressLevel, stressPeak
+      FROM daily_metrics WHERE profileId = ? AND day = ?
+    `).get(profile.id, date) as {
+      bodyBatteryCharged: number | null; bodyBatteryDrained: number | null; bodyBatteryPeak: number | null;
+      bodyBatteryLow: number | null; avgStressLevel: number | null; stressPeak: number | null;
+    } | undefined;
+    if (samples.length === 0 && !daily) {
+      return json(res, 404, { error: 'no_data_for_date' });
+    }
+    const summary = kind === 'body-battery'
+      ? { charged: daily?.bodyBatteryCharged ?? null, drained: daily?.bodyBatteryDrained ?? null, peak: daily?.bodyBatteryPeak ?? null, low: daily?.bodyBatteryLow ?? null }
+      : { avg: daily?.avgStressLevel ?? null, peak: daily?.stressPeak ?? null };
+    return json(res, 200, {
+      date,
+      ...summary,
+      samples: samples.map(s => ({ time: new Date(s.timestamp).toISOString(), level: s.level })),
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/performance') {
+    const from = url.searchParams.get('from') ?? '0000-01-01';
+    const to = url.searchParams.get('to') ?? '9999-12-31';
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+      return json(res, 400, { error: 'invalid_range', message: 'from and to must be YYYY-MM-DD dates, from <= to' });
+    }
+    const items = db.prepare(`
+      SELECT day, ${PERFORMANCE_COLUMNS.join(', ')} FROM performance_metrics WHERE profileId = ? AND day BETWEEN ? AND ? ORDER BY day
+    `).all(profile.id, from, to);
+    return jsonWithETag(req, res, { items });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/body-composition') {
+    const from = url.searchParams.get('from') ?? '0000-01-01';
+    const to = url.searchParams.get('to') ?? '9999-12-31';
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+      return json(res, 400, { error: 'invalid_range', message: 'from and to must be YYYY-MM-DD dates, from <= to' });
+    }
+    const rows = db.prepare(`
+      SELECT id, provider, day, timestamp, ${BODY_COMPOSITION_FIELDS.join(', ')}, sourceType
+      FROM body_composition WHERE profileId = ? AND day BETWEEN ? AND ? ORDER BY timestamp, id
+    `).all(profile.id, from, to) as Array<Record<string, unknown> & { timestamp: number }>;
+    const items = rows.map(({ timestamp, ...row }) => ({ ...row, time: new Date(timestamp).toISOString() }));
+    return jsonWithETag(req, res, { items });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/body-composition') {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    const entry = parseManualEntry(body);
+    if (typeof entry === 'string') {
+      return json(res, 400, { error: 'invalid_body_composition', message: entry });
+    }
+    const id = insertBodyComposition(profile.id, 'manual', entry);
+    // Same shape as the GET items
+    const { timestamp, ...row } = db.prepare(`
+      SELECT id, provider, day, timestamp, ${BODY_COMPOSITION_FIELDS.join(', ')}, sourceType FROM body_composition WHERE id = ?
+    `).get(id) as Record<string, unknown> & { timestamp: number };
+    return json(res, 201, { ok: true, item: { ...row, time: new Date(timestamp).toISOString() } });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/gear') {
+    const rows = db.prepare(`
+      SELECT uuid, name, type, make, model, status, dateBegin, dateEnd, maximumMeters, distanceMeters, activityCount
+      FROM gear WHERE profileId = ? ORDER BY status = 'retired', type, name
+    `).all(profile.id) as GearItem[];
+    const items = rows.map(({ maximumMeters, distanceMeters, ...gear }) => ({
+      ...gear,
+      distanceKm: Math.round(distanceMeters / 100) / 10,
+      ...gearWear({ ...gear, maximumMeters, distanceMeters }, SHOE_RETIREMENT_KM),
+    }));
+    return jsonWithETag(req, res, { items, shoeRetirementKm: SHOE_RETIREMENT_KM });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/records') {
+    const items = db.prepare(`
+      SELECT typeId, recordKey, label, unit, value, activityId, activityName, activityType, achievedAt
+      FROM personal_records WHERE profileId = ? ORDER BY typeId
+    `).all(profile.id);
+    return jsonWithETag(req, res, { items });
+  }
 
-    return json(res, 200, { items: rows, days });
+  const sleepMatch = url.pathname.match(/^\/sleep\/(\d{4}-\d{2}-\d{2})$/);
+  if (req.method === 'GET' && sleepMatch) {
+    const date = sleepMatch[1]!;
+    const sessions = db.prepare(`
+      SELECT id, kind, startTimestamp, endTimestamp, durationSeconds FROM sleep_sessions WHERE profileId = ? AND day = ? ORDER BY startTimestamp
+    `).all(profile.id, date) as Array<{ id: number; kind: string; startTimestamp: number; endTimestamp: number; durationSeconds: number }>;
+    if (sessions.length === 0) {
+      return json(res, 404, { error: 'no_data_for_date' });
+    }
+    const stagesFor = db.prepare('SELECT stage, startTimestamp, endTimestamp FROM sleep_stages WHERE sessionId = ? ORDER BY stageIndex');
+    return json(res, 200, {
+      date,
+      sessions: sessions.map(session => {
+        const stages = (stagesFor.all(session.id) as Array<{ stage: SleepStage; startTimestamp: number; endTimestamp: number }>)
+          .map(s => ({ stage: s.stage, start: s.startTimestamp, end: s.endTimestamp }));
+        return {
+          kind: session.kind,
+          start: new Date(session.startTimestamp).toISOString(),
+          end: new Date(session.endTimestamp).toISOString(),
+          durationSeconds: session.durationSeconds,
+          stageSeconds: stageTotals(stages),
+          stages: stages.map(s => ({
+            stage: s.stage,
+            start: new Date(s.start).toISOString(),
+            end: new Date(s.end).toISOString(),
+            durationSeconds: Math.round((s.end - s.start) / 1000),
+          })),
+        };
+      }),
+    });
   }
 
   if (req.method === 'GET' && url.pathname.startsWith('/wellness/')) {
@@ -511,8 +2566,8 @@ const server = http.createServer(async (req, res) => {
   }
   const row = db.prepare(`
     SELECT day, steps, restingHeartRate, sleepSeconds, sleepScore, bodyBattery, hrvStatus, avgStressLevel, deepSleepSeconds, lightSleepSeconds, remSleepSeconds, avgSpO2, avgRespiration
-    FROM daily_metrics WHERE day = ?
-  `).get(date) as any;
+    FROM daily_metrics WHERE profileId = ? AND day = ?
+  `).get(profile.id, date) as any;
   if (!row) {
     return json(res, 404, { error: 'no_data_for_date' });
   }
@@ -532,49 +2587,145 @@ const server = http.createServer(async (req, res) => {
 }
 
 if (req.method === 'POST' && url.pathname === '/sync') {
-    const logStmt = db.prepare('INSERT INTO sync_log (startedAt, status, details) VALUES (?, ?, ?)');
-    const startTime = new Date().toISOString();
-    const logId = logStmt.run(startTime, 'running', 'Garmin sync started').lastInsertRowid;
-
+    let body: unknown;
     try {
-      const result = await syncGarminData();
-      const endTime = new Date().toISOString();
-      db.prepare('UPDATE sync_log SET endedAt = ?, status = ?, details = ? WHERE id = ?').run(
-        endTime,
-        'success',
-        `Synced ${result.activities} activities, ${result.days} days`,
-        logId
-      );
+      body = await readJsonBody(req);
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    const options = parseSyncOptions(body, profile.id);
+    if (typeof options === 'string') {
+      return json(res, 400, { error: 'invalid_sync_request', message: options });
+    }
+    const { job, joined, promise } = coordinator.submit('manual', options);
+    if (url.searchParams.get('wait') === 'false') {
+      // Fire and forget; follow progress on GET /sync/events
+      promise.catch(() => {});
+      return json(res, 202, { ok: true, jobId: job.id, joined });
+    }
+    try {
+      const result = await promise;
       return json(res, 200, { 
         ok: true, 
         synced: result,
-        logId
+        scope: describeSyncScope(options),
+        logId: job.logId,
+        joined
       });
     } catch (err) {
-      const endTime = new Date().toISOString();
       const errorMsg = err instanceof Error ? err.message : String(err);
-      db.prepare('UPDATE sync_log SET endedAt = ?, status = ?, details = ? WHERE id = ?').run(
-        endTime,
-        'error',
-        errorMsg,
-        logId
-      );
-      return json(res, 500, { error: errorMsg, logId });
+      if (err instanceof SyncLockedError) {
+        return json(res, 409, { error: 'sync_locked', message: errorMsg, logId: err.logId });
+      }
+      if (err instanceof GarminMfaRequiredError) {
+        return json(res, 401, { error: 'mfa_required', message: errorMsg, logId: job.logId });
+      }
+      return json(res, 500, { error: errorMsg, logId: job.logId });
+    }
+  }
+
+  if (req.method === 'GET' && url.pathname === '/sync/events') {
+    res.writeHead(200, {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache',
+      'connection': 'keep-alive',
+    });
+    res.write(`event: hello\ndata: ${JSON.stringify({ ...coordinator.getStatus(), profileId: profile.id })}\n\n`);
+    eventClients.set(res, profile.id);
+    req.on('close', () => eventClients.delete(res));
+    return;
+  }
+
+  const syncMatch = url.pathname.match(/^\/sync\/(\d+)(\/retry)?$/);
+  if (syncMatch && req.method === 'GET' && !syncMatch[2]) {
+    const syncId = Number(syncMatch[1]);
+    const sync = db.prepare('SELECT * FROM sync_log WHERE id = ? AND profileId = ?').get(syncId, profile.id);
+    if (!sync) {
+      return json(res, 404, { error: 'sync_not_found' });
+    }
+    return json(res, 200, { sync, errors: syncErrorBreakdown(db, syncId) });
+  }
+
+  if (syncMatch && req.method === 'POST' && syncMatch[2]) {
+    const syncId = Number(syncMatch[1]);
+    if (!db.prepare('SELECT id FROM sync_log WHERE id = ? AND profileId = ?').get(syncId, profile.id)) {
+      return json(res, 404, { error: 'sync_not_found' });
+    }
+    const pending = unresolvedSyncErrors(db, syncId).length;
+    if (pending === 0) {
+      return json(res, 400, { error: 'nothing_to_retry', message: `Sync ${syncId} has no unresolved failed items` });
+    }
+    const { job, joined, promise } = coordinator.submit('manual', { profileId: profile.id, retryOf: syncId });
+    try {
+      const result = await promise;
+      return json(res, 200, {
+        ok: true,
+        retried: pending,
+        synced: result,
+        remaining: unresolvedSyncErrors(db, syncId).length,
+        logId: job.logId,
+        joined
+      });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      if (err instanceof SyncLockedError) {
+        return json(res, 409, { error: 'sync_locked', message: errorMsg, logId: err.logId });
+      }
+      if (err instanceof GarminMfaRequiredError) {
+        return json(res, 401, { error: 'mfa_required', message: errorMsg, logId: job.logId });
+      }
+      return json(res, 500, { error: errorMsg, logId: job.logId });
     }
   }
 
   if (req.method === 'GET' && url.pathname === '/sync/status') {
-    const recent = db.prepare('SELECT * FROM sync_log ORDER BY id DESC LIMIT 10').all();
-    return json(res, 200, { recent });
+    const recent = db.prepare('SELECT * FROM sync_log WHERE profileId = ? ORDER BY id DESC LIMIT 10').all(profile.id);
+    const job = db.prepare('SELECT * FROM backfill_jobs WHERE profileId = ? ORDER BY id DESC LIMIT 1').get(profile.id) as BackfillJob | undefined;
+    return json(res, 200, { recent, backfill: job ? backfillProgress(job) : null });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/sync/backfill') {
+    if (activeBackfills.has(profile.id)) {
+      return json(res, 409, { error: 'backfill_running' });
+    }
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      return json(res, 400, { error: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+    }
+    const request = parseBackfillRequest(body);
+    if (typeof request === 'string') {
+      return json(res, 400, { error: 'invalid_backfill_request', message: request });
+    }
+    return json(res, 202, { ok: true, backfill: backfillProgress(startBackfill(profile.id, request)) });
   }
 
   if (req.method === 'GET' && url.pathname === '/export/activities') {
     const format = url.searchParams.get('format') || 'json';
+    if (format === 'gpx-zip') {
+      const from = url.searchParams.get('from') ?? '0000-01-01';
+      const to = url.searchParams.get('to') ?? '9999-12-31';
+      if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+        return json(res, 400, { error: 'invalid_range', message: 'from and to must be YYYY-MM-DD dates, from <= to' });
+      }
+      const ids = db.prepare(`
+        SELECT a.id FROM activities a JOIN activity_streams s ON s.activityId = a.id
+        WHERE a.profileId = ? AND substr(a.startTime, 1, 10) BETWEEN ? AND ? ORDER BY a.startTime
+      `).all(profile.id, from, to) as Array<{ id: string }>;
+      const files = ids.flatMap(({ id }) => {
+        const data = loadActivityExport(id);
+        return typeof data === 'object' ? [{ name: `activity-${id}.gpx`, data: renderActivityExport(data, 'gpx'), modified: data.activity.start }] : [];
+      });
+      res.writeHead(200, { 'content-type': 'application/zip', 'content-disposition': 'attachment; filename="activities-gpx.zip"' });
+      res.end(createZip(files));
+      return;
+    }
     const rows = db.prepare(`
       SELECT id, provider, startTime, type, name, distanceMeters, durationSeconds, calories,
              averageHR, maxHR, averageSpeed, maxSpeed, elevationGain, elevationLoss, description, locationName
-      FROM activities ORDER BY startTime DESC
-    `).all();
+      FROM activities WHERE profileId = ? ORDER BY startTime DESC
+    `).all(profile.id);
     
     if (format === 'csv') {
       const headers = ['id', 'provider', 'startTime', 'type', 'name', 'distanceMeters', 'durationSeconds', 'calories', 'averageHR', 'maxHR', 'averageSpeed', 'maxSpeed', 'elevationGain', 'elevationLoss', 'description', 'locationName'];
@@ -597,15 +2748,28 @@ if (req.method === 'POST' && url.pathname === '/sync') {
 
   if (req.method === 'GET' && url.pathname === '/export/daily') {
     const format = url.searchParams.get('format') || 'json';
+    // Body composition columns come from the day's last weigh-in; days with
+    // only a weigh-in (e.g. a manual one) are listed too
     const rows = db.prepare(`
-      SELECT day, steps, restingHeartRate, bodyBattery, sleepSeconds, sleepScore,
+      SELECT days.day, steps, restingHeartRate, bodyBattery, sleepSeconds, sleepScore,
              deepSleepSeconds, lightSleepSeconds, remSleepSeconds, awakeSleepSeconds,
-             avgSpO2, avgRespiration, avgStressLevel, hrvStatus
-      FROM daily_metrics ORDER BY day DESC
-    `).all();
+             avgSpO2, avgRespiration, avgStressLevel, hrvStatus,
+             ${BODY_COMPOSITION_FIELDS.join(', ')}
+      FROM (
+        SELECT day FROM daily_metrics WHERE profileId = @profileId
+        UNION SELECT day FROM body_composition WHERE profileId = @profileId
+      ) days
+      LEFT JOIN daily_metrics d ON d.profileId = @profileId AND d.day = days.day
+      LEFT JOIN (
+        SELECT day, ${BODY_COMPOSITION_FIELDS.join(', ')},
+               ROW_NUMBER() OVER (PARTITION BY day ORDER BY timestamp DESC, id DESC) AS position
+        FROM body_composition WHERE profileId = @profileId
+      ) w ON w.day = days.day AND w.position = 1
+      ORDER BY days.day DESC
+    `).all({ profileId: profile.id });
     
     if (format === 'csv') {
-      const headers = ['day', 'steps', 'restingHeartRate', 'bodyBattery', 'sleepSeconds', 'sleepScore', 'deepSleepSeconds', 'lightSleepSeconds', 'remSleepSeconds', 'awakeSleepSeconds', 'avgSpO2', 'avgRespiration', 'avgStressLevel', 'hrvStatus'];
+      const headers = ['day', 'steps', 'restingHeartRate', 'bodyBattery', 'sleepSeconds', 'sleepScore', 'deepSleepSeconds', 'lightSleepSeconds', 'remSleepSeconds', 'awakeSleepSeconds', 'avgSpO2', 'avgRespiration', 'avgStressLevel', 'hrvStatus', ...BODY_COMPOSITION_FIELDS];
       const csvRows = [headers.join(',')];
       for (const row of rows as Record<string, string | number | null>[]) {
         csvRows.push(headers.map(h => {
@@ -624,9 +2788,15 @@ if (req.method === 'POST' && url.pathname === '/sync') {
   }
 
   if (req.method === 'GET' && url.pathname === '/scheduler') {
+    const scheduler = schedulers.get(profile.id);
     const status = scheduler?.getStatus() ?? { enabled: false, intervalMs: 0, lastSyncAt: null, nextSyncAt: null, isSyncing: false };
+    const { isSyncing, currentJob, queued } = coordinator.getStatus();
     return json(res, 200, { 
-      autoSync: status,
+      profileId: profile.id,
+      autoSync: { ...status, isSyncing },
+      currentJob,
+      queued,
+      profile: { autoSyncHours: profile.autoSyncHours },
       env: {
         configured: AUTO_SYNC_INTERVAL > 0,
         intervalHours: AUTO_SYNC_INTERVAL > 0 ? AUTO_SYNC_INTERVAL / (60 * 60 * 1000) : null,
@@ -635,8 +2805,14 @@ if (req.method === 'POST' && url.pathname === '/sync') {
   }
 
   if (req.method === 'POST' && url.pathname === '/scheduler/trigger') {
+    const scheduler = schedulers.get(profile.id);
     if (!scheduler) {
-      return json(res, 503, { error: 'scheduler_not_configured', message: 'Set GARMIN_AUTO_SYNC_INTERVAL to enable' });
+      return json(res, 503, {
+        error: 'scheduler_not_configured',
+        message: profile.id === DEFAULT_PROFILE_ID
+          ? 'Set GARMIN_AUTO_SYNC_INTERVAL or the profile\'s autoSyncHours to enable'
+          : `Set autoSyncHours on profile ${profile.id} to enable`,
+      });
     }
     scheduler.triggerNow();
     return json(res, 200, { ok: true, message: 'Sync triggered' });
@@ -645,22 +2821,22 @@ if (req.method === 'POST' && url.pathname === '/sync') {
   if (req.method === 'GET' && url.pathname === '/dashboard') {
     const stats = db.prepare(`
       SELECT 
-        (SELECT COUNT(*) FROM activities) as totalActivities,
-        (SELECT COUNT(*) FROM daily_metrics) as totalDays,
-        (SELECT COUNT(*) FROM activities WHERE startTime > datetime('now', '-7 days')) as recentActivities,
-        (SELECT MAX(day) FROM daily_metrics) as latestDay
-    `).get() as { totalActivities: number; totalDays: number; recentActivities: number; latestDay: string };
+        (SELECT COUNT(*) FROM activities WHERE profileId = @profileId) as totalActivities,
+        (SELECT COUNT(*) FROM daily_metrics WHERE profileId = @profileId) as totalDays,
+        (SELECT COUNT(*) FROM activities WHERE profileId = @profileId AND startTime > datetime('now', '-7 days')) as recentActivities,
+        (SELECT MAX(day) FROM daily_metrics WHERE profileId = @profileId) as latestDay
+    `).get({ profileId: profile.id }) as { totalActivities: number; totalDays: number; recentActivities: number; latestDay: string };
     
-    const recentSyncs = db.prepare('SELECT * FROM sync_log ORDER BY id DESC LIMIT 5').all() as Array<{
+    const recentSyncs = db.prepare('SELECT * FROM sync_log WHERE profileId = ? ORDER BY id DESC LIMIT 5').all(profile.id) as Array<{
       id: number; startedAt: string; endedAt: string | null; status: string; details: string | null;
     }>;
     
     const last7Days = db.prepare(`
       SELECT day, steps, restingHeartRate, sleepSeconds, sleepScore, bodyBattery
       FROM daily_metrics 
-      WHERE day >= date('now', '-7 days')
+      WHERE profileId = ? AND day >= date('now', '-7 days')
       ORDER BY day ASC
-    `).all() as Array<{
+    `).all(profile.id) as Array<{
       day: string; steps: number; restingHeartRate: number | null; sleepSeconds: number | null;
       sleepScore: number | null; bodyBattery: number | null;
     }>;
@@ -668,12 +2844,17 @@ if (req.method === 'POST' && url.pathname === '/sync') {
     const recentActivities = db.prepare(`
       SELECT startTime, type, name, distanceMeters, durationSeconds, calories
       FROM activities 
+      WHERE profileId = ?
       ORDER BY startTime DESC LIMIT 5
-    `).all() as Array<{
+    `).all(profile.id) as Array<{
       startTime: string; type: string; name: string; distanceMeters: number;
       durationSeconds: number; calories: number;
     }>;
 
+    // Links stay on the profile the dashboard was opened for
+    const base = profile.id === DEFAULT_PROFILE_ID ? '' : `/profiles/${profile.id}`;
+    const autoSyncMs = autoSyncInterval(profile);
+
     const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -701,6 +2882,7 @@ if (req.method === 'POST' && url.pathname === '/sync') {
     .status-success { color: #34C759; font-weight: 600; }
     .status-error { color: #FF3B30; font-weight: 600; }
     .status-running { color: #FF9500; font-weight: 600; }
+    .status-partial { color: #FF9500; font-weight: 600; }
     .chart-bar { display: flex; align-items: flex-end; height: 120px; gap: 6px; margin-top: 16px; }
     .bar { flex: 1; background: #007AFF; border-radius: 4px 4px 0 0; min-height: 4px; position: relative; }
     .bar:hover { opacity: 0.8; }
@@ -722,13 +2904,13 @@ if (req.method === 'POST' && url.pathname === '/sync') {
   <div class="container">
     <header>
       <h1>Garmin Health Dashboard</h1>
-      <p class="subtitle">Real-time sync status and health metrics</p>
+      <p class="subtitle">Real-time sync status and health metrics · Profile: ${profile.name}</p>
     </header>
 
     <div class="actions">
-      <a href="/dashboard" class="btn">Refresh</a>
-      <a href="/export/activities?format=csv" class="btn btn-secondary" style="margin-left:8px">Export Activities (CSV)</a>
-      <a href="/export/daily?format=csv" class="btn btn-secondary" style="margin-left:8px">Export Daily (CSV)</a>
+      <a href="${base}/dashboard" class="btn">Refresh</a>
+      <a href="${base}/export/activities?format=csv" class="btn btn-secondary" style="margin-left:8px">Export Activities (CSV)</a>
+      <a href="${base}/export/daily?format=csv" class="btn btn-secondary" style="margin-left:8px">Export Daily (CSV)</a>
     </div>
 
     <div class="grid">
@@ -744,13 +2926,13 @@ if (req.method === 'POST' && url.pathname === '/sync') {
       </div>
       <div class="card">
         <h3>Auto Sync</h3>
-        <div class="value">${AUTO_SYNC_INTERVAL > 0 ? 'ON' : 'OFF'}</div>
-        <div class="label">${AUTO_SYNC_INTERVAL > 0 ? `Every ${AUTO_SYNC_INTERVAL / (60 * 60 * 1000)}h` : 'Manual only'}</div>
+        <div class="value">${autoSyncMs > 0 ? 'ON' : 'OFF'}</div>
+        <div class="label">${autoSyncMs > 0 ? `Every ${autoSyncMs / (60 * 60 * 1000)}h` : 'Manual only'}</div>
       </div>
       <div class="card">
         <h3>Garmin</h3>
-        <div class="value">${GARMIN_USERNAME ? '✓' : '✗'}</div>
-        <div class="label">${GARMIN_USERNAME ? 'Configured' : 'Not configured'}</div>
+        <div class="value">${garminUsername(profile) ? '✓' : '✗'}</div>
+        <div class="label">${garminUsername(profile) ? 'Configured' : 'Not configured'}</div>
       </div>
     </div>
 
@@ -778,7 +2960,7 @@ if (req.method === 'POST' && url.pathname === '/sync') {
         </thead>
         <tbody>
           ${recentSyncs.map(s => {
-            const statusClass = s.status === 'success' ? 'status-success' : s.status === 'error' ? 'status-error' : 'status-running';
+            const statusClass = s.status === 'success' ? 'status-success' : s.status === 'error' || s.status === 'mfa_required' ? 'status-error' : s.status === 'partial' ? 'status-partial' : 'status-running';
             return `<tr>
               <td>${new Date(s.startedAt).toLocaleString()}</td>
               <td class="${statusClass}">${s.status}</td>
@@ -819,14 +3001,40 @@ if (req.method === 'POST' && url.pathname === '/sync') {
           <tr><th>Method</th><th>Path</th><th>Description</th></tr>
         </thead>
         <tbody>
+          <tr><td>GET</td><td>/profiles</td><td>List profiles; every route below also works as <code>/profiles/{id}/...</code> or with an <code>x-garmin-profile</code> header</td></tr>
+          <tr><td>POST</td><td>/profiles</td><td>Create a profile with <code>{"name", "username", "autoSyncHours"}</code></td></tr>
+          <tr><td>PATCH</td><td>/profiles/{id}</td><td>Rename a profile or change its username or sync interval</td></tr>
+          <tr><td>DELETE</td><td>/profiles/{id}</td><td>Delete a profile and all its data</td></tr>
           <tr><td>GET</td><td>/health</td><td>Service health status</td></tr>
+          <tr><td>POST</td><td>/auth/login</td><td>Log in to Garmin; returns a challenge if the account uses MFA</td></tr>
+          <tr><td>POST</td><td>/auth/mfa</td><td>Finish an MFA login with <code>{"challengeId", "code"}</code></td></tr>
           <tr><td>GET</td><td>/activities</td><td>List all activities</td></tr>
           <tr><td>GET</td><td>/activities/{id}</td><td>Activity details</td></tr>
+          <tr><td>GET</td><td>/activities/{id}/laps</td><td>Activity laps</td></tr>
+          <tr><td>GET</td><td>/activities/{id}/streams</td><td>Activity metric streams (HR, speed, GPS, ...)</td></tr>
+          <tr><td>GET</td><td>/activities/{id}/export?format=gpx|tcx</td><td>Activity as GPX or TCX file</td></tr>
+          <tr><td>GET</td><td>/activities/{id}/fit</td><td>Decoded FIT sessions, laps and devices</td></tr>
+          <tr><td>POST</td><td>/fit/reparse</td><td>Re-decode stored FIT files offline</td></tr>
           <tr><td>GET</td><td>/daily</td><td>Daily metrics history</td></tr>
+          <tr><td>GET</td><td>/changes?since={cursor}</td><td>Rows inserted, updated or deleted since a cursor</td></tr>
+          <tr><td>GET</td><td>/heart-rate/{date}</td><td>All-day heart rate samples</td></tr>
+          <tr><td>GET</td><td>/heart-rate?from=&amp;to=&amp;bucket=15m</td><td>Heart rate min/avg/max per bucket</td></tr>
+          <tr><td>GET</td><td>/performance?from=&amp;to=</td><td>Training readiness, status, load, VO2 max, race predictions</td></tr>
+          <tr><td>GET</td><td>/body-composition?from=&amp;to=</td><td>Weigh-ins (Garmin and manual)</td></tr>
+          <tr><td>POST</td><td>/body-composition</td><td>Add a manual weigh-in</td></tr>
+          <tr><td>GET</td><td>/gear</td><td>Shoes and bikes with distance and retirement status</td></tr>
+          <tr><td>GET</td><td>/records</td><td>Personal records</td></tr>
+          <tr><td>GET</td><td>/sleep/{date}</td><td>Sleep sessions and stage timeline</td></tr>
+          <tr><td>GET</td><td>/body-battery/{date}</td><td>Intraday Body Battery with charged/drained</td></tr>
+          <tr><td>GET</td><td>/stress/{date}</td><td>Intraday stress levels</td></tr>
           <tr><td>GET</td><td>/trends</td><td>Health trends (sleep, stress, HRV, body battery)</td></tr>
-          <tr><td>POST</td><td>/sync</td><td>Trigger Garmin sync</td></tr>
-          <tr><td>GET</td><td>/sync/status</td><td>Sync history log</td></tr>
-          <tr><td>GET</td><td>/export/activities</td><td>Export activities (JSON/CSV)</td></tr>
+          <tr><td>POST</td><td>/sync</td><td>Trigger Garmin sync (<code>{"dryRun": true}</code> previews changes)</td></tr>
+          <tr><td>GET</td><td>/sync/events</td><td>Live sync progress (Server-Sent Events)</td></tr>
+          <tr><td>GET</td><td>/sync/status</td><td>Sync history log and backfill progress</td></tr>
+          <tr><td>GET</td><td>/sync/{id}</td><td>Sync details with failed items</td></tr>
+          <tr><td>POST</td><td>/sync/{id}/retry</td><td>Re-fetch only the failed items of a sync</td></tr>
+          <tr><td>POST</td><td>/sync/backfill</td><td>Start a historical backfill</td></tr>
+          <tr><td>GET</td><td>/export/activities</td><td>Export activities (JSON/CSV/GPX zip)</td></tr>
           <tr><td>GET</td><td>/export/daily</td><td>Export daily metrics (JSON/CSV)</td></tr>
         </tbody>
       </table>
@@ -878,9 +3086,9 @@ if (req.method === 'POST' && url.pathname === '/sync') {
              avgSpO2,
              hrvStatus
       FROM daily_metrics
-      WHERE day >= date('now', '-' || ? || ' days')
+      WHERE profileId = ? AND day >= date('now', '-' || ? || ' days')
       ORDER BY day ASC
-    `).all(days) as Array<{
+    `).all(profile.id, days) as Array<{
       day: string;
       bodyBattery: number | null;
       sleepSeconds: number | null;
@@ -894,9 +3102,27 @@ if (req.method === 'POST' && url.pathname === '/sync') {
       hrvStatus: string | null;
     }>;
 
+    const hrvNights = db.prepare(`
+      SELECT day, lastNightAvg, weeklyAvg, baselineLow, baselineHigh, status
+      FROM hrv_daily
+      WHERE profileId = ? AND day >= date('now', '-' || ? || ' days')
+      ORDER BY day ASC
+    `).all(profile.id, days) as Array<{
+      day: string;
+      lastNightAvg: number | null;
+      weeklyAvg: number | null;
+      baselineLow: number | null;
+      baselineHigh: number | null;
+      status: string | null;
+    }>;
+    const hrvValues = hrvNights.map(n => n.lastNightAvg).filter((v): v is number => v !== null);
+
     // Calculate trends
     const trends = recentData.length > 1 ? {
-      hrv: recentData.map(d => d.hrvStatus).filter(Boolean).length / recentData.length,
+      hrv: {
+        avg: hrvValues.length ? Math.round(hrvValues.reduce((sum, v) => sum + v, 0) / hrvValues.length * 10) / 10 : null,
+        nights: hrvNights.map(n => ({ ...n, inBaseline: withinBaseline(n) })),
+      },
       stress: recentData.reduce((sum, d) => sum + (d.avgStressLevel || 0), 0) / (recentData.length || 1),
       bodyBattery: recentData.map(d => d.bodyBattery || 0),
       sleep: recentData.map(d => ({
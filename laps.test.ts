@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'bun:test';
+import { normalizeLaps } from './laps';
+
+describe('normalizeLaps', () => {
+  it('should derive start offsets from lap start times', () => {
+    const laps = normalizeLaps([
+      { lapIndex: 1, startTimeGMT: '2026-10-19T07:00:00.0', duration: 300 },
+      { lapIndex: 2, startTimeGMT: '2026-10-19T07:05:30.0', duration: 290 },
+    ]);
+    expect(laps.map(l => l.startOffsetSeconds)).toEqual([0, 330]);
+  });
+
+  it('should fall back to accumulated durations without start times', () => {
+    const laps = normalizeLaps([{ duration: 300 }, { duration: 310 }, { duration: 305 }]);
+    expect(laps.map(l => [l.lapIndex, l.startOffsetSeconds])).toEqual([[1, 0], [2, 300], [3, 610]]);
+  });
+
+  it('should convert speed to pace and pick the available cadence', () => {
+    const [run, ride] = normalizeLaps([
+      { averageSpeed: 4, averageRunCadence: 172 },
+      { averageSpeed: 0, averageBikeCadence: 88 },
+    ]);
+    expect(run!.avgPaceSecondsPerKm).toBe(250);
+    expect(run!.averageCadence).toBe(172);
+    expect(ride!.avgPaceSecondsPerKm).toBeNull();
+    expect(ride!.averageCadence).toBe(88);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Activity lap normalization for Garmin Health Sync
+ * Maps Garmin split summaries (lapDTOs) to activity_laps rows
+ */
+
+/** One entry of `lapDTOs` from /activity-service/activity/{id}/splits. */
+export interface GarminLap {
+  lapIndex?: number;
+  startTimeGMT?: string;
+  duration?: number;
+  distance?: number;
+  averageHR?: number;
+  maxHR?: number;
+  averageSpeed?: number;
+  averageRunCadence?: number;
+  averageBikeCadence?: number;
+  elevationGain?: number;
+  elevationLoss?: number;
+}
+
+export interface ActivityLap {
+  lapIndex: number;
+  startOffsetSeconds: number;
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+  averageHR: number | null;
+  maxHR: number | null;
+  avgPaceSecondsPerKm: number | null;
+  averageCadence: number | null;
+  elevationGain: number | null;
+  elevationLoss: number | null;
+}
+
+function parseGmt(value: string | undefined): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value.endsWith('Z') ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Normalizes laps in recorded order. Start offsets come from lap start times
+ * relative to the first lap; laps without a start time fall back to the
+ * running total of previous lap durations.
+ */
+export function normalizeLaps(laps: GarminLap[]): ActivityLap[] {
+  const firstStart = parseGmt(laps[0]?.startTimeGMT);
+  let elapsed = 0;
+  return laps.map((lap, i) => {
+    const start = parseGmt(lap.startTimeGMT);
+    const startOffsetSeconds = start !== null && firstStart !== null ? (start - firstStart) / 1000 : elapsed;
+    elapsed = startOffsetSeconds + (lap.duration ?? 0);
+    return {
+      lapIndex: lap.lapIndex ?? i + 1,
+      startOffsetSeconds,
+      durationSeconds: lap.duration ?? null,
+      distanceMeters: lap.distance ?? null,
+      averageHR: lap.averageHR ?? null,
+      maxHR: lap.maxHR ?? null,
+      avgPaceSecondsPerKm: lap.averageSpeed ? 1000 / lap.averageSpeed : null,
+      averageCadence: lap.averageRunCadence ?? lap.averageBikeCadence ?? null,
+      elevationGain: lap.elevationGain ?? null,
+      elevationLoss: lap.elevationLoss ?? null,
+    };
+  });
+}
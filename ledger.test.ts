@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { migrateDatabase } from './schema';
+import { GarminAuthError, GarminServerError, GarminThrottledError } from './request';
+import { attemptItem, recordSyncError, retryFailedItems, syncErrorBreakdown, unresolvedSyncErrors, type ItemErrorHandler, type SyncItem } from './ledger';
+
+describe('sync error ledger', () => {
+  let db: Database;
+  let failedSync: number;
+  let retrySync: number;
+
+  const startSync = () => Number(db.prepare("INSERT INTO sync_log (profileId, startedAt, status) VALUES (1, '2026-10-19T08:00:00Z', 'running')").run().lastInsertRowid);
+  const record: (syncId: number) => ItemErrorHandler = syncId => (item, err) => recordSyncError(db, syncId, item, err);
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    migrateDatabase(db);
+    failedSync = startSync();
+    retrySync = startSync();
+    recordSyncError(db, failedSync, { dataType: 'sleep', day: '2026-10-17' }, new GarminServerError(503, '/sleep', null, 'Garmin API error 503'));
+    recordSyncError(db, failedSync, { dataType: 'activities', activityId: '12345' }, new GarminThrottledError('/activity/12345', null));
+    recordSyncError(db, failedSync, { dataType: 'hrv', day: '2026-10-18' }, new GarminServerError(0, '/hrv', null, 'socket hang up'));
+  });
+
+  it('should record each failed item against its sync', () => {
+    expect(db.prepare('SELECT dataType, day, activityId, httpStatus, message FROM sync_errors WHERE syncId = ? ORDER BY id').all(failedSync)).toEqual([
+      { dataType: 'sleep', day: '2026-10-17', activityId: null, httpStatus: 503, message: 'Garmin API error 503' },
+      { dataType: 'activities', day: null, activityId: '12345', httpStatus: 429, message: expect.any(String) },
+      { dataType: 'hrv', day: '2026-10-18', activityId: null, httpStatus: null, message: 'socket hang up' },
+    ]);
+  });
+
+  it('should mark only the items whose retry succeeded as resolved', async () => {
+    const retried: SyncItem[] = [];
+    await retryFailedItems(db, failedSync, retrySync, async item => {
+      retried.push(item);
+      if (item.dataType === 'sleep') throw new GarminServerError(503, '/sleep', null, 'still down');
+    }, record(retrySync));
+
+    expect(retried).toEqual([
+      { dataType: 'sleep', day: '2026-10-17', activityId: undefined },
+      { dataType: 'activities', day: undefined, activityId: '12345' },
+      { dataType: 'hrv', day: '2026-10-18', activityId: undefined },
+    ]);
+    expect(db.prepare('SELECT dataType, resolvedBySyncId FROM sync_errors WHERE syncId = ? ORDER BY id').all(failedSync)).toEqual([
+      { dataType: 'sleep', resolvedBySyncId: null },
+      { dataType: 'activities', resolvedBySyncId: retrySync },
+      { dataType: 'hrv', resolvedBySyncId: retrySync },
+    ]);
+    // The retry's own failure is in its ledger, so it can be retried in turn
+    expect(unresolvedSyncErrors(db, retrySync).map(error => error.message)).toEqual(['still down']);
+  });
+
+  it('should not resolve an item whose retry reported a nested item error', async () => {
+    await retryFailedItems(db, failedSync, retrySync, async (item, onItemError) => {
+      // e.g. the activity listing went through but one activity on it failed
+      if (item.dataType === 'activities') onItemError({ dataType: 'activities', activityId: '777' }, new GarminServerError(500, '/activity/777'));
+    }, record(retrySync));
+
+    expect(unresolvedSyncErrors(db, failedSync).map(error => error.dataType)).toEqual(['activities']);
+    expect(unresolvedSyncErrors(db, retrySync).map(error => error.activityId)).toEqual(['777']);
+  });
+
+  it('should stop the retry on errors that are not per item', async () => {
+    const run = retryFailedItems(db, failedSync, retrySync, async () => {
+      throw new GarminAuthError(401, '/sleep', 'Session expired');
+    }, record(retrySync));
+    await expect(run).rejects.toBeInstanceOf(GarminAuthError);
+    expect(unresolvedSyncErrors(db, failedSync)).toHaveLength(3);
+  });
+
+  it('should report progress per item', async () => {
+    const progress: Array<[number, number, string | undefined]> = [];
+    await retryFailedItems(db, failedSync, retrySync, async () => {}, record(retrySync), (done, total, item) => progress.push([done, total, item]));
+    expect(progress).toEqual([[0, 3, undefined], [1, 3, '2026-10-17'], [2, 3, '12345'], [3, 3, '2026-10-18']]);
+  });
+
+  it('should break the failures of GET /sync/:id down by type', async () => {
+    await retryFailedItems(db, failedSync, retrySync, async item => {
+      if (item.dataType !== 'hrv') throw new GarminServerError(503, '/x');
+    }, record(retrySync));
+
+    const breakdown = syncErrorBreakdown(db, failedSync);
+    expect(breakdown.total).toBe(3);
+    expect(breakdown.byType).toEqual({
+      sleep: { failed: 1, unresolved: 1 },
+      activities: { failed: 1, unresolved: 1 },
+      hrv: { failed: 1, unresolved: 0 },
+    });
+    expect(breakdown.items.map(item => item.resolvedBySyncId)).toEqual([null, null, retrySync]);
+    expect(syncErrorBreakdown(db, retrySync).byType).toEqual({
+      sleep: { failed: 1, unresolved: 1 },
+      activities: { failed: 1, unresolved: 1 },
+    });
+  });
+});
+
+describe('attemptItem', () => {
+  it('should hand Garmin item errors to the handler and rethrow anything else', async () => {
+    const failures: SyncItem[] = [];
+    const handler: ItemErrorHandler = item => failures.push(item);
+    expect(await attemptItem({ dataType: 'sleep', day: '2026-10-19' }, async () => {}, handler)).toBe(true);
+    expect(await attemptItem({ dataType: 'sleep', day: '2026-10-19' }, async () => { throw new GarminServerError(502, '/sleep'); }, handler)).toBe(false);
+    expect(failures).toEqual([{ dataType: 'sleep', day: '2026-10-19' }]);
+    await expect(attemptItem({ dataType: 'sleep' }, async () => { throw new TypeError('bug'); }, handler)).rejects.toBeInstanceOf(TypeError);
+  });
+});
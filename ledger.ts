@@ -0,0 +1,99 @@
+/**
+ * Sync error ledger for Garmin Health Sync
+ * Records the items a sync could not fetch and retries exactly those later
+ */
+
+import { GarminApiError, GarminAuthError } from './request.js';
+import type { SqlDatabase } from './schema.js';
+import type { SyncDataType } from './sync.js';
+
+/** One unit of Garmin data: an activity, one wellness type for a day, or the activity list itself. */
+export type SyncItem = { dataType: SyncDataType; day?: string; activityId?: string };
+
+export type ItemErrorHandler = (item: SyncItem, err: GarminApiError) => void;
+
+export type SyncErrorRow = {
+  id: number;
+  syncId: number;
+  dataType: SyncDataType;
+  day: string | null;
+  activityId: string | null;
+  httpStatus: number | null;
+  message: string;
+  createdAt: string;
+  resolvedBySyncId: number | null;
+};
+
+/**
+ * Per-item failures are Garmin errors that survived the retries. An expired
+ * session or a bug in our own code still aborts the whole sync.
+ */
+export function isItemError(err: unknown): err is GarminApiError {
+  return err instanceof GarminApiError && !(err instanceof GarminAuthError);
+}
+
+/** Runs `fn` for one item, handing a per-item Garmin failure to `onItemError`. */
+export async function attemptItem(item: SyncItem, fn: () => Promise<void>, onItemError: ItemErrorHandler): Promise<boolean> {
+  try {
+    await fn();
+    return true;
+  } catch (err) {
+    if (!isItemError(err)) throw err;
+    onItemError(item, err);
+    return false;
+  }
+}
+
+export function recordSyncError(db: SqlDatabase, syncId: number, item: SyncItem, err: GarminApiError): void {
+  db.prepare(`
+    INSERT INTO sync_errors (syncId, dataType, day, activityId, httpStatus, message, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(syncId, item.dataType, item.day ?? null, item.activityId ?? null, err.status || null, err.message, new Date().toISOString());
+}
+
+export function unresolvedSyncErrors(db: SqlDatabase, syncId: number): SyncErrorRow[] {
+  return db.prepare('SELECT * FROM sync_errors WHERE syncId = ? AND resolvedBySyncId IS NULL ORDER BY id')
+    .all(syncId) as SyncErrorRow[];
+}
+
+/** The failed items of a sync as reported by GET /sync/:id, with per-type counts. */
+export function syncErrorBreakdown(db: SqlDatabase, syncId: number) {
+  const items = db.prepare('SELECT * FROM sync_errors WHERE syncId = ? ORDER BY id').all(syncId) as SyncErrorRow[];
+  const byType: Record<string, { failed: number; unresolved: number }> = {};
+  for (const error of items) {
+    byType[error.dataType] ??= { failed: 0, unresolved: 0 };
+    byType[error.dataType]!.failed++;
+    if (error.resolvedBySyncId === null) byType[error.dataType]!.unresolved++;
+  }
+  return { total: items.length, byType, items };
+}
+
+/**
+ * Re-fetches exactly the unresolved items of sync `syncId` through `retry`.
+ * An item is marked resolved by `retrySyncId` only when it went through
+ * without a new item error, including ones `retry` routes to the handler it
+ * is given instead of throwing.
+ */
+export async function retryFailedItems(
+  db: SqlDatabase,
+  syncId: number,
+  retrySyncId: number,
+  retry: (item: SyncItem, onItemError: ItemErrorHandler) => Promise<void>,
+  onItemError: ItemErrorHandler,
+  onProgress: (done: number, total: number, item?: string) => void = () => {},
+): Promise<void> {
+  const failures = unresolvedSyncErrors(db, syncId);
+  const resolve = db.prepare('UPDATE sync_errors SET resolvedBySyncId = ? WHERE id = ?');
+  onProgress(0, failures.length);
+  for (const [i, failure] of failures.entries()) {
+    const item: SyncItem = { dataType: failure.dataType, day: failure.day ?? undefined, activityId: failure.activityId ?? undefined };
+    let failed = false;
+    const handler: ItemErrorHandler = (failedItem, err) => {
+      failed = true;
+      onItemError(failedItem, err);
+    };
+    const ok = await attemptItem(item, () => retry(item, handler), handler);
+    if (ok && !failed) resolve.run(retrySyncId, failure.id);
+    onProgress(i + 1, failures.length, failure.activityId ?? failure.day ?? failure.dataType);
+  }
+}
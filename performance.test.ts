@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'bun:test';
+import { parsePerformanceDay, withPreviousResponses } from './performance';
+
+describe('parsePerformanceDay', () => {
+  it('should flatten all performance responses into one row', () => {
+    const metrics = parsePerformanceDay({
+      trainingReadiness: [
+        { timestamp: '2026-10-19T09:00:00.0', score: 71, level: 'HIGH' },
+        { timestamp: '2026-10-19T05:30:00.0', score: 64, level: 'MODERATE' },
+      ],
+      trainingStatus: {
+        mostRecentVO2Max: { generic: { vo2MaxPreciseValue: 51.2, vo2MaxValue: 51 }, cycling: null },
+        mostRecentTrainingLoadBalance: {
+          metricsTrainingLoadBalanceDTOMap: {
+            '111': { primaryTrainingDevice: false, trainingBalanceFeedbackPhrase: 'BALANCED' },
+            '222': { primaryTrainingDevice: true, trainingBalanceFeedbackPhrase: 'AEROBIC_HIGH_SHORTAGE' },
+          },
+        },
+        mostRecentTrainingStatus: {
+          latestTrainingStatusData: {
+            '222': {
+              primaryTrainingDevice: true,
+              trainingStatusFeedbackPhrase: 'PRODUCTIVE_3',
+              acuteTrainingLoadDTO: { dailyTrainingLoadAcute: 612, dailyTrainingLoadChronic: 540, dailyAcuteChronicWorkloadRatio: 1.1 },
+            },
+          },
+        },
+      },
+      maxMetrics: [{ generic: { vo2MaxPreciseValue: 51.4 }, cycling: { vo2MaxValue: 47 } }],
+      racePredictions: [{ time5K: 1260, time10K: 2640, timeHalfMarathon: 5880, timeMarathon: 12400 }],
+    });
+    expect(metrics).toEqual({
+      trainingReadiness: 71,
+      trainingReadinessLevel: 'HIGH',
+      trainingStatus: 'PRODUCTIVE',
+      loadFocus: 'AEROBIC_HIGH_SHORTAGE',
+      acuteLoad: 612,
+      chronicLoad: 540,
+      acuteChronicRatio: 1.1,
+      vo2MaxRunning: 51.4,
+      vo2MaxCycling: 47,
+      race5kSeconds: 1260,
+      race10kSeconds: 2640,
+      raceHalfMarathonSeconds: 5880,
+      raceMarathonSeconds: 12400,
+    });
+  });
+
+  it('should fall back to the VO2 max in the training status', () => {
+    const metrics = parsePerformanceDay({
+      trainingStatus: { mostRecentVO2Max: { generic: { vo2MaxValue: 50 } } },
+      maxMetrics: [],
+    });
+    expect(metrics).toMatchObject({ vo2MaxRunning: 50, vo2MaxCycling: null, trainingReadiness: null });
+  });
+
+  it('should return null when no endpoint had data', () => {
+    expect(parsePerformanceDay({ trainingReadiness: [], trainingStatus: null, maxMetrics: null, racePredictions: [] })).toBeNull();
+  });
+});
+
+describe('withPreviousResponses', () => {
+  const previous = {
+    trainingReadiness: [{ timestamp: '2026-10-18T06:00:00.0', score: 55 }],
+    racePredictions: [{ time5K: 1300 }],
+  };
+
+  it('should keep the stored response of an endpoint that failed', () => {
+    const day = withPreviousResponses({ trainingReadiness: [{ timestamp: '2026-10-19T06:00:00.0', score: 70 }], failed: ['racePredictions'] }, previous);
+    expect(day).toEqual({ trainingReadiness: [{ timestamp: '2026-10-19T06:00:00.0', score: 70 }], racePredictions: [{ time5K: 1300 }] });
+    expect(parsePerformanceDay(day)).toMatchObject({ trainingReadiness: 70, race5kSeconds: 1300 });
+  });
+
+  it('should leave the day alone when nothing failed or nothing was stored', () => {
+    const fresh = { trainingReadiness: [{ score: 70 }] };
+    expect(withPreviousResponses(fresh, previous)).toBe(fresh);
+    expect(withPreviousResponses({ maxMetrics: [], failed: ['racePredictions'] }, null)).toEqual({ maxMetrics: [], failed: ['racePredictions'] });
+  });
+
+  it('should still mark endpoints that failed before as failed', () => {
+    expect(withPreviousResponses({ maxMetrics: [], failed: ['trainingStatus'] }, { ...previous, failed: ['trainingStatus'] }))
+      .toEqual({ maxMetrics: [], failed: ['trainingStatus'] });
+  });
+});
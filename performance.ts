@@ -0,0 +1,140 @@
+/**
+ * Performance metric helpers for Garmin Health Sync
+ * Flattens training readiness, training status, VO2 max and race predictions into one daily row
+ */
+
+export interface GarminTrainingReadiness {
+  calendarDate?: string;
+  timestamp?: string;
+  score?: number | null;
+  level?: string | null;
+}
+
+interface GarminVo2Max {
+  vo2MaxPreciseValue?: number | null;
+  vo2MaxValue?: number | null;
+}
+
+export interface GarminTrainingStatus {
+  mostRecentVO2Max?: { generic?: GarminVo2Max | null; cycling?: GarminVo2Max | null } | null;
+  mostRecentTrainingLoadBalance?: {
+    metricsTrainingLoadBalanceDTOMap?: Record<string, {
+      primaryTrainingDevice?: boolean;
+      trainingBalanceFeedbackPhrase?: string | null;
+    }>;
+  } | null;
+  mostRecentTrainingStatus?: {
+    latestTrainingStatusData?: Record<string, {
+      primaryTrainingDevice?: boolean;
+      trainingStatusFeedbackPhrase?: string | null;
+      acuteTrainingLoadDTO?: {
+        dailyTrainingLoadAcute?: number | null;
+        dailyTrainingLoadChronic?: number | null;
+        dailyAcuteChronicWorkloadRatio?: number | null;
+      } | null;
+    }>;
+  } | null;
+}
+
+export interface GarminMaxMetrics {
+  generic?: GarminVo2Max | null;
+  cycling?: GarminVo2Max | null;
+}
+
+export interface GarminRacePredictions {
+  time5K?: number | null;
+  time10K?: number | null;
+  timeHalfMarathon?: number | null;
+  timeMarathon?: number | null;
+}
+
+/** The per-day responses of the performance endpoints; any of them may be missing. */
+export interface GarminPerformanceDay {
+  trainingReadiness?: GarminTrainingReadiness[] | null;
+  trainingStatus?: GarminTrainingStatus | null;
+  maxMetrics?: GarminMaxMetrics[] | null;
+  racePredictions?: GarminRacePredictions[] | null;
+  /** Endpoints whose request failed, as opposed to having no data */
+  failed?: PerformanceEndpoint[];
+}
+
+export const PERFORMANCE_ENDPOINTS = ['trainingReadiness', 'trainingStatus', 'maxMetrics', 'racePredictions'] as const;
+export type PerformanceEndpoint = typeof PERFORMANCE_ENDPOINTS[number];
+
+export interface PerformanceMetrics {
+  trainingReadiness: number | null;
+  trainingReadinessLevel: string | null;
+  trainingStatus: string | null;
+  loadFocus: string | null;
+  acuteLoad: number | null;
+  chronicLoad: number | null;
+  acuteChronicRatio: number | null;
+  vo2MaxRunning: number | null;
+  vo2MaxCycling: number | null;
+  race5kSeconds: number | null;
+  race10kSeconds: number | null;
+  raceHalfMarathonSeconds: number | null;
+  raceMarathonSeconds: number | null;
+}
+
+export const PERFORMANCE_COLUMNS = [
+  'trainingReadiness', 'trainingReadinessLevel', 'trainingStatus', 'loadFocus',
+  'acuteLoad', 'chronicLoad', 'acuteChronicRatio', 'vo2MaxRunning', 'vo2MaxCycling',
+  'race5kSeconds', 'race10kSeconds', 'raceHalfMarathonSeconds', 'raceMarathonSeconds',
+] as const satisfies ReadonlyArray<keyof PerformanceMetrics>;
+
+/** Flattens one day of performance responses. Returns null when Garmin had nothing for the day. */
+export function parsePerformanceDay(data: GarminPerformanceDay): PerformanceMetrics | null {
+  // Readiness is recomputed through the day; the latest entry wins
+  const readiness = [...(data.trainingReadiness ?? [])]
+    .sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''))
+    .pop();
+  const status = primaryDevice(data.trainingStatus?.mostRecentTrainingStatus?.latestTrainingStatusData);
+  const balance = primaryDevice(data.trainingStatus?.mostRecentTrainingLoadBalance?.metricsTrainingLoadBalanceDTOMap);
+  const maxMetrics = data.maxMetrics?.[0];
+  const vo2Run = maxMetrics?.generic ?? data.trainingStatus?.mostRecentVO2Max?.generic;
+  const vo2Bike = maxMetrics?.cycling ?? data.trainingStatus?.mostRecentVO2Max?.cycling;
+  const race = data.racePredictions?.[data.racePredictions.length - 1];
+  const load = status?.acuteTrainingLoadDTO;
+
+  const metrics: PerformanceMetrics = {
+    trainingReadiness: readiness?.score ?? null,
+    trainingReadinessLevel: readiness?.level ?? null,
+    // Phrases carry a variant suffix, e.g. PRODUCTIVE_3
+    trainingStatus: status?.trainingStatusFeedbackPhrase?.replace(/_\d+$/, '') ?? null,
+    loadFocus: balance?.trainingBalanceFeedbackPhrase ?? null,
+    acuteLoad: load?.dailyTrainingLoadAcute ?? null,
+    chronicLoad: load?.dailyTrainingLoadChronic ?? null,
+    acuteChronicRatio: load?.dailyAcuteChronicWorkloadRatio ?? null,
+    vo2MaxRunning: vo2Run?.vo2MaxPreciseValue ?? vo2Run?.vo2MaxValue ?? null,
+    vo2MaxCycling: vo2Bike?.vo2MaxPreciseValue ?? vo2Bike?.vo2MaxValue ?? null,
+    race5kSeconds: race?.time5K ?? null,
+    race10kSeconds: race?.time10K ?? null,
+    raceHalfMarathonSeconds: race?.timeHalfMarathon ?? null,
+    raceMarathonSeconds: race?.timeMarathon ?? null,
+  };
+  return PERFORMANCE_COLUMNS.some(column => metrics[column] !== null) ? metrics : null;
+}
+
+/**
+ * Fills the endpoints that failed this time from the day as stored before,
+ * so one failed request does not blank the columns it feeds.
+ */
+export function withPreviousResponses(day: GarminPerformanceDay, previous: GarminPerformanceDay | null): GarminPerformanceDay {
+  if (!day.failed?.length || !previous) return day;
+  const filled: GarminPerformanceDay = { ...day };
+  const failed = day.failed.filter(endpoint => {
+    if (previous.failed?.includes(endpoint)) return true;
+    Object.assign(filled, { [endpoint]: previous[endpoint] ?? null });
+    return false;
+  });
+  if (failed.length > 0) filled.failed = failed;
+  else delete filled.failed;
+  return filled;
+}
+
+/** Entry of a per-device map for the primary training device, or the first one. */
+function primaryDevice<T extends { primaryTrainingDevice?: boolean }>(map: Record<string, T> | undefined): T | undefined {
+  const entries = Object.values(map ?? {});
+  return entries.find(entry => entry.primaryTrainingDevice) ?? entries[0];
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'bun:test';
+import { DEFAULT_PROFILE_ID, MAX_AUTO_SYNC_HOURS, MIN_AUTO_SYNC_HOURS, parseProfileInput, selectProfile } from './profiles';
+
+describe('selectProfile', () => {
+  it('should default to the default profile', () => {
+    expect(selectProfile('/daily', undefined)).toEqual({ profileId: DEFAULT_PROFILE_ID, pathname: '/daily' });
+  });
+
+  it('should strip a /profiles/:id prefix', () => {
+    expect(selectProfile('/profiles/2/daily', undefined)).toEqual({ profileId: 2, pathname: '/daily' });
+    expect(selectProfile('/profiles/3/activities/42/laps', undefined)).toEqual({ profileId: 3, pathname: '/activities/42/laps' });
+  });
+
+  it('should leave profile management routes alone', () => {
+    expect(selectProfile('/profiles', undefined)).toEqual({ profileId: DEFAULT_PROFILE_ID, pathname: '/profiles' });
+    expect(selectProfile('/profiles/2', undefined)).toEqual({ profileId: DEFAULT_PROFILE_ID, pathname: '/profiles/2' });
+  });
+
+  it('should take the profile from the header', () => {
+    expect(selectProfile('/daily', '2')).toEqual({ profileId: 2, pathname: '/daily' });
+    expect(selectProfile('/profiles/2/daily', '2')).toEqual({ profileId: 2, pathname: '/daily' });
+  });
+
+  it('should reject invalid or conflicting selectors', () => {
+    expect(selectProfile('/daily', 'alice')).toContain('x-garmin-profile');
+    expect(selectProfile('/daily', '0')).toContain('x-garmin-profile');
+    expect(selectProfile('/profiles/alice/daily', undefined)).toContain('profile id');
+    expect(selectProfile('/profiles/2/daily', '3')).toContain('does not match');
+  });
+});
+
+describe('parseProfileInput', () => {
+  it('should require a name when creating', () => {
+    expect(parseProfileInput({}, true)).toContain('name');
+    expect(parseProfileInput({ name: '  Alex  ', username: 'alex@example.com', autoSyncHours: 6 }, true)).toEqual({
+      name: 'Alex', username: 'alex@example.com', autoSyncHours: 6,
+    });
+  });
+
+  it('should accept partial updates and nulls', () => {
+    expect(parseProfileInput({ autoSyncHours: null }, false)).toEqual({ autoSyncHours: null });
+    expect(parseProfileInput({ username: null }, false)).toEqual({ username: null });
+  });
+
+  it('should reject invalid fields', () => {
+    expect(parseProfileInput([], true)).toBe('body must be a JSON object');
+    expect(parseProfileInput({ name: '-x' }, true)).toContain('name');
+    expect(parseProfileInput({ name: 'A', autoSyncHours: 0 }, true)).toContain('autoSyncHours');
+    expect(parseProfileInput({ name: 'A', username: 'a@example.com', password: 'pw' }, true)).toContain('POST /auth/login');
+    expect(parseProfileInput({}, false)).toContain('at least one');
+  });
+
+  it('should keep autoSyncHours within the range the scheduler can wait', () => {
+    expect(parseProfileInput({ autoSyncHours: MIN_AUTO_SYNC_HOURS }, false)).toEqual({ autoSyncHours: 0.25 });
+    expect(parseProfileInput({ autoSyncHours: MAX_AUTO_SYNC_HOURS }, false)).toEqual({ autoSyncHours: 576 });
+    expect(parseProfileInput({ autoSyncHours: 0.0001 }, false)).toContain('between 0.25 and 576');
+    expect(parseProfileInput({ autoSyncHours: 1000 }, false)).toContain('between 0.25 and 576');
+    expect(parseProfileInput({ autoSyncHours: Infinity }, false)).toContain('autoSyncHours');
+    expect(parseProfileInput({ autoSyncHours: '6' }, false)).toContain('autoSyncHours');
+  });
+});
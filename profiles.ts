@@ -0,0 +1,81 @@
+/**
+ * Profiles for Garmin Health Sync
+ * Picks the profile a request is for and validates profile create/update bodies
+ */
+
+/** Created on first start; owns all data from before profiles existed and the GARMIN_USERNAME/GARMIN_PASSWORD env. */
+export const DEFAULT_PROFILE_ID = 1;
+
+export const PROFILE_HEADER = 'x-garmin-profile';
+
+// Scheduler delays go through setTimeout, which fires at once for anything
+// above 2^31-1 ms (about 596 hours); below 15 minutes syncs would overlap
+export const MIN_AUTO_SYNC_HOURS = 0.25;
+export const MAX_AUTO_SYNC_HOURS = 24 * 24;
+
+const NAME_PATTERN = /^[A-Za-z0-9][\w .-]{0,63}$/;
+const ID_PATTERN = /^[1-9]\d{0,9}$/;
+
+export interface ProfileSelection {
+  profileId: number;
+  /** Request path with any /profiles/:id prefix removed. */
+  pathname: string;
+}
+
+/**
+ * Resolves the profile of a request from a `/profiles/:id/...` path prefix or
+ * the x-garmin-profile header, defaulting to the default profile. `/profiles`
+ * and `/profiles/:id` themselves are left alone for profile management.
+ */
+export function selectProfile(pathname: string, header: string | string[] | undefined): ProfileSelection | string {
+  const headerValue = Array.isArray(header) ? header[0] : header;
+  if (headerValue !== undefined && !ID_PATTERN.test(headerValue.trim())) {
+    return `${PROFILE_HEADER} must be a profile id`;
+  }
+  const fromHeader = headerValue !== undefined ? Number(headerValue.trim()) : null;
+  const match = pathname.match(/^\/profiles\/([^/]+)(\/.+)$/);
+  if (!match) return { profileId: fromHeader ?? DEFAULT_PROFILE_ID, pathname };
+  if (!ID_PATTERN.test(match[1]!)) return 'profile in the path must be a profile id';
+  const fromPath = Number(match[1]);
+  if (fromHeader !== null && fromHeader !== fromPath) {
+    return `profile ${fromPath} in the path does not match ${PROFILE_HEADER}: ${fromHeader}`;
+  }
+  return { profileId: fromPath, pathname: match[2]! };
+}
+
+/** Passwords are not part of a profile; they go through POST /auth/login, which checks them with Garmin first. */
+export interface ProfileInput {
+  name?: string;
+  /** null clears it; the profile then can't log in */
+  username?: string | null;
+  /** null turns scheduled syncs off for the profile */
+  autoSyncHours?: number | null;
+}
+
+/** Validates a POST /profiles (`create`) or PATCH /profiles/:id body. */
+export function parseProfileInput(body: unknown, create: boolean): ProfileInput | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'body must be a JSON object';
+  const { name, username, password, autoSyncHours } = body as Record<string, unknown>;
+  if (password !== undefined) return 'save the password with POST /auth/login, which checks it with Garmin first';
+  const input: ProfileInput = {};
+  if (name !== undefined || create) {
+    if (typeof name !== 'string' || !NAME_PATTERN.test(name.trim())) {
+      return 'name must be 1-64 letters, digits, spaces, dots, dashes or underscores';
+    }
+    input.name = name.trim();
+  }
+  if (username !== undefined) {
+    if (username !== null && (typeof username !== 'string' || !username.trim())) return 'username must be a non-empty string or null';
+    input.username = username === null ? null : username.trim();
+  }
+  if (autoSyncHours !== undefined) {
+    if (autoSyncHours !== null && (typeof autoSyncHours !== 'number' || !(autoSyncHours >= MIN_AUTO_SYNC_HOURS && autoSyncHours <= MAX_AUTO_SYNC_HOURS))) {
+      return `autoSyncHours must be between ${MIN_AUTO_SYNC_HOURS} and ${MAX_AUTO_SYNC_HOURS} hours, or null`;
+    }
+    input.autoSyncHours = autoSyncHours;
+  }
+  if (!create && Object.keys(input).length === 0) {
+    return 'body must set at least one of name, username, autoSyncHours';
+  }
+  return input;
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'bun:test';
+import { parseRecords } from './records';
+
+describe('parseRecords', () => {
+  it('should name known record types and sort by type', () => {
+    const records = parseRecords([
+      { typeId: 7, value: 30120.5, activityId: 12, activityName: 'Long run', activityType: 'running', prStartTimeGmt: Date.parse('2026-09-14T06:00:00Z') },
+      { typeId: 3, value: 1254.3, activityId: 11 },
+    ]);
+    expect(records).toEqual([
+      { typeId: 3, recordKey: 'run_5k', label: 'Fastest 5K', unit: 'seconds', value: 1254.3, activityId: '11', activityName: null, activityType: null, achievedAt: null },
+      { typeId: 7, recordKey: 'run_longest', label: 'Longest run', unit: 'meters', value: 30120.5, activityId: '12', activityName: 'Long run', activityType: 'running', achievedAt: '2026-09-14T06:00:00.000Z' },
+    ]);
+  });
+
+  it('should keep unknown types and drop records without a value', () => {
+    expect(parseRecords([{ typeId: 99, value: 5 }, { typeId: 1, value: null }])).toMatchObject([
+      { typeId: 99, recordKey: 'type_99', unit: null, value: 5 },
+    ]);
+  });
+});
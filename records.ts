@@ -0,0 +1,69 @@
+/**
+ * Personal record helpers for Garmin Health Sync
+ * Names Garmin's numeric record types and normalizes their values
+ */
+
+export type RecordUnit = 'seconds' | 'meters' | 'watts' | 'steps' | 'days';
+
+export interface GarminPersonalRecord {
+  typeId: number;
+  value?: number | null;
+  activityId?: number | null;
+  activityName?: string | null;
+  activityType?: string | null;
+  /** Unix ms */
+  prStartTimeGmt?: number | null;
+}
+
+export interface PersonalRecord {
+  typeId: number;
+  recordKey: string;
+  label: string;
+  unit: RecordUnit | null;
+  value: number;
+  activityId: string | null;
+  activityName: string | null;
+  activityType: string | null;
+  achievedAt: string | null;
+}
+
+const RECORD_TYPES: Record<number, { key: string; label: string; unit: RecordUnit }> = {
+  1: { key: 'run_1k', label: 'Fastest 1K', unit: 'seconds' },
+  2: { key: 'run_1mi', label: 'Fastest mile', unit: 'seconds' },
+  3: { key: 'run_5k', label: 'Fastest 5K', unit: 'seconds' },
+  4: { key: 'run_10k', label: 'Fastest 10K', unit: 'seconds' },
+  5: { key: 'run_half_marathon', label: 'Fastest half marathon', unit: 'seconds' },
+  6: { key: 'run_marathon', label: 'Fastest marathon', unit: 'seconds' },
+  7: { key: 'run_longest', label: 'Longest run', unit: 'meters' },
+  8: { key: 'ride_longest', label: 'Longest ride', unit: 'meters' },
+  9: { key: 'ride_total_ascent', label: 'Most ascent in a ride', unit: 'meters' },
+  10: { key: 'ride_max_power_20min', label: 'Best 20 min power', unit: 'watts' },
+  11: { key: 'ride_40k', label: 'Fastest 40K ride', unit: 'seconds' },
+  12: { key: 'steps_day', label: 'Most steps in a day', unit: 'steps' },
+  13: { key: 'steps_week', label: 'Most steps in a week', unit: 'steps' },
+  14: { key: 'steps_month', label: 'Most steps in a month', unit: 'steps' },
+  15: { key: 'goal_streak', label: 'Longest step goal streak', unit: 'days' },
+  17: { key: 'swim_longest', label: 'Longest swim', unit: 'meters' },
+  18: { key: 'swim_100m', label: 'Fastest 100m swim', unit: 'seconds' },
+};
+
+/** Normalizes Garmin's record list. Unknown types are kept under a generic key. */
+export function parseRecords(records: GarminPersonalRecord[]): PersonalRecord[] {
+  return records
+    .filter(record => typeof record.value === 'number')
+    .map(record => {
+      const type = RECORD_TYPES[record.typeId];
+      return {
+        typeId: record.typeId,
+        recordKey: type?.key ?? `type_${record.typeId}`,
+        label: type?.label ?? `Record type ${record.typeId}`,
+        unit: type?.unit ?? null,
+        value: record.value!,
+        activityId: record.activityId ? String(record.activityId) : null,
+        activityName: record.activityName ?? null,
+        activityType: record.activityType ?? null,
+        achievedAt: record.prStartTimeGmt ? new Date(record.prStartTimeGmt).toISOString() : null,
+      };
+    })
+    .sort((a, b) => a.typeId - b.typeId);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  RateLimiter,
+  GarminAuthError,
+  GarminNotFoundError,
+  GarminServerError,
+  GarminThrottledError,
+  backoffDelay,
+  errorForResponse,
+  parseRetryAfter,
+  withRetry,
+} from './request';
+
+const retryOptions = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000, random: () => 1, sleep: async () => {} };
+
+function response(status: number, retryAfter?: string) {
+  return { status, headers: { get: (name: string) => (name === 'retry-after' ? retryAfter ?? null : null) } };
+}
+
+describe('parseRetryAfter', () => {
+  it('should parse delay-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+  });
+
+  it('should parse an HTTP date relative to now', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('should return null for missing or invalid headers', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('errorForResponse', () => {
+  it('should map status codes to typed errors', () => {
+    expect(errorForResponse(response(404), '/x')).toBeInstanceOf(GarminNotFoundError);
+    expect(errorForResponse(response(401), '/x')).toBeInstanceOf(GarminAuthError);
+    expect(errorForResponse(response(403), '/x')).toBeInstanceOf(GarminAuthError);
+    expect(errorForResponse(response(503), '/x')).toBeInstanceOf(GarminServerError);
+  });
+
+  it('should carry Retry-After on throttled errors', () => {
+    const err = errorForResponse(response(429, '2'), '/x') as GarminThrottledError;
+    expect(err).toBeInstanceOf(GarminThrottledError);
+    expect(err.retryAfterMs).toBe(2000);
+    expect(err.status).toBe(429);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should grow exponentially up to the cap', () => {
+    expect(backoffDelay(0, retryOptions)).toBe(100);
+    expect(backoffDelay(2, retryOptions)).toBe(400);
+    expect(backoffDelay(10, retryOptions)).toBe(1000);
+  });
+
+  it('should apply jitter', () => {
+    expect(backoffDelay(2, { ...retryOptions, random: () => 0.5 })).toBe(200);
+  });
+
+  it('should never wait less than Retry-After', () => {
+    expect(backoffDelay(0, retryOptions, 5000)).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry server errors until success', async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw new GarminServerError(503, '/x');
+      return 'ok';
+    }, retryOptions);
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('should give up after maxRetries', async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new GarminThrottledError('/x', null);
+    }, retryOptions);
+
+    await expect(run).rejects.toBeInstanceOf(GarminThrottledError);
+    expect(calls).toBe(4);
+  });
+
+  it('should not retry not-found or auth errors', async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new GarminAuthError(401, '/x');
+    }, retryOptions);
+
+    await expect(run).rejects.toBeInstanceOf(GarminAuthError);
+    expect(calls).toBe(1);
+  });
+
+  it('should report each retry with its delay', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    await withRetry(async () => {
+      if (calls++ === 0) throw new GarminThrottledError('/x', 3000);
+    }, { ...retryOptions, onRetry: (_err, _attempt, delayMs) => { delays.push(delayMs); } });
+
+    expect(delays).toEqual([3000]);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should cap concurrent tasks', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60000, maxConcurrency: 2, burst: 10 });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(task)));
+    expect(peak).toBe(2);
+  });
+
+  it('should hold tasks once the bucket is empty', async () => {
+    let now = 0;
+    const limiter = new RateLimiter({ requestsPerMinute: 60, maxConcurrency: 5, burst: 2, now: () => now });
+    let done = 0;
+    const runs = Array.from({ length: 3 }, () => limiter.schedule(async () => { done++; }));
+
+    await Promise.race([Promise.all(runs), new Promise(resolve => setTimeout(resolve, 20))]);
+    expect(done).toBe(2);
+
+    now = 1000;
+    await Promise.all(runs);
+    expect(done).toBe(3);
+  });
+
+  it('should hold tasks while paused', async () => {
+    let now = 0;
+    const limiter = new RateLimiter({ requestsPerMinute: 60000, maxConcurrency: 1, now: () => now });
+    limiter.pause(500);
+    let ran = false;
+    const run = limiter.schedule(async () => { ran = true; });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(ran).toBe(false);
+
+    now = 500;
+    await run;
+    expect(ran).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Request layer for the Garmin Connect API
+ * Rate limiting, bounded concurrency, retries with backoff and typed errors
+ */
+
+export class GarminApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+
+  constructor(status: number, endpoint: string, message?: string) {
+    super(message ?? `Garmin API error ${status} for ${endpoint}`);
+    this.name = 'GarminApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
+
+/** 404 — the data genuinely does not exist (e.g. no sleep recorded that day). */
+export class GarminNotFoundError extends GarminApiError {
+  constructor(endpoint: string) {
+    super(404, endpoint, `Garmin resource not found: ${endpoint}`);
+    this.name = 'GarminNotFoundError';
+  }
+}
+
+/** 401/403 — the session is no longer valid and a new login is needed. */
+export class GarminAuthError extends GarminApiError {
+  constructor(status: number, endpoint: string, message?: string) {
+    super(status, endpoint, message ?? `Garmin session expired (${status})`);
+    this.name = 'GarminAuthError';
+  }
+}
+
+/** The account has multi-factor authentication on; login can't finish without a verification code. */
+export class GarminMfaRequiredError extends GarminAuthError {
+  constructor(message = 'Garmin login needs a verification code') {
+    super(401, 'sso/signin', message);
+    this.name = 'GarminMfaRequiredError';
+  }
+}
+
+/** 429 — Garmin asked us to slow down. */
+export class GarminThrottledError extends GarminApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(endpoint: string, retryAfterMs: number | null) {
+    super(429, endpoint, `Garmin rate limit hit for ${endpoint}`);
+    this.name = 'GarminThrottledError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** 5xx or a network failure (status 0). */
+export class GarminServerError extends GarminApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(status: number, endpoint: string, retryAfterMs: number | null = null, message?: string) {
+    super(status, endpoint, message);
+    this.name = 'GarminServerError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export function isRetryable(error: unknown): error is GarminThrottledError | GarminServerError {
+  return error instanceof GarminThrottledError || error instanceof GarminServerError;
+}
+
+/** Parses a Retry-After header given either as delay-seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function errorForResponse(res: { status: number; headers: { get(name: string): string | null } }, endpoint: string): GarminApiError {
+  const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+  if (res.status === 404) return new GarminNotFoundError(endpoint);
+  if (res.status === 401 || res.status === 403) return new GarminAuthError(res.status, endpoint);
+  if (res.status === 429) return new GarminThrottledError(endpoint, retryAfterMs);
+  if (res.status >= 500) return new GarminServerError(res.status, endpoint, retryAfterMs);
+  return new GarminApiError(res.status, endpoint);
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (error: GarminThrottledError | GarminServerError, attempt: number, delayMs: number) => void;
+}
+
+/** Exponential backoff with full jitter; a server-provided Retry-After is a lower bound. */
+export function backoffDelay(attempt: number, options: RetryOptions, retryAfterMs: number | null = null): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const jittered = Math.round((options.random ?? Math.random)() * ceiling);
+  return retryAfterMs === null ? jittered : Math.max(retryAfterMs, jittered);
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Runs `fn`, retrying throttled and server errors. Other errors are thrown immediately. */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const sleep = options.sleep ?? defaultSleep;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= options.maxRetries) throw error;
+      const delayMs = backoffDelay(attempt, options, error.retryAfterMs);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  maxConcurrency: number;
+  burst?: number;
+  now?: () => number;
+}
+
+/**
+ * Token-bucket rate limiter with a concurrency cap. Tasks run in FIFO order
+ * once a token is available and fewer than `maxConcurrency` are in flight.
+ */
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly maxConcurrency: number;
+  private readonly now: () => number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimiterOptions) {
+    this.capacity = Math.max(1, options.burst ?? options.maxConcurrency);
+    this.refillPerMs = options.requestsPerMinute / 60000;
+    this.maxConcurrency = Math.max(1, options.maxConcurrency);
+    this.now = options.now ?? Date.now;
+    this.tokens = this.capacity;
+    this.lastRefill = this.now();
+  }
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await new Promise<void>(resolve => {
+      this.queue.push(resolve);
+      this.pump();
+    });
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  /** Holds all queued requests until `ms` from now, e.g. after a 429 with Retry-After. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  getStats(): { active: number; queued: number; tokens: number } {
+    this.refill();
+    return { active: this.active, queued: this.queue.length, tokens: this.tokens };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private pump(): void {
+    this.refill();
+    while (this.queue.length > 0 && this.active < this.maxConcurrency && this.tokens >= 1 && this.now() >= this.pausedUntil) {
+      this.tokens--;
+      this.active++;
+      this.queue.shift()!();
+    }
+    if (this.queue.length > 0 && this.active < this.maxConcurrency && !this.timer) {
+      const waitForToken = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      const waitForPause = this.pausedUntil - this.now();
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, Math.max(1, waitForToken, waitForPause));
+    }
+  }
+}
@@ -1,7 +1,13 @@
 #!/usr/bin/env bash
-set -a
-source /Users/might/clawd/.secrets/linear.env
-set +a
+# Non-secret settings come from .env. Keep the Garmin password in the credential
+# store (GARMIN_CREDENTIAL_STORE=keychain) and the encryption key in the file
+# GARMIN_KEY_FILE points to, rather than in the environment.
+cd "$(dirname "$0")"
+if [ -f .env ]; then
+  set -a
+  source .env
+  set +a
+fi
 
 # Clear old logs
 rm -f sync.error.log sync.log
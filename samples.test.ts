@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { bucketSamples, parseBucket, parseSampleArray, summarizeLevels } from './samples';
+
+const T0 = Date.parse('2026-10-19T07:00:00Z');
+const MIN = 60 * 1000;
+
+describe('parseSampleArray', () => {
+  it('should keep valid readings sorted by time', () => {
+    expect(parseSampleArray([[T0 + MIN, 62], [T0, 60], [T0 + 2 * MIN, null], [T0 + 3 * MIN, -1]])).toEqual([
+      { timestamp: T0, value: 60 },
+      { timestamp: T0 + MIN, value: 62 },
+    ]);
+  });
+
+  it('should read the value from another column', () => {
+    expect(parseSampleArray([[T0, 'MEASURED', 55, 2.0]], 2)).toEqual([{ timestamp: T0, value: 55 }]);
+  });
+
+  it('should treat a missing array as empty', () => {
+    expect(parseSampleArray(undefined)).toEqual([]);
+  });
+});
+
+describe('parseBucket', () => {
+  it('should parse seconds, minutes and hours', () => {
+    expect(parseBucket('30s')).toBe(30000);
+    expect(parseBucket('15m')).toBe(900000);
+    expect(parseBucket('1h')).toBe(3600000);
+  });
+
+  it('should reject malformed sizes', () => {
+    expect(parseBucket('15')).toBeNull();
+    expect(parseBucket('0m')).toBeNull();
+    expect(parseBucket('1d')).toBeNull();
+  });
+});
+
+describe('bucketSamples', () => {
+  it('should aggregate min, avg and max per aligned bucket', () => {
+    const samples = [
+      { timestamp: T0, value: 60 },
+      { timestamp: T0 + 5 * MIN, value: 70 },
+      { timestamp: T0 + 14 * MIN, value: 65 },
+      { timestamp: T0 + 40 * MIN, value: 90 },
+    ];
+    expect(bucketSamples(samples, 15 * MIN)).toEqual([
+      { start: '2026-10-19T07:00:00.000Z', min: 60, avg: 65, max: 70, count: 3 },
+      { start: '2026-10-19T07:30:00.000Z', min: 90, avg: 90, max: 90, count: 1 },
+    ]);
+  });
+});
+
+describe('summarizeLevels', () => {
+  it('should total rises and falls and track extremes', () => {
+    const levels = [40, 35, 60, 80, 75, 20].map((value, i) => ({ timestamp: T0 + i * MIN, value }));
+    expect(summarizeLevels(levels)).toEqual({ charged: 45, drained: 65, peak: 80, low: 20 });
+  });
+
+  it('should return null without readings', () => {
+    expect(summarizeLevels([])).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Intraday sample helpers for Garmin Health Sync
+ * Normalizes Garmin's [timestamp, value] arrays and aggregates them into buckets
+ */
+
+/** One intraday reading; `timestamp` is Unix milliseconds (UTC). */
+export interface Sample {
+  timestamp: number;
+  value: number;
+}
+
+export interface SampleBucket {
+  start: string;
+  min: number;
+  avg: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * Reads `[timestampMs, value, ...]` rows, taking the value at `valueIndex`.
+ * Rows with a missing or negative value (Garmin's marker for no reading) are
+ * dropped; the rest are returned sorted by time.
+ */
+export function parseSampleArray(rows: unknown, valueIndex = 1): Sample[] {
+  if (!Array.isArray(rows)) return [];
+  const samples: Sample[] = [];
+  for (const row of rows) {
+    if (!Array.isArray(row)) continue;
+    const timestamp = row[0];
+    const value = row[valueIndex];
+    if (typeof timestamp === 'number' && typeof value === 'number' && value >= 0) {
+      samples.push({ timestamp, value });
+    }
+  }
+  return samples.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Parses a bucket size such as `30s`, `15m` or `1h` into milliseconds; null if malformed. */
+export function parseBucket(value: string): number | null {
+  const match = value.match(/^(\d+)([smh])$/);
+  if (!match || Number(match[1]) === 0) return null;
+  const unit = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[match[2] as 's' | 'm' | 'h'];
+  return Number(match[1]) * unit;
+}
+
+/** Groups samples into fixed, epoch-aligned buckets with min/avg/max. Empty buckets are omitted. */
+export function bucketSamples(samples: Sample[], bucketMs: number): SampleBucket[] {
+  const buckets = new Map<number, { min: number; max: number; sum: number; count: number }>();
+  for (const { timestamp, value } of samples) {
+    const start = Math.floor(timestamp / bucketMs) * bucketMs;
+    const bucket = buckets.get(start);
+    if (bucket) {
+      bucket.min = Math.min(bucket.min, value);
+      bucket.max = Math.max(bucket.max, value);
+      bucket.sum += value;
+      bucket.count++;
+    } else {
+      buckets.set(start, { min: value, max: value, sum: value, count: 1 });
+    }
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, b]) => ({
+      start: new Date(start).toISOString(),
+      min: b.min,
+      avg: Math.round((b.sum / b.count) * 10) / 10,
+      max: b.max,
+      count: b.count,
+    }));
+}
+
+export interface LevelSummary {
+  charged: number;
+  drained: number;
+  peak: number;
+  low: number;
+}
+
+/** Totals of rises and falls between consecutive readings, plus the day's extremes. Null without readings. */
+export function summarizeLevels(samples: Sample[]): LevelSummary | null {
+  if (samples.length === 0) return null;
+  const summary = { charged: 0, drained: 0, peak: samples[0]!.value, low: samples[0]!.value };
+  for (let i = 1; i < samples.length; i++) {
+    const delta = samples[i]!.value - samples[i - 1]!.value;
+    if (delta > 0) summary.charged += delta;
+    else summary.drained -= delta;
+    summary.peak = Math.max(summary.peak, samples[i]!.value);
+    summary.low = Math.min(summary.low, samples[i]!.value);
+  }
+  return summary;
+}
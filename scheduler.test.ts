@@ -208,4 +208,39 @@ describe('SyncScheduler', () => {
     
     expect(scheduler.getStatus().enabled).toBe(true);
   });
+
+  it('should report isSyncing while a sync is in flight', async () => {
+    let finish!: () => void;
+    scheduler = new SyncScheduler({
+      intervalMs: 100000,
+      onSync: () => new Promise<void>(resolve => { finish = resolve; }),
+    });
+    
+    scheduler.start();
+    scheduler.triggerNow();
+    expect(scheduler.getStatus().isSyncing).toBe(true);
+    
+    finish();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(scheduler.getStatus().isSyncing).toBe(false);
+  });
+
+  it('should not start a second sync while one is in flight', async () => {
+    let finish!: () => void;
+    scheduler = new SyncScheduler({
+      intervalMs: 100000,
+      onSync: () => {
+        syncCalls++;
+        return new Promise<void>(resolve => { finish = resolve; });
+      },
+    });
+    
+    scheduler.start();
+    scheduler.triggerNow();
+    scheduler.triggerNow();
+    finish();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    
+    expect(syncCalls).toBe(1);
+  });
 });
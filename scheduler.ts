@@ -17,6 +17,7 @@ export class SyncScheduler extends EventEmitter {
   private onError?: (error: Error) => void;
   private timer: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private isSyncing = false;
   private lastSyncAt: Date | null = null;
   private nextSyncAt: Date | null = null;
 
@@ -69,7 +70,7 @@ export class SyncScheduler extends EventEmitter {
       intervalMs: this.intervalMs,
       lastSyncAt: this.lastSyncAt,
       nextSyncAt: this.nextSyncAt,
-      isSyncing: false, // Could track this if needed
+      isSyncing: this.isSyncing,
     };
   }
 
@@ -81,8 +82,9 @@ export class SyncScheduler extends EventEmitter {
   }
 
   private async runSync(): Promise<void> {
-    if (!this.isRunning) return;
+    if (!this.isRunning || this.isSyncing) return;
     
+    this.isSyncing = true;
     this.emit('sync:start');
     console.log('[scheduler] Running scheduled sync...');
     
@@ -97,6 +99,7 @@ export class SyncScheduler extends EventEmitter {
       this.onError?.(err);
       console.error('[scheduler] Scheduled sync failed:', err.message);
     } finally {
+      this.isSyncing = false;
       this.scheduleNext();
     }
   }
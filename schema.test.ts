@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { deleteProfileRows, migrateDatabase } from './schema';
+
+const count = (db: Database, sql: string, ...params: Array<string | number>) =>
+  (db.prepare(sql).get(...params) as { n: number }).n;
+
+describe('migrateDatabase', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    // The layout before profiles: no profileId anywhere, account state in meta
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE TABLE activities (id TEXT PRIMARY KEY, provider TEXT NOT NULL, startTime TEXT, type TEXT, name TEXT, rawJson TEXT);
+      CREATE TABLE daily_metrics (day TEXT PRIMARY KEY, steps INTEGER, restingHeartRate INTEGER, rawJson TEXT);
+      CREATE TABLE heart_rate_samples (timestamp INTEGER PRIMARY KEY, day TEXT NOT NULL, bpm INTEGER NOT NULL);
+      CREATE TABLE sync_log (id INTEGER PRIMARY KEY AUTOINCREMENT, startedAt TEXT NOT NULL, endedAt TEXT, status TEXT NOT NULL, details TEXT);
+
+      INSERT INTO meta VALUES ('garmin_tokens', 'enc:v1:abc'), ('garmin_username', 'alex@example.com'),
+        ('watermark:summary', '2026-10-01'), ('watermark:activities', '{"activityId":1}'), ('encryption_salt', 'salt');
+      INSERT INTO activities (id, provider, startTime, type) VALUES ('1', 'garmin', '2026-10-01T07:00:00', 'running');
+      INSERT INTO daily_metrics (day, steps) VALUES ('2026-10-01', 9000), ('2026-10-02', 4000);
+      INSERT INTO heart_rate_samples VALUES (1000, '2026-10-01', 60), (2000, '2026-10-01', 62);
+      INSERT INTO sync_log (startedAt, status) VALUES ('2026-10-01T08:00:00Z', 'success');
+    `);
+  });
+
+  it('should move rows, watermarks and tokens to the default profile', () => {
+    expect(migrateDatabase(db)).toEqual(['daily_metrics', 'heart_rate_samples']);
+
+    expect(db.prepare('SELECT profileId, day, steps FROM daily_metrics ORDER BY day').all()).toEqual([
+      { profileId: 1, day: '2026-10-01', steps: 9000 },
+      { profileId: 1, day: '2026-10-02', steps: 4000 },
+    ]);
+    expect(count(db, 'SELECT COUNT(*) AS n FROM heart_rate_samples WHERE profileId = 1')).toBe(2);
+    expect(count(db, 'SELECT COUNT(*) AS n FROM activities WHERE profileId = 1')).toBe(1);
+    expect(count(db, 'SELECT COUNT(*) AS n FROM sync_log WHERE profileId = 1')).toBe(1);
+    expect(count(db, "SELECT COUNT(*) AS n FROM sqlite_master WHERE name LIKE '%_v1'")).toBe(0);
+
+    expect(db.prepare('SELECT id, name, username, tokens FROM profiles').all()).toEqual([
+      { id: 1, name: 'default', username: 'alex@example.com', tokens: 'enc:v1:abc' },
+    ]);
+    expect((db.prepare('SELECT key FROM meta ORDER BY key').all() as Array<{ key: string }>).map(row => row.key)).toEqual([
+      'encryption_salt', 'profile:1:watermark:activities', 'profile:1:watermark:summary',
+    ]);
+  });
+
+  it('should be a no-op on the next start', () => {
+    migrateDatabase(db);
+    const snapshot = () => ({
+      meta: db.prepare('SELECT * FROM meta ORDER BY key').all(),
+      profiles: db.prepare('SELECT * FROM profiles').all(),
+      daily: db.prepare('SELECT * FROM daily_metrics ORDER BY day').all(),
+      samples: db.prepare('SELECT * FROM heart_rate_samples ORDER BY timestamp').all(),
+      changes: db.prepare('SELECT * FROM changes').all(),
+    });
+    const before = snapshot();
+    expect(migrateDatabase(db)).toEqual([]);
+    expect(snapshot()).toEqual(before);
+  });
+
+  it('should keep rows of different profiles on the same day or timestamp apart', () => {
+    migrateDatabase(db);
+    db.prepare("INSERT INTO profiles (id, name, createdAt) VALUES (2, 'Sam', '2026-10-01T00:00:00Z')").run();
+    db.prepare("INSERT INTO daily_metrics (profileId, day, steps) VALUES (2, '2026-10-01', 12000)").run();
+    db.prepare("INSERT INTO heart_rate_samples (profileId, timestamp, day, bpm) VALUES (2, 1000, '2026-10-01', 75)").run();
+
+    expect(db.prepare("SELECT profileId, steps FROM daily_metrics WHERE day = '2026-10-01' ORDER BY profileId").all()).toEqual([
+      { profileId: 1, steps: 9000 },
+      { profileId: 2, steps: 12000 },
+    ]);
+    expect(db.prepare('SELECT profileId, bpm FROM heart_rate_samples WHERE timestamp = 1000 ORDER BY profileId').all()).toEqual([
+      { profileId: 1, bpm: 60 },
+      { profileId: 2, bpm: 75 },
+    ]);
+  });
+});
+
+describe('deleteProfileRows', () => {
+  it("should remove one profile's data and leave the others intact", () => {
+    const db = new Database(':memory:');
+    migrateDatabase(db);
+    db.exec(`
+      INSERT INTO profiles (id, name, createdAt) VALUES (2, 'Sam', '2026-10-01T00:00:00Z');
+      INSERT INTO meta VALUES ('profile:1:watermark:summary', '2026-10-01'), ('profile:2:watermark:summary', '2026-10-01');
+      INSERT INTO activities (id, provider, profileId) VALUES ('1', 'garmin', 1), ('2', 'garmin', 2);
+      INSERT INTO activity_laps (activityId, lapIndex, startOffsetSeconds) VALUES ('1', 0, 0), ('2', 0, 0);
+      INSERT INTO daily_metrics (profileId, day, steps) VALUES (1, '2026-10-01', 9000), (2, '2026-10-01', 12000);
+      INSERT INTO heart_rate_samples (profileId, timestamp, day, bpm) VALUES (1, 1000, '2026-10-01', 60), (2, 1000, '2026-10-01', 75);
+      INSERT INTO sync_log (profileId, startedAt, status) VALUES (1, '2026-10-01T08:00:00Z', 'success'), (2, '2026-10-01T08:00:00Z', 'error');
+      INSERT INTO sync_errors (syncId, dataType, message, createdAt) VALUES (2, 'summary', 'boom', '2026-10-01T08:00:00Z');
+    `);
+    expect(count(db, 'SELECT COUNT(*) AS n FROM activity_laps')).toBe(2);
+    expect(count(db, 'SELECT COUNT(*) AS n FROM sync_errors')).toBe(1);
+
+    deleteProfileRows(db, 2);
+
+    expect(db.prepare('SELECT id FROM profiles').all()).toEqual([{ id: 1 }]);
+    for (const table of ['activities', 'daily_metrics', 'heart_rate_samples', 'sync_log']) {
+      expect(count(db, `SELECT COUNT(*) AS n FROM ${table} WHERE profileId = 2`)).toBe(0);
+      expect(count(db, `SELECT COUNT(*) AS n FROM ${table} WHERE profileId = 1`)).toBe(1);
+    }
+    expect(db.prepare('SELECT activityId FROM activity_laps').all()).toEqual([{ activityId: '1' }]);
+    expect(count(db, 'SELECT COUNT(*) AS n FROM sync_errors')).toBe(0);
+    expect(db.prepare('SELECT key FROM meta').all()).toEqual([{ key: 'profile:1:watermark:summary' }]);
+    // Delete triggers log the removed rows against the profile, which is then cleared too
+    expect(count(db, 'SELECT COUNT(*) AS n FROM changes WHERE profileId = 2')).toBe(0);
+  });
+});
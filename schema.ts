@@ -0,0 +1,490 @@
+/**
+ * Database schema for Garmin Health Sync
+ * Creates the tables and brings databases from earlier versions up to date
+ */
+
+import { DEFAULT_PROFILE_ID } from './profiles.js';
+
+/** The parts of better-sqlite3 (and bun:sqlite in tests) the schema code uses. */
+export interface SqlDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+  transaction<T>(fn: () => T): () => T;
+}
+
+// Tables keyed by day, timestamp or record type have profileId in their primary
+// key. SQLite can't change a primary key in place, so tables from before
+// profiles are set aside and copied into the new layout after the schema.
+export const PROFILE_KEYED_TABLES = [
+  'daily_metrics', 'heart_rate_samples', 'body_battery_samples', 'stress_samples',
+  'hrv_daily', 'hrv_readings', 'performance_metrics', 'personal_records',
+];
+
+// Tables with a plain profileId column. Activities and gear keep Garmin's ids
+// as keys, which are unique across accounts; child tables (laps, streams, FIT
+// data, sleep stages, sync errors) follow their parent row.
+export const PROFILE_TABLES = ['activities', 'gear', 'body_composition', 'sleep_sessions', 'sync_log', 'backfill_jobs', 'changes'];
+
+// Account state that lived in meta before profiles, by the profiles column it moves to
+const LEGACY_PROFILE_META: Record<string, string> = {
+  tokens: 'garmin_tokens',
+  mfaRequiredAt: 'garmin_mfa_required',
+  username: 'garmin_username',
+};
+
+export function columnNames(db: SqlDatabase, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name);
+}
+
+function ensureColumn(db: SqlDatabase, table: string, column: string, definition: string): void {
+  if (!columnNames(db, table).includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Creates missing tables and columns and moves data from before profiles to
+ * the default profile. Safe to run on every start; returns the tables whose
+ * rows were moved.
+ */
+export function migrateDatabase(db: SqlDatabase): string[] {
+  const moved: string[] = [];
+  for (const table of PROFILE_KEYED_TABLES) {
+    const columns = columnNames(db, table);
+    if (columns.length > 0 && !columns.includes('profileId')) {
+      db.exec(`ALTER TABLE ${table} RENAME TO ${table}_v1`);
+    }
+  }
+
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      username TEXT,
+      tokens TEXT,
+      mfaRequiredAt TEXT,
+      autoSyncHours REAL,
+      createdAt TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS activities (
+      id TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      startTime TEXT,
+      type TEXT,
+      name TEXT,
+      distanceMeters REAL,
+      durationSeconds REAL,
+      calories REAL,
+      averageHR INTEGER,
+      maxHR INTEGER,
+      averageSpeed REAL,
+      maxSpeed REAL,
+      elevationGain REAL,
+      elevationLoss REAL,
+      description TEXT,
+      locationName TEXT,
+      rawJson TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS daily_metrics (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      day TEXT NOT NULL,
+      steps INTEGER,
+      restingHeartRate INTEGER,
+      bodyBattery INTEGER,
+      sleepSeconds INTEGER,
+      sleepScore INTEGER,
+      deepSleepSeconds INTEGER,
+      lightSleepSeconds INTEGER,
+      remSleepSeconds INTEGER,
+      awakeSleepSeconds INTEGER,
+      avgSpO2 REAL,
+      avgRespiration REAL,
+      avgStressLevel INTEGER,
+      hrvStatus TEXT,
+      rawJson TEXT,
+      PRIMARY KEY (profileId, day)
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      startedAt TEXT NOT NULL,
+      endedAt TEXT,
+      status TEXT NOT NULL,
+      details TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS backfill_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      fromDay TEXT NOT NULL,
+      toDay TEXT NOT NULL,
+      types TEXT NOT NULL,
+      status TEXT NOT NULL,
+      cursorDay TEXT,
+      activityStart INTEGER NOT NULL DEFAULT 0,
+      activitiesComplete INTEGER NOT NULL DEFAULT 0,
+      activitiesDone INTEGER NOT NULL DEFAULT 0,
+      daysDone INTEGER NOT NULL DEFAULT 0,
+      daysTotal INTEGER NOT NULL DEFAULT 0,
+      startedAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      endedAt TEXT,
+      error TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_errors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      syncId INTEGER NOT NULL REFERENCES sync_log(id),
+      dataType TEXT NOT NULL,
+      day TEXT,
+      activityId TEXT,
+      httpStatus INTEGER,
+      message TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      resolvedBySyncId INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_sync_errors_sync ON sync_errors(syncId);
+
+    CREATE TABLE IF NOT EXISTS changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tableName TEXT NOT NULL,
+      rowKey TEXT NOT NULL,
+      op TEXT NOT NULL,
+      changedFields TEXT NOT NULL,
+      syncId INTEGER,
+      changedAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_changes_row ON changes(tableName, rowKey);
+
+    CREATE TABLE IF NOT EXISTS activity_laps (
+      activityId TEXT NOT NULL REFERENCES activities(id),
+      lapIndex INTEGER NOT NULL,
+      startOffsetSeconds REAL NOT NULL,
+      durationSeconds REAL,
+      distanceMeters REAL,
+      averageHR INTEGER,
+      maxHR INTEGER,
+      avgPaceSecondsPerKm REAL,
+      averageCadence REAL,
+      elevationGain REAL,
+      elevationLoss REAL,
+      PRIMARY KEY (activityId, lapIndex)
+    );
+
+    CREATE TABLE IF NOT EXISTS activity_streams (
+      activityId TEXT PRIMARY KEY REFERENCES activities(id),
+      sampleCount INTEGER NOT NULL,
+      fields TEXT NOT NULL,
+      data BLOB NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS fit_files (
+      activityId TEXT PRIMARY KEY REFERENCES activities(id),
+      sha256 TEXT NOT NULL,
+      path TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      downloadedAt TEXT NOT NULL,
+      parsedAt TEXT,
+      parseError TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS fit_records (
+      activityId TEXT NOT NULL,
+      recordIndex INTEGER NOT NULL,
+      timestamp TEXT,
+      lat REAL,
+      lon REAL,
+      altitude REAL,
+      heartRate INTEGER,
+      cadence INTEGER,
+      distance REAL,
+      speed REAL,
+      power INTEGER,
+      temperature INTEGER,
+      PRIMARY KEY (activityId, recordIndex)
+    );
+
+    CREATE TABLE IF NOT EXISTS fit_laps (
+      activityId TEXT NOT NULL,
+      lapIndex INTEGER NOT NULL,
+      startTime TEXT,
+      totalElapsedTime REAL,
+      totalTimerTime REAL,
+      totalDistance REAL,
+      totalCalories INTEGER,
+      avgSpeed REAL,
+      maxSpeed REAL,
+      avgHeartRate INTEGER,
+      maxHeartRate INTEGER,
+      avgCadence INTEGER,
+      totalAscent INTEGER,
+      totalDescent INTEGER,
+      PRIMARY KEY (activityId, lapIndex)
+    );
+
+    CREATE TABLE IF NOT EXISTS fit_sessions (
+      activityId TEXT NOT NULL,
+      sessionIndex INTEGER NOT NULL,
+      sport TEXT,
+      subSport INTEGER,
+      startTime TEXT,
+      totalElapsedTime REAL,
+      totalTimerTime REAL,
+      totalDistance REAL,
+      totalCalories INTEGER,
+      avgSpeed REAL,
+      maxSpeed REAL,
+      avgHeartRate INTEGER,
+      maxHeartRate INTEGER,
+      avgCadence INTEGER,
+      avgPower INTEGER,
+      totalAscent INTEGER,
+      totalDescent INTEGER,
+      totalTrainingEffect REAL,
+      PRIMARY KEY (activityId, sessionIndex)
+    );
+
+    CREATE TABLE IF NOT EXISTS fit_devices (
+      activityId TEXT NOT NULL,
+      deviceIndex INTEGER NOT NULL,
+      manufacturer TEXT,
+      product INTEGER,
+      serialNumber INTEGER,
+      softwareVersion REAL,
+      batteryStatus INTEGER,
+      PRIMARY KEY (activityId, deviceIndex)
+    );
+
+    CREATE TABLE IF NOT EXISTS heart_rate_samples (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      timestamp INTEGER NOT NULL,
+      day TEXT NOT NULL,
+      bpm INTEGER NOT NULL,
+      PRIMARY KEY (profileId, timestamp)
+    );
+    CREATE INDEX IF NOT EXISTS idx_heart_rate_samples_profile_day ON heart_rate_samples(profileId, day);
+
+    CREATE TABLE IF NOT EXISTS body_battery_samples (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      timestamp INTEGER NOT NULL,
+      day TEXT NOT NULL,
+      level INTEGER NOT NULL,
+      PRIMARY KEY (profileId, timestamp)
+    );
+    CREATE INDEX IF NOT EXISTS idx_body_battery_samples_profile_day ON body_battery_samples(profileId, day);
+
+    CREATE TABLE IF NOT EXISTS stress_samples (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      timestamp INTEGER NOT NULL,
+      day TEXT NOT NULL,
+      level INTEGER NOT NULL,
+      PRIMARY KEY (profileId, timestamp)
+    );
+    CREATE INDEX IF NOT EXISTS idx_stress_samples_profile_day ON stress_samples(profileId, day);
+
+    CREATE TABLE IF NOT EXISTS hrv_daily (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      day TEXT NOT NULL,
+      lastNightAvg INTEGER,
+      lastNight5MinHigh INTEGER,
+      weeklyAvg INTEGER,
+      baselineLow INTEGER,
+      baselineHigh INTEGER,
+      status TEXT,
+      PRIMARY KEY (profileId, day)
+    );
+
+    CREATE TABLE IF NOT EXISTS hrv_readings (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      timestamp INTEGER NOT NULL,
+      day TEXT NOT NULL,
+      hrv INTEGER NOT NULL,
+      PRIMARY KEY (profileId, timestamp)
+    );
+    CREATE INDEX IF NOT EXISTS idx_hrv_readings_profile_day ON hrv_readings(profileId, day);
+
+    CREATE TABLE IF NOT EXISTS performance_metrics (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      day TEXT NOT NULL,
+      trainingReadiness INTEGER,
+      trainingReadinessLevel TEXT,
+      trainingStatus TEXT,
+      loadFocus TEXT,
+      acuteLoad REAL,
+      chronicLoad REAL,
+      acuteChronicRatio REAL,
+      vo2MaxRunning REAL,
+      vo2MaxCycling REAL,
+      race5kSeconds INTEGER,
+      race10kSeconds INTEGER,
+      raceHalfMarathonSeconds INTEGER,
+      raceMarathonSeconds INTEGER,
+      rawJson TEXT,
+      PRIMARY KEY (profileId, day)
+    );
+
+    CREATE TABLE IF NOT EXISTS body_composition (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      provider TEXT NOT NULL,
+      sourceId TEXT,
+      day TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      weightKg REAL NOT NULL,
+      bmi REAL,
+      bodyFatPercent REAL,
+      muscleMassKg REAL,
+      boneMassKg REAL,
+      bodyWaterPercent REAL,
+      sourceType TEXT,
+      createdAt TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS gear (
+      uuid TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT,
+      make TEXT,
+      model TEXT,
+      status TEXT,
+      dateBegin TEXT,
+      dateEnd TEXT,
+      maximumMeters REAL,
+      distanceMeters REAL NOT NULL DEFAULT 0,
+      activityCount INTEGER NOT NULL DEFAULT 0,
+      rawJson TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS activity_gear (
+      activityId TEXT NOT NULL,
+      gearUuid TEXT NOT NULL REFERENCES gear(uuid),
+      PRIMARY KEY (activityId, gearUuid)
+    );
+    CREATE INDEX IF NOT EXISTS idx_activity_gear_gear ON activity_gear(gearUuid);
+
+    CREATE TABLE IF NOT EXISTS personal_records (
+      profileId INTEGER NOT NULL DEFAULT 1,
+      typeId INTEGER NOT NULL,
+      recordKey TEXT NOT NULL,
+      label TEXT NOT NULL,
+      unit TEXT,
+      value REAL NOT NULL,
+      activityId TEXT,
+      activityName TEXT,
+      activityType TEXT,
+      achievedAt TEXT,
+      PRIMARY KEY (profileId, typeId)
+    );
+
+    CREATE TABLE IF NOT EXISTS sleep_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      day TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      startTimestamp INTEGER NOT NULL,
+      endTimestamp INTEGER NOT NULL,
+      durationSeconds INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sleep_stages (
+      sessionId INTEGER NOT NULL REFERENCES sleep_sessions(id),
+      stageIndex INTEGER NOT NULL,
+      stage TEXT NOT NULL,
+      startTimestamp INTEGER NOT NULL,
+      endTimestamp INTEGER NOT NULL,
+      PRIMARY KEY (sessionId, stageIndex)
+    );
+  `);
+
+  ensureColumn(db, 'sync_log', 'trigger', 'TEXT');
+  ensureColumn(db, 'sync_log', 'pid', 'INTEGER');
+  ensureColumn(db, 'sync_log', 'heartbeatAt', 'TEXT');
+  ensureColumn(db, 'sync_log', 'dryRun', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'activities', 'contentHash', 'TEXT');
+  ensureColumn(db, 'activities', 'startTimeGMT', 'TEXT');
+  ensureColumn(db, 'daily_metrics', 'contentHash', 'TEXT');
+  ensureColumn(db, 'daily_metrics', 'bodyBatteryCharged', 'INTEGER');
+  ensureColumn(db, 'daily_metrics', 'bodyBatteryDrained', 'INTEGER');
+  ensureColumn(db, 'daily_metrics', 'bodyBatteryPeak', 'INTEGER');
+  ensureColumn(db, 'daily_metrics', 'bodyBatteryLow', 'INTEGER');
+  ensureColumn(db, 'daily_metrics', 'stressPeak', 'INTEGER');
+  ensureColumn(db, 'backfill_jobs', 'activityCursorTime', 'TEXT');
+  ensureColumn(db, 'backfill_jobs', 'activityCursorId', 'INTEGER');
+  ensureColumn(db, 'backfill_jobs', 'logId', 'INTEGER');
+  ensureColumn(db, 'backfill_jobs', 'failedItems', 'INTEGER NOT NULL DEFAULT 0');
+
+  // Rows from before profiles belong to the default profile
+  for (const table of PROFILE_TABLES) {
+    ensureColumn(db, table, 'profileId', `INTEGER NOT NULL DEFAULT ${DEFAULT_PROFILE_ID}`);
+  }
+  for (const table of PROFILE_KEYED_TABLES) {
+    const legacy = columnNames(db, `${table}_v1`);
+    if (legacy.length === 0) continue;
+    const columns = legacy.filter(column => columnNames(db, table).includes(column)).join(', ');
+    db.transaction(() => {
+      db.exec(`INSERT OR IGNORE INTO ${table} (${columns}) SELECT ${columns} FROM ${table}_v1; DROP TABLE ${table}_v1`);
+    })();
+    moved.push(table);
+  }
+
+  db.exec(`
+    DROP INDEX IF EXISTS idx_body_composition_day;
+    DROP INDEX IF EXISTS idx_sleep_sessions_day;
+    CREATE INDEX IF NOT EXISTS idx_activities_profile_start ON activities(profileId, startTime);
+    CREATE INDEX IF NOT EXISTS idx_body_composition_profile_day ON body_composition(profileId, day);
+    CREATE INDEX IF NOT EXISTS idx_sleep_sessions_profile_day ON sleep_sessions(profileId, day);
+    CREATE INDEX IF NOT EXISTS idx_changes_profile ON changes(profileId, id);
+
+    DROP TRIGGER IF EXISTS changes_activities_delete;
+    CREATE TRIGGER changes_activities_delete AFTER DELETE ON activities BEGIN
+      INSERT INTO changes (profileId, tableName, rowKey, op, changedFields, changedAt)
+      VALUES (OLD.profileId, 'activities', OLD.id, 'delete', '{}', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    END;
+
+    DROP TRIGGER IF EXISTS changes_daily_metrics_delete;
+    CREATE TRIGGER changes_daily_metrics_delete AFTER DELETE ON daily_metrics BEGIN
+      INSERT INTO changes (profileId, tableName, rowKey, op, changedFields, changedAt)
+      VALUES (OLD.profileId, 'daily_metrics', OLD.day, 'delete', '{}', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    END;
+  `);
+  db.prepare("INSERT OR IGNORE INTO profiles (id, name, createdAt) VALUES (?, 'default', ?)").run(DEFAULT_PROFILE_ID, new Date().toISOString());
+
+  // Login state from before profiles belongs to the default profile
+  db.transaction(() => {
+    for (const [column, key] of Object.entries(LEGACY_PROFILE_META)) {
+      const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | null | undefined;
+      if (!row) continue;
+      db.prepare(`UPDATE profiles SET ${column} = ? WHERE id = ?`).run(row.value, DEFAULT_PROFILE_ID);
+      db.prepare('DELETE FROM meta WHERE key = ?').run(key);
+    }
+    db.prepare("UPDATE meta SET key = ? || key WHERE key LIKE 'watermark:%'").run(`profile:${DEFAULT_PROFILE_ID}:`);
+  })();
+  return moved;
+}
+
+/** Deletes everything synced for a profile, child rows first, and the profile itself. */
+export function deleteProfileRows(db: SqlDatabase, profileId: number): void {
+  const activities = 'SELECT id FROM activities WHERE profileId = ?';
+  db.transaction(() => {
+    for (const table of ['activity_laps', 'activity_streams', 'fit_files', 'fit_records', 'fit_laps', 'fit_sessions', 'fit_devices', 'activity_gear']) {
+      db.prepare(`DELETE FROM ${table} WHERE activityId IN (${activities})`).run(profileId);
+    }
+    db.prepare('DELETE FROM activity_gear WHERE gearUuid IN (SELECT uuid FROM gear WHERE profileId = ?)').run(profileId);
+    db.prepare('DELETE FROM sleep_stages WHERE sessionId IN (SELECT id FROM sleep_sessions WHERE profileId = ?)').run(profileId);
+    db.prepare('DELETE FROM sync_errors WHERE syncId IN (SELECT id FROM sync_log WHERE profileId = ?)').run(profileId);
+    for (const table of [...PROFILE_TABLES.filter(t => t !== 'changes'), ...PROFILE_KEYED_TABLES, 'changes']) {
+      db.prepare(`DELETE FROM ${table} WHERE profileId = ?`).run(profileId);
+    }
+    db.prepare('DELETE FROM meta WHERE key LIKE ?').run(`profile:${profileId}:%`);
+    db.prepare('DELETE FROM profiles WHERE id = ?').run(profileId);
+  })();
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'bun:test';
+import { SecretBox, SecretKeyError, isSealed, keyFromBytes, keyFromPassphrase, parseKeyFile } from './secrets';
+
+const keyA = keyFromBytes(Buffer.alloc(32, 1));
+const keyB = keyFromBytes(Buffer.alloc(32, 2));
+
+describe('parseKeyFile', () => {
+  it('should accept 32 bytes as hex or base64', () => {
+    const hex = parseKeyFile('01'.repeat(32) + '\n');
+    expect(hex.id).toBe(keyA.id);
+    expect(parseKeyFile(Buffer.alloc(32, 1).toString('base64')).id).toBe(keyA.id);
+  });
+
+  it('should reject keys of the wrong size', () => {
+    expect(() => parseKeyFile('abcd')).toThrow(SecretKeyError);
+  });
+});
+
+describe('keyFromPassphrase', () => {
+  it('should derive the same key for the same passphrase and salt only', () => {
+    const key = keyFromPassphrase('correct horse', 'salt-1');
+    expect(keyFromPassphrase('correct horse', 'salt-1').id).toBe(key.id);
+    expect(keyFromPassphrase('correct horse', 'salt-2').id).not.toBe(key.id);
+  });
+});
+
+describe('SecretBox', () => {
+  it('should round-trip sealed values without leaking the plaintext', () => {
+    const box = new SecretBox(keyA);
+    const sealed = box.seal('{"accessToken":"abc"}');
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain('abc');
+    expect(box.seal('same')).not.toBe(box.seal('same'));
+    expect(box.open(sealed)).toBe('{"accessToken":"abc"}');
+  });
+
+  it('should pass plaintext through and store plaintext without a key', () => {
+    expect(new SecretBox(keyA).open('{"legacy":true}')).toBe('{"legacy":true}');
+    expect(new SecretBox(null).seal('x')).toBe('x');
+  });
+
+  it('should open values sealed with a previous key and flag them for resealing', () => {
+    const old = new SecretBox(keyA).seal('secret');
+    const rotated = new SecretBox(keyB, [keyA]);
+    expect(rotated.open(old)).toBe('secret');
+    expect(rotated.needsReseal(old)).toBe(true);
+    expect(rotated.needsReseal(rotated.seal('secret'))).toBe(false);
+    expect(rotated.needsReseal('plaintext')).toBe(true);
+    expect(new SecretBox(null, [keyA]).needsReseal(old)).toBe(false);
+  });
+
+  it('should refuse unknown keys and tampered values', () => {
+    const sealed = new SecretBox(keyA).seal('secret');
+    expect(() => new SecretBox(keyB).open(sealed)).toThrow(SecretKeyError);
+    const parts = sealed.split(':');
+    parts[5] = Buffer.from('forged').toString('base64');
+    expect(() => new SecretBox(keyA).open(parts.join(':'))).toThrow(SecretKeyError);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Encryption at rest for Garmin Health Sync
+ * AES-256-GCM sealing of secrets stored in SQLite, with keys from a keyfile or passphrase
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const PREFIX = 'enc:v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+// scrypt cost for passphrases: ~100ms and 32 MB once per process
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export interface SecretKey {
+  /** Short fingerprint stored with each sealed value, so rotation knows which key opens it. */
+  id: string;
+  key: Buffer;
+}
+
+/** A sealed value names a key that isn't configured, or fails authentication. */
+export class SecretKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretKeyError';
+  }
+}
+
+export function keyFromBytes(key: Buffer): SecretKey {
+  if (key.length !== KEY_BYTES) throw new SecretKeyError(`Encryption keys must be ${KEY_BYTES} bytes`);
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+/** Parses keyfile contents: 32 bytes as hex or base64, e.g. from `openssl rand -hex 32`. */
+export function parseKeyFile(contents: string): SecretKey {
+  const text = contents.trim();
+  const key = /^[0-9a-f]{64}$/i.test(text) ? Buffer.from(text, 'hex') : Buffer.from(text, 'base64');
+  if (key.length !== KEY_BYTES) throw new SecretKeyError(`Keyfiles must hold ${KEY_BYTES} bytes as hex or base64`);
+  return keyFromBytes(key);
+}
+
+export function readKeyFile(path: string): SecretKey {
+  try {
+    return parseKeyFile(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new SecretKeyError(`Could not load keyfile ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Derives a key from a passphrase. `salt` is per database and not secret. */
+export function keyFromPassphrase(passphrase: string, salt: string): SecretKey {
+  if (!passphrase) throw new SecretKeyError('Passphrase is empty');
+  return keyFromBytes(scryptSync(passphrase, salt, KEY_BYTES, SCRYPT_OPTIONS));
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * Seals with the current key and opens with the current or any previous one.
+ * Without a current key values are stored as plaintext; plaintext written
+ * before encryption was turned on always opens as is.
+ */
+export class SecretBox {
+  readonly current: SecretKey | null;
+  private keys = new Map<string, SecretKey>();
+
+  constructor(current: SecretKey | null, previous: SecretKey[] = []) {
+    this.current = current;
+    for (const key of [...previous, ...(current ? [current] : [])]) this.keys.set(key.id, key);
+  }
+
+  get enabled(): boolean {
+    return this.current !== null;
+  }
+
+  seal(plaintext: string): string {
+    if (!this.current) return plaintext;
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.current.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [PREFIX, this.current.id, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  open(value: string): string {
+    if (!isSealed(value)) return value;
+    const [, , keyId, iv, tag, ciphertext] = value.split(':');
+    const key = this.keys.get(keyId ?? '');
+    if (!key) throw new SecretKeyError(`Value was encrypted with key ${keyId}, which is not configured`);
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key.key, Buffer.from(iv ?? '', 'base64'));
+      decipher.setAuthTag(Buffer.from(tag ?? '', 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext ?? '', 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new SecretKeyError(`Value encrypted with key ${keyId} could not be decrypted`);
+    }
+  }
+
+  /**
+   * Whether a stored value is out of date with the current key: plaintext
+   * while encryption is on, or sealed with an older key. Without a current key
+   * nothing is, so sealed values are never written back as plaintext.
+   */
+  needsReseal(value: string): boolean {
+    if (!this.current) return false;
+    return !isSealed(value) || value.split(':')[2] !== this.current.id;
+  }
+}
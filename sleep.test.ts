@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'bun:test';
+import { buildSleepSessions, normalizeStages, parseGarminTimestamp, stageTotals } from './sleep';
+
+const MIN = 60 * 1000;
+const HOUR = 60 * MIN;
+
+describe('parseGarminTimestamp', () => {
+  it('should read zoneless GMT strings as UTC', () => {
+    expect(parseGarminTimestamp('2026-10-18T22:41:00.0')).toBe(Date.parse('2026-10-18T22:41:00Z'));
+  });
+
+  it('should pass through millisecond timestamps', () => {
+    expect(parseGarminTimestamp(1760000000000)).toBe(1760000000000);
+  });
+
+  it('should reject missing or malformed values', () => {
+    expect(parseGarminTimestamp(undefined)).toBeNull();
+    expect(parseGarminTimestamp('not a date')).toBeNull();
+  });
+});
+
+describe('normalizeStages', () => {
+  it('should map levels to stages in time order and merge touching intervals', () => {
+    const stages = normalizeStages([
+      { startGMT: '2026-10-18T23:30:00.0', endGMT: '2026-10-19T00:00:00.0', activityLevel: 0 },
+      { startGMT: '2026-10-18T23:00:00.0', endGMT: '2026-10-18T23:20:00.0', activityLevel: 1 },
+      { startGMT: '2026-10-18T23:20:00.0', endGMT: '2026-10-18T23:30:00.0', activityLevel: 1 },
+      { startGMT: '2026-10-19T00:00:00.0', endGMT: '2026-10-19T00:10:00.0', activityLevel: -1 },
+    ]);
+    expect(stages).toEqual([
+      { stage: 'light', start: Date.parse('2026-10-18T23:00:00Z'), end: Date.parse('2026-10-18T23:30:00Z') },
+      { stage: 'deep', start: Date.parse('2026-10-18T23:30:00Z'), end: Date.parse('2026-10-19T00:00:00Z') },
+    ]);
+  });
+});
+
+describe('buildSleepSessions', () => {
+  const start = Date.parse('2026-10-18T21:30:00Z');
+  const end = Date.parse('2026-10-19T05:30:00Z');
+  const levels = [
+    { startGMT: start, endGMT: start + 3 * HOUR, activityLevel: 1 },
+    { startGMT: start + 3 * HOUR, endGMT: end, activityLevel: 2 },
+    { startGMT: '2026-10-19T12:00:00.0', endGMT: '2026-10-19T12:20:00.0', activityLevel: 1 },
+  ];
+
+  it('should attribute a night that starts before midnight to the wake-up day', () => {
+    const sessions = buildSleepSessions({
+      dailySleepDTO: { sleepStartTimestampGMT: start, sleepEndTimestampGMT: end, sleepEndTimestampLocal: end + 2 * HOUR },
+      sleepLevels: levels,
+    }, '2026-10-18');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ kind: 'night', day: '2026-10-19', start, end });
+    expect(sessions[0]!.stages.map(s => s.stage)).toEqual(['light', 'rem']);
+  });
+
+  it('should use the local offset to pick the day', () => {
+    const lateEnd = Date.parse('2026-10-19T23:30:00Z');
+    const sessions = buildSleepSessions({
+      dailySleepDTO: { sleepStartTimestampGMT: lateEnd - 8 * HOUR, sleepEndTimestampGMT: lateEnd, sleepEndTimestampLocal: lateEnd + 2 * HOUR },
+    }, '2026-10-19');
+    expect(sessions[0]!.day).toBe('2026-10-20');
+  });
+
+  it('should split naps into their own sessions with their stages', () => {
+    const sessions = buildSleepSessions({
+      dailySleepDTO: { sleepStartTimestampGMT: start, sleepEndTimestampGMT: end, calendarDate: '2026-10-19' },
+      sleepLevels: levels,
+      dailyNapDTOS: [{ napStartTimestampGMT: '2026-10-19T12:00:00.0', napEndTimestampGMT: '2026-10-19T12:30:00.0', calendarDate: '2026-10-19' }],
+    }, '2026-10-19');
+    expect(sessions.map(s => s.kind)).toEqual(['night', 'nap']);
+    expect(sessions[0]!.stages).toHaveLength(2);
+    expect(sessions[1]).toMatchObject({ day: '2026-10-19', stages: [{ stage: 'light' }] });
+  });
+
+  it('should fall back to the stage range when the summary has no timestamps', () => {
+    const sessions = buildSleepSessions({ sleepLevels: levels.slice(0, 2) }, '2026-10-19');
+    expect(sessions[0]).toMatchObject({ day: '2026-10-19', start, end });
+  });
+
+  it('should return nothing without sleep', () => {
+    expect(buildSleepSessions({}, '2026-10-19')).toEqual([]);
+  });
+});
+
+describe('stageTotals', () => {
+  it('should sum seconds per stage', () => {
+    const totals = stageTotals([
+      { stage: 'deep', start: 0, end: 30 * MIN },
+      { stage: 'light', start: 30 * MIN, end: 90 * MIN },
+      { stage: 'deep', start: 90 * MIN, end: 100 * MIN },
+    ]);
+    expect(totals).toEqual({ deep: 2400, light: 3600, rem: 0, awake: 0 });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Sleep timeline helpers for Garmin Health Sync
+ * Turns Garmin's sleep levels and nap list into sessions with stage intervals
+ */
+
+export type SleepStage = 'deep' | 'light' | 'rem' | 'awake';
+export type SleepKind = 'night' | 'nap';
+
+// Garmin's sleepLevels activityLevel codes
+const STAGE_BY_LEVEL: Record<number, SleepStage> = { 0: 'deep', 1: 'light', 2: 'rem', 3: 'awake' };
+
+/** Garmin timestamps are Unix ms or GMT strings without a zone (`2026-10-18T22:41:00.0`). */
+export type GarminTimestamp = number | string;
+
+export interface GarminSleepLevel {
+  startGMT: GarminTimestamp;
+  endGMT: GarminTimestamp;
+  activityLevel: number;
+}
+
+export interface GarminNap {
+  napStartTimestampGMT?: GarminTimestamp;
+  napEndTimestampGMT?: GarminTimestamp;
+  calendarDate?: string;
+}
+
+export interface GarminSleepTimeline {
+  dailySleepDTO?: {
+    calendarDate?: string;
+    sleepStartTimestampGMT?: number;
+    sleepEndTimestampGMT?: number;
+    sleepEndTimestampLocal?: number;
+  };
+  sleepLevels?: GarminSleepLevel[];
+  dailyNapDTOS?: GarminNap[];
+}
+
+/** One stage interval; timestamps are Unix milliseconds (UTC). */
+export interface StageInterval {
+  stage: SleepStage;
+  start: number;
+  end: number;
+}
+
+export interface SleepSession {
+  kind: SleepKind;
+  /** Local calendar day the session ended on. */
+  day: string;
+  start: number;
+  end: number;
+  stages: StageInterval[];
+}
+
+/** Unix ms for a Garmin timestamp; null if missing or unparseable. */
+export function parseGarminTimestamp(value: GarminTimestamp | null | undefined): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value === '') return null;
+  const ms = Date.parse(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Converts sleep levels into time-ordered stage intervals. Unknown levels and
+ * empty intervals are dropped; touching intervals of the same stage are merged.
+ */
+export function normalizeStages(levels: GarminSleepLevel[] | undefined): StageInterval[] {
+  const intervals: StageInterval[] = [];
+  for (const level of levels ?? []) {
+    const stage = STAGE_BY_LEVEL[level.activityLevel];
+    const start = parseGarminTimestamp(level.startGMT);
+    const end = parseGarminTimestamp(level.endGMT);
+    if (!stage || start === null || end === null || end <= start) continue;
+    intervals.push({ stage, start, end });
+  }
+  intervals.sort((a, b) => a.start - b.start);
+
+  const merged: StageInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && last.stage === interval.stage && last.end >= interval.start) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Splits one day's sleep payload into the main night and any naps. Each
+ * session is attributed to the local day it ended on, so a night that starts
+ * before midnight belongs to the wake-up day. `fallbackDay` is used when the
+ * payload carries no local time.
+ */
+export function buildSleepSessions(data: GarminSleepTimeline, fallbackDay: string): SleepSession[] {
+  const dto = data.dailySleepDTO;
+  const stages = normalizeStages(data.sleepLevels);
+  const offset = dto?.sleepEndTimestampLocal != null && dto.sleepEndTimestampGMT != null
+    ? dto.sleepEndTimestampLocal - dto.sleepEndTimestampGMT
+    : null;
+  const localDay = (end: number, calendarDate?: string) =>
+    offset !== null ? new Date(end + offset).toISOString().slice(0, 10) : calendarDate ?? fallbackDay;
+
+  const naps: SleepSession[] = [];
+  for (const nap of data.dailyNapDTOS ?? []) {
+    const start = parseGarminTimestamp(nap.napStartTimestampGMT);
+    const end = parseGarminTimestamp(nap.napEndTimestampGMT);
+    if (start === null || end === null || end <= start) continue;
+    naps.push({ kind: 'nap', day: localDay(end, nap.calendarDate), start, end, stages: clipStages(stages, start, end) });
+  }
+
+  const sessions: SleepSession[] = [];
+  const nightStart = parseGarminTimestamp(dto?.sleepStartTimestampGMT) ?? stages[0]?.start ?? null;
+  const nightEnd = parseGarminTimestamp(dto?.sleepEndTimestampGMT) ?? stages[stages.length - 1]?.end ?? null;
+  if (nightStart !== null && nightEnd !== null && nightEnd > nightStart) {
+    sessions.push({
+      kind: 'night',
+      day: localDay(nightEnd, dto?.calendarDate),
+      start: nightStart,
+      end: nightEnd,
+      stages: clipStages(stages, nightStart, nightEnd),
+    });
+  }
+  return [...sessions, ...naps].sort((a, b) => a.start - b.start);
+}
+
+/** Seconds spent in each stage. */
+export function stageTotals(stages: StageInterval[]): Record<SleepStage, number> {
+  const totals: Record<SleepStage, number> = { deep: 0, light: 0, rem: 0, awake: 0 };
+  for (const interval of stages) {
+    totals[interval.stage] += Math.round((interval.end - interval.start) / 1000);
+  }
+  return totals;
+}
+
+function clipStages(stages: StageInterval[], start: number, end: number): StageInterval[] {
+  return stages
+    .filter(s => s.end > start && s.start < end)
+    .map(s => ({ stage: s.stage, start: Math.max(s.start, start), end: Math.min(s.end, end) }));
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'bun:test';
+import { decodeStreams, downsample, encodeStreams, parseActivityDetails } from './streams';
+
+const details = {
+  metricDescriptors: [
+    { metricsIndex: 0, key: 'sumElapsedDuration' },
+    { metricsIndex: 1, key: 'directHeartRate' },
+    { metricsIndex: 2, key: 'directLatitude' },
+    { metricsIndex: 3, key: 'directRunCadence' },
+  ],
+  activityDetailMetrics: [
+    { metrics: [0, 120, 52.5123456789, 80] },
+    { metrics: [1, 125, 52.5123556789, 82] },
+    { metrics: [2, null, 52.5123656789, 84] },
+    { metrics: [3, 135, 52.5123756789, 86] },
+  ],
+};
+
+describe('parseActivityDetails', () => {
+  it('should map Garmin metric keys to stream columns', () => {
+    const streams = parseActivityDetails(details)!;
+    expect(streams.time).toEqual([0, 1, 2, 3]);
+    expect(streams.hr).toEqual([120, 125, null, 135]);
+    expect(streams.cadence).toEqual([80, 82, 84, 86]);
+    expect(streams.speed).toBeUndefined();
+  });
+
+  it('should return null without a time axis', () => {
+    expect(parseActivityDetails({ metricDescriptors: [{ metricsIndex: 0, key: 'directHeartRate' }], activityDetailMetrics: [{ metrics: [120] }] })).toBeNull();
+    expect(parseActivityDetails({})).toBeNull();
+  });
+});
+
+describe('encodeStreams', () => {
+  it('should round-trip values, nulls and full coordinate precision', () => {
+    const streams = parseActivityDetails(details)!;
+    const { fields, data } = encodeStreams(streams);
+    expect(fields).toEqual(['time', 'hr', 'lat', 'cadence']);
+    expect(decodeStreams(fields, data)).toEqual(streams);
+  });
+});
+
+describe('downsample', () => {
+  it('should average buckets and keep the first time of each', () => {
+    const streams = parseActivityDetails(details)!;
+    const reduced = downsample(streams, 2);
+    expect(reduced.time).toEqual([0, 2]);
+    expect(reduced.hr).toEqual([122.5, 135]);
+    expect(reduced.cadence).toEqual([81, 85]);
+  });
+
+  it('should return the streams unchanged when already small enough', () => {
+    const streams = parseActivityDetails(details)!;
+    expect(downsample(streams, 10)).toBe(streams);
+  });
+});
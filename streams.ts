@@ -0,0 +1,117 @@
+/**
+ * Activity metric streams for Garmin Health Sync
+ * Parses Garmin activity details into columns, packs them into a compact
+ * blob for storage and downsamples them for the API
+ */
+
+import { deflateSync, inflateSync } from 'node:zlib';
+
+/** Response of /activity-service/activity/{id}/details. */
+export interface GarminActivityDetails {
+  metricDescriptors?: Array<{ metricsIndex: number; key: string }>;
+  activityDetailMetrics?: Array<{ metrics: Array<number | null> }>;
+}
+
+/** Stream name → Garmin metric keys, first match wins. */
+const FIELD_KEYS = {
+  time: ['sumElapsedDuration', 'sumDuration'],
+  hr: ['directHeartRate'],
+  speed: ['directSpeed'],
+  lat: ['directLatitude'],
+  lon: ['directLongitude'],
+  elevation: ['directElevation'],
+  cadence: ['directDoubleCadence', 'directRunCadence', 'directBikeCadence'],
+  power: ['directPower'],
+  distance: ['sumDistance'],
+} as const;
+
+export type StreamField = keyof typeof FIELD_KEYS;
+export const STREAM_FIELDS = Object.keys(FIELD_KEYS) as StreamField[];
+
+/** Columnar samples: every present field has one value per sample; `time` is seconds from the start. */
+export type Streams = Partial<Record<StreamField, Array<number | null>>>;
+
+export function sampleCount(streams: Streams): number {
+  return streams.time?.length ?? 0;
+}
+
+/** Extracts the known fields. Returns null when the details carry no time axis. */
+export function parseActivityDetails(details: GarminActivityDetails): Streams | null {
+  const descriptors = details.metricDescriptors ?? [];
+  const rows = details.activityDetailMetrics ?? [];
+  const indexOf = (keys: readonly string[]) => {
+    for (const key of keys) {
+      const descriptor = descriptors.find(d => d.key === key);
+      if (descriptor) return descriptor.metricsIndex;
+    }
+    return undefined;
+  };
+  const streams: Streams = {};
+  for (const field of STREAM_FIELDS) {
+    const index = indexOf(FIELD_KEYS[field]);
+    if (index !== undefined) {
+      streams[field] = rows.map(row => row.metrics[index] ?? null);
+    }
+  }
+  if (!streams.time || rows.length === 0) return null;
+  return streams;
+}
+
+/**
+ * Packs streams as deflated Float64 columns in STREAM_FIELDS order, with NaN
+ * for missing values. The field list is stored alongside to decode it.
+ */
+export function encodeStreams(streams: Streams): { fields: StreamField[]; data: Buffer } {
+  const fields = STREAM_FIELDS.filter(field => streams[field]);
+  const count = sampleCount(streams);
+  const columns = new Float64Array(fields.length * count);
+  fields.forEach((field, f) => {
+    streams[field]!.forEach((value, i) => {
+      columns[f * count + i] = value ?? NaN;
+    });
+  });
+  return { fields, data: deflateSync(Buffer.from(columns.buffer)) };
+}
+
+export function decodeStreams(fields: StreamField[], data: Buffer): Streams {
+  const raw = inflateSync(data);
+  const columns = new Float64Array(raw.buffer, raw.byteOffset, raw.byteLength / 8);
+  const count = fields.length > 0 ? columns.length / fields.length : 0;
+  const streams: Streams = {};
+  fields.forEach((field, f) => {
+    streams[field] = Array.from(columns.subarray(f * count, (f + 1) * count), v => (Number.isNaN(v) ? null : v));
+  });
+  return streams;
+}
+
+/**
+ * Reduces streams to at most `maxPoints` samples by averaging consecutive
+ * buckets. `time` keeps each bucket's first sample; missing values are
+ * ignored and an all-missing bucket stays null.
+ */
+export function downsample(streams: Streams, maxPoints: number): Streams {
+  const count = sampleCount(streams);
+  if (maxPoints >= count) return streams;
+  const bucketSize = count / maxPoints;
+  const result: Streams = {};
+  for (const field of STREAM_FIELDS) {
+    const values = streams[field];
+    if (!values) continue;
+    result[field] = Array.from({ length: maxPoints }, (_, b) => {
+      const start = Math.floor(b * bucketSize);
+      const end = Math.floor((b + 1) * bucketSize);
+      if (field === 'time') return values[start] ?? null;
+      let sum = 0;
+      let n = 0;
+      for (let i = start; i < end; i++) {
+        const value = values[i];
+        if (value !== null && value !== undefined) {
+          sum += value;
+          n++;
+        }
+      }
+      return n > 0 ? sum / n : null;
+    });
+  }
+  return result;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'bun:test';
+import { SYNC_DATA_TYPES, describeSyncScope, parseSyncOptions } from './sync';
+
+describe('parseSyncOptions', () => {
+  it('should accept an empty body as an incremental sync', () => {
+    expect(parseSyncOptions(undefined, 1)).toEqual({ profileId: 1 });
+    expect(parseSyncOptions({}, 2)).toEqual({ profileId: 2 });
+  });
+
+  it('should accept types, a date range and a dry run', () => {
+    expect(parseSyncOptions({ types: ['sleep', 'hrv'], from: '2026-10-01', to: '2026-10-07', dryRun: true }, 1)).toEqual({
+      profileId: 1, types: ['sleep', 'hrv'], from: '2026-10-01', to: '2026-10-07', dryRun: true,
+    });
+    expect(parseSyncOptions({ dryRun: false }, 1)).toEqual({ profileId: 1 });
+  });
+
+  it('should reject unknown or empty types', () => {
+    const message = `types must be a non-empty list of: ${SYNC_DATA_TYPES.join(', ')}`;
+    expect(parseSyncOptions({ types: ['sleep', 'naps'] }, 1)).toBe(message);
+    expect(parseSyncOptions({ types: [] }, 1)).toBe(message);
+    expect(parseSyncOptions({ types: 'sleep' }, 1)).toBe(message);
+  });
+
+  it('should reject malformed and inverted dates', () => {
+    expect(parseSyncOptions({ from: '2026-10-1' }, 1)).toBe('from must be a YYYY-MM-DD date');
+    expect(parseSyncOptions({ from: 20261001 }, 1)).toBe('from must be a YYYY-MM-DD date');
+    expect(parseSyncOptions({ to: '10/07/2026' }, 1)).toBe('to must be a YYYY-MM-DD date');
+    expect(parseSyncOptions({ from: '2026-10-07', to: '2026-10-01' }, 1)).toBe('from must not be after to');
+  });
+
+  it('should reject a non-boolean dryRun', () => {
+    expect(parseSyncOptions({ dryRun: 'yes' }, 1)).toBe('dryRun must be a boolean');
+  });
+
+  it('should reject empty or non-numeric activityIds', () => {
+    const message = 'activityIds must be a non-empty list of Garmin activity ids';
+    expect(parseSyncOptions({ activityIds: [] }, 1)).toBe(message);
+    expect(parseSyncOptions({ activityIds: ['123', 'abc'] }, 1)).toBe(message);
+    expect(parseSyncOptions({ activityIds: '123' }, 1)).toBe(message);
+    expect(parseSyncOptions({ activityIds: [123], types: ['sleep'] }, 1)).toBe('activityIds requires the activities type');
+  });
+
+  it('should limit activityIds to activities unless a range is given', () => {
+    expect(parseSyncOptions({ activityIds: [123, '456'] }, 1)).toEqual({ profileId: 1, activityIds: ['123', '456'], types: ['activities'] });
+    expect(parseSyncOptions({ activityIds: ['123'], from: '2026-10-01' }, 1)).toEqual({
+      profileId: 1, activityIds: ['123'], from: '2026-10-01', types: [...SYNC_DATA_TYPES],
+    });
+  });
+});
+
+describe('describeSyncScope', () => {
+  it('should describe an incremental sync of all types', () => {
+    expect(describeSyncScope({ profileId: 1 })).toBe(`[types=${SYNC_DATA_TYPES.join(',')} incremental]`);
+  });
+
+  it('should describe a range, running an open end to today', () => {
+    expect(describeSyncScope({ profileId: 1, types: ['sleep'], from: '2026-10-01', to: '2026-10-07' })).toBe('[types=sleep from=2026-10-01 to=2026-10-07]');
+    expect(describeSyncScope({ profileId: 1, types: ['sleep'], from: '2026-10-01' }, '2026-10-19')).toBe('[types=sleep from=2026-10-01 to=2026-10-19]');
+    expect(describeSyncScope({ profileId: 1, types: ['sleep'], to: '2026-10-07' })).toBe('[types=sleep from=2026-10-07 to=2026-10-07]');
+  });
+
+  it('should list activity ids, dry runs and other profiles', () => {
+    expect(describeSyncScope({ profileId: 1, types: ['activities'], activityIds: ['123', '456'] })).toBe('[types=activities activityIds=123,456]');
+    expect(describeSyncScope({ profileId: 3, types: ['hrv'], dryRun: true })).toBe('[profile=3 types=hrv incremental dry-run]');
+  });
+
+  it('should describe a retry by the sync it retries', () => {
+    expect(describeSyncScope({ profileId: 1, retryOf: 42, types: ['sleep'] })).toBe('[retry of sync 42]');
+    expect(describeSyncScope({ profileId: 2, retryOf: 42 })).toBe('[profile=2 retry of sync 42]');
+  });
+});
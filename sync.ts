@@ -0,0 +1,81 @@
+/**
+ * Sync options for Garmin Health Sync
+ * Validates POST /sync bodies and describes a sync's scope for sync_log
+ */
+
+import { DEFAULT_PROFILE_ID } from './profiles.js';
+
+export const WELLNESS_TYPES = ['summary', 'hrv', 'sleep', 'bodyBattery', 'stress', 'heartRate', 'performance', 'bodyComposition'] as const;
+export type WellnessType = typeof WELLNESS_TYPES[number];
+// Account-wide data that is not tied to a day; re-pulled whole on every sync that includes it
+export const PROFILE_TYPES = ['gear', 'records'] as const;
+export type ProfileType = typeof PROFILE_TYPES[number];
+export type SyncDataType = 'activities' | WellnessType | ProfileType;
+
+export const SYNC_DATA_TYPES: readonly SyncDataType[] = ['activities', ...WELLNESS_TYPES, ...PROFILE_TYPES];
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * What a sync covers. Without `from`/`to` wellness days follow the watermarks.
+ * `retryOf` re-fetches only the unresolved failed items of an earlier sync.
+ * `dryRun` fetches and normalizes everything but only reports what would change.
+ */
+export type SyncOptions = {
+  profileId: number;
+  types?: SyncDataType[];
+  from?: string;
+  to?: string;
+  activityIds?: string[];
+  retryOf?: number;
+  dryRun?: boolean;
+};
+
+/** Validates a POST /sync body; returns the problem as a string. */
+export function parseSyncOptions(body: unknown, profileId: number): SyncOptions | string {
+  const { types, from, to, activityIds, dryRun } = (body ?? {}) as Record<string, unknown>;
+  const options: SyncOptions = { profileId };
+  if (dryRun !== undefined) {
+    if (typeof dryRun !== 'boolean') return 'dryRun must be a boolean';
+    if (dryRun) options.dryRun = true;
+  }
+  if (types !== undefined) {
+    if (!Array.isArray(types) || types.length === 0 || !types.every(t => SYNC_DATA_TYPES.includes(t))) {
+      return `types must be a non-empty list of: ${SYNC_DATA_TYPES.join(', ')}`;
+    }
+    options.types = types as SyncDataType[];
+  }
+  if (from !== undefined) {
+    if (typeof from !== 'string' || !DAY_PATTERN.test(from)) return 'from must be a YYYY-MM-DD date';
+    options.from = from;
+  }
+  if (to !== undefined) {
+    if (typeof to !== 'string' || !DAY_PATTERN.test(to)) return 'to must be a YYYY-MM-DD date';
+    options.to = to;
+  }
+  if (options.from && options.to && options.from > options.to) return 'from must not be after to';
+  if (activityIds !== undefined) {
+    if (!Array.isArray(activityIds) || activityIds.length === 0 || !activityIds.every(id => /^\d+$/.test(String(id)))) {
+      return 'activityIds must be a non-empty list of Garmin activity ids';
+    }
+    options.activityIds = activityIds.map(String);
+    if (options.types && !options.types.includes('activities')) return 'activityIds requires the activities type';
+    // Re-pulling specific activities should not drag every wellness type along
+    options.types ??= options.from || options.to ? [...SYNC_DATA_TYPES] : ['activities'];
+  }
+  return options;
+}
+
+/** Human-readable scope recorded in sync_log.details. An open-ended range runs to `today`. */
+export function describeSyncScope(options: SyncOptions, today = new Date().toISOString().slice(0, 10)): string {
+  const profile = options.profileId === DEFAULT_PROFILE_ID ? '' : `profile=${options.profileId} `;
+  if (options.retryOf !== undefined) return `[${profile}retry of sync ${options.retryOf}]`;
+  const parts = [`${profile}types=${(options.types ?? SYNC_DATA_TYPES).join(',')}`];
+  if (options.from || options.to) {
+    parts.push(`from=${options.from ?? options.to} to=${options.to ?? today}`);
+  } else if (!options.activityIds) {
+    parts.push('incremental');
+  }
+  if (options.activityIds) parts.push(`activityIds=${options.activityIds.join(',')}`);
+  if (options.dryRun) parts.push('dry-run');
+  return `[${parts.join(' ')}]`;
+}
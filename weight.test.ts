@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'bun:test';
+import { parseManualEntry, parseWeighIns } from './weight';
+
+describe('parseWeighIns', () => {
+  it('should convert grams to kilograms and sort by time', () => {
+    const items = parseWeighIns({
+      dateWeightList: [
+        { samplePk: 2, calendarDate: '2026-10-19', timestampGMT: 1760900000000, weight: 71800, bmi: 22.14, bodyFat: 15.3, bodyWater: 60.1, boneMass: 3300, muscleMass: 34200, sourceType: 'INDEX_SCALE' },
+        { samplePk: 1, calendarDate: '2026-10-19', timestampGMT: 1760880000000, weight: 72000, sourceType: 'MANUAL' },
+        { samplePk: 3, calendarDate: '2026-10-19', timestampGMT: 1760890000000, weight: null },
+      ],
+    }, '2026-10-19');
+    expect(items).toEqual([
+      { sourceId: '1', day: '2026-10-19', timestamp: 1760880000000, weightKg: 72, bmi: null, bodyFatPercent: null, muscleMassKg: null, boneMassKg: null, bodyWaterPercent: null, sourceType: 'MANUAL' },
+      { sourceId: '2', day: '2026-10-19', timestamp: 1760900000000, weightKg: 71.8, bmi: 22.1, bodyFatPercent: 15.3, muscleMassKg: 34.2, boneMassKg: 3.3, bodyWaterPercent: 60.1, sourceType: 'INDEX_SCALE' },
+    ]);
+  });
+
+  it('should treat a missing list as no weigh-ins', () => {
+    expect(parseWeighIns({}, '2026-10-19')).toEqual([]);
+  });
+});
+
+describe('parseManualEntry', () => {
+  const now = new Date('2026-10-19T07:15:00Z');
+
+  it('should accept a weight with optional composition values', () => {
+    expect(parseManualEntry({ weightKg: 71.5, bodyFatPercent: 16, time: '2026-10-18T06:30:00Z' }, now)).toMatchObject({
+      day: '2026-10-18',
+      timestamp: Date.parse('2026-10-18T06:30:00Z'),
+      weightKg: 71.5,
+      bodyFatPercent: 16,
+      muscleMassKg: null,
+    });
+  });
+
+  it('should default the time to now, or noon of the given day', () => {
+    expect(parseManualEntry({ weightKg: 70 }, now)).toMatchObject({ day: '2026-10-19', timestamp: now.getTime() });
+    expect(parseManualEntry({ weightKg: 70, day: '2026-10-01' }, now)).toMatchObject({ day: '2026-10-01', timestamp: Date.parse('2026-10-01T12:00:00Z') });
+  });
+
+  it('should reject invalid entries', () => {
+    expect(parseManualEntry(null)).toBe('body must be a JSON object');
+    expect(parseManualEntry({ bmi: 22 })).toBe('weightKg is required');
+    expect(parseManualEntry({ weightKg: '70' })).toBe('weightKg must be a non-negative number');
+    expect(parseManualEntry({ weightKg: 70, bodyFatPercent: 140 })).toBe('bodyFatPercent must be at most 100');
+    expect(parseManualEntry({ weightKg: 70, day: '19.10.2026' })).toBe('day must be a YYYY-MM-DD date');
+    expect(parseManualEntry({ weightKg: 70, time: 'yesterday' })).toBe('time must be an ISO 8601 timestamp');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Body composition helpers for Garmin Health Sync
+ * Normalizes Garmin weigh-ins and validates manual entries
+ */
+
+export type WeighInProvider = 'garmin' | 'manual';
+
+export interface GarminWeighIn {
+  samplePk?: number;
+  calendarDate?: string;
+  /** Unix ms */
+  timestampGMT?: number;
+  date?: number;
+  /** Grams */
+  weight?: number | null;
+  bmi?: number | null;
+  bodyFat?: number | null;
+  bodyWater?: number | null;
+  /** Grams */
+  boneMass?: number | null;
+  /** Grams */
+  muscleMass?: number | null;
+  sourceType?: string | null;
+}
+
+export interface GarminWeighInDay {
+  dateWeightList?: GarminWeighIn[];
+}
+
+/** One weigh-in; masses are kilograms, percentages 0-100. */
+export interface BodyComposition {
+  sourceId: string | null;
+  day: string;
+  timestamp: number;
+  weightKg: number;
+  bmi: number | null;
+  bodyFatPercent: number | null;
+  muscleMassKg: number | null;
+  boneMassKg: number | null;
+  bodyWaterPercent: number | null;
+  sourceType: string | null;
+}
+
+export const BODY_COMPOSITION_FIELDS = ['weightKg', 'bmi', 'bodyFatPercent', 'muscleMassKg', 'boneMassKg', 'bodyWaterPercent'] as const;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Weigh-ins of one day, oldest first. Entries without a weight are dropped. */
+export function parseWeighIns(data: GarminWeighInDay, day: string): BodyComposition[] {
+  const items: BodyComposition[] = [];
+  for (const entry of data.dateWeightList ?? []) {
+    const timestamp = entry.timestampGMT ?? entry.date;
+    if (typeof entry.weight !== 'number' || typeof timestamp !== 'number') continue;
+    items.push({
+      sourceId: entry.samplePk != null ? String(entry.samplePk) : null,
+      day: entry.calendarDate ?? day,
+      timestamp,
+      weightKg: gramsToKg(entry.weight)!,
+      bmi: round(entry.bmi),
+      bodyFatPercent: round(entry.bodyFat),
+      muscleMassKg: gramsToKg(entry.muscleMass),
+      boneMassKg: gramsToKg(entry.boneMass),
+      bodyWaterPercent: round(entry.bodyWater),
+      sourceType: entry.sourceType ?? null,
+    });
+  }
+  return items.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Validates a manual weigh-in body. `weightKg` is required; `day` defaults to
+ * the day of `time`, and `time` to noon UTC of `day` (or now without either).
+ */
+export function parseManualEntry(body: unknown, now = new Date()): BodyComposition | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'body must be a JSON object';
+  const input = body as Record<string, unknown>;
+
+  for (const field of BODY_COMPOSITION_FIELDS) {
+    const value = input[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (typeof input.weightKg !== 'number' || input.weightKg <= 0) return 'weightKg is required';
+  for (const field of ['bodyFatPercent', 'bodyWaterPercent'] as const) {
+    if (typeof input[field] === 'number' && (input[field] as number) > 100) return `${field} must be at most 100`;
+  }
+
+  if (input.day !== undefined && (typeof input.day !== 'string' || !DAY_PATTERN.test(input.day))) {
+    return 'day must be a YYYY-MM-DD date';
+  }
+  let timestamp: number;
+  if (input.time !== undefined) {
+    timestamp = typeof input.time === 'string' ? Date.parse(input.time) : NaN;
+    if (Number.isNaN(timestamp)) return 'time must be an ISO 8601 timestamp';
+  } else {
+    timestamp = typeof input.day === 'string' ? Date.parse(`${input.day}T12:00:00Z`) : now.getTime();
+  }
+
+  const number = (field: typeof BODY_COMPOSITION_FIELDS[number]) => (typeof input[field] === 'number' ? input[field] as number : null);
+  return {
+    sourceId: null,
+    day: typeof input.day === 'string' ? input.day : new Date(timestamp).toISOString().slice(0, 10),
+    timestamp,
+    weightKg: input.weightKg,
+    bmi: number('bmi'),
+    bodyFatPercent: number('bodyFatPercent'),
+    muscleMassKg: number('muscleMassKg'),
+    boneMassKg: number('boneMassKg'),
+    bodyWaterPercent: number('bodyWaterPercent'),
+    sourceType: null,
+  };
+}
+
+function gramsToKg(value: number | null | undefined): number | null {
+  return typeof value === 'number' ? Math.round(value) / 1000 : null;
+}
+
+function round(value: number | null | undefined): number | null {
+  return typeof value === 'number' ? Math.round(value * 10) / 10 : null;
+}
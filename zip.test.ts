@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'bun:test';
+import { inflateRawSync } from 'node:zlib';
+import { createZip, crc32, readZip } from './zip';
+
+describe('crc32', () => {
+  it('should match the reference checksum', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('should store each file as a readable deflate entry', () => {
+    const zip = createZip([{ name: 'a.gpx', data: 'hello' }, { name: 'b.gpx', data: 'world!' }]);
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const nameLength = zip.readUInt16LE(26);
+    const compressedSize = zip.readUInt32LE(18);
+    expect(zip.subarray(30, 30 + nameLength).toString()).toBe('a.gpx');
+    const data = inflateRawSync(zip.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(data.toString()).toBe('hello');
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+  });
+});
+
+describe('readZip', () => {
+  it('should read back the entries written by createZip', () => {
+    const zip = createZip([{ name: '123_ACTIVITY.fit', data: Buffer.from([0x0e, 0x10, 0xff]) }, { name: 'notes.txt', data: 'hi' }]);
+    expect(readZip(zip)).toEqual([
+      { name: '123_ACTIVITY.fit', data: Buffer.from([0x0e, 0x10, 0xff]) },
+      { name: 'notes.txt', data: Buffer.from('hi') },
+    ]);
+  });
+
+  it('should reject data that is not a zip', () => {
+    expect(() => readZip(Buffer.from('.FIT file, not a zip archive'))).toThrow('Not a zip archive');
+  });
+});